@@ -2,6 +2,8 @@ const publicExports = [
   ["@usehercules/convex", "createAccess"],
   ["@usehercules/convex", "classifyAccessError"],
   ["@usehercules/convex/http", "registerAccessRoutes"],
+  ["@usehercules/convex/react", "usePermission"],
+  ["@usehercules/convex/testing", "createFakeControlPlane"],
 ];
 
 for (const [specifier, exportName] of publicExports) {
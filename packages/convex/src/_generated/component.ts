@@ -29,6 +29,74 @@ type CheckArgs = {
   resource?: ResourceRef;
 };
 
+type ExplainedMembership = { id: string; tenantId: string; status: MembershipStatus };
+
+type ExplainedRoleAssignment = {
+  assignmentId: string;
+  roleId: string;
+  roleKey?: string;
+  heldVia: "direct" | "group" | "app_scope";
+  groupId?: string;
+  expiresAt?: number;
+  grantsPermission: boolean;
+};
+
+type ExplainedResourceAssignment = {
+  assignmentId: string;
+  roleId: string;
+  roleKey?: string;
+  heldVia: "direct" | "group";
+  groupId?: string;
+  resource: { type: string | null; externalId: string };
+  expiresAt?: number;
+  chainDepth?: number;
+  grantsPermission: boolean;
+};
+
+type ExpiredAssignment = {
+  assignmentId: string;
+  roleId: string;
+  roleKey?: string;
+  heldVia: "direct" | "group" | "app_scope";
+  groupId?: string;
+  resource?: { type: string | null; externalId: string };
+  expiresAt: number;
+  grantsPermission: boolean;
+};
+
+type AccessExplanation = {
+  decision: AccessDecision;
+  tenantId?: string;
+  membership?: ExplainedMembership;
+  primaryMembership?: ExplainedMembership;
+  roles: ExplainedRoleAssignment[];
+  resource?: {
+    chain: Array<{ type: string | null; externalId: string; hasNode: boolean }>;
+    stoppedAt?:
+      | "unknown_resource_type"
+      | "dangling_parent"
+      | "cross_tenant_parent"
+      | "cycle"
+      | "max_depth";
+    assignments: ExplainedResourceAssignment[];
+  };
+  grantedBy?:
+    | { scope: "tenant"; assignment: ExplainedRoleAssignment }
+    | { scope: "resource"; assignment: ExplainedResourceAssignment };
+  expired: ExpiredAssignment[];
+};
+
+type SimulatedAssignment = {
+  roleId: string;
+  groupId?: string;
+  resource?: ResourceRef;
+  expiresAt?: number;
+};
+
+type SimulationCheck = { permission: string; resource?: ResourceRef };
+
+type SimulatedCheck = SimulationCheck & { before: AccessDecision; after: AccessDecision };
+
 type RoleSummary = {
   id: string;
   key: string;
@@ -58,6 +126,58 @@ type ResourceNode = {
   parent?: ResourceRef;
 };
 
+type ResourceDescendants = { items: ResourceNode[]; truncated?: boolean };
+
+type ResourceWriteResult =
+  | { status: "ok"; node: ResourceNode }
+  | { status: "IAM_CONFIG" | "mirror_not_ready"; message: string };
+
+type ResourceIssueKind =
+  | "missing_tenant"
+  | "unknown_type"
+  | "dangling_parent"
+  | "cross_tenant_parent";
+
+type SyncHealth = {
+  ready: boolean;
+  sourceVersion?: number;
+  lastEventId?: string;
+  lastSyncedAt?: number;
+  ageMs?: number;
+  needsResync?: boolean;
+  lastError?: { status: string; at: number };
+  rejections: { status: string; count: number; lastRejectedAt: number }[];
+  pendingExpiries: number;
+  signingKeys: { fingerprint: string; lastVerifiedAt: number }[];
+};
+
+type ResyncClaim = {
+  reason: "version_gap" | "reset_required";
+  currentVersion: number;
+  attempts: number;
+};
+
+type ResourceSweepReport = {
+  scanned: number;
+  issues: {
+    kind: ResourceIssueKind;
+    nodeId: string;
+    tenantId: string;
+    resourceTypeId: string;
+    externalId: string;
+    parentId?: string;
+    repaired: boolean;
+  }[];
+  counts: Record<ResourceIssueKind, number>;
+  cursor?: string;
+};
+
+type ResourceDeleteResult = {
+  deleted: boolean;
+  descendantsDeleted?: number;
+  continuing?: boolean;
+};
+
 type TenantAccessStatus =
   | { kind: "principal"; membershipId: string; status: MembershipStatus; stateVersion: number }
   | {
@@ -72,7 +192,7 @@ type TenantAccessStatus =
       stateVersion?: number;
     };
 
-type TargetTenantSyncStatus =
+type TargetTenantSyncStatus = (
   | { state: "syncing"; currentSourceVersion?: number; targetSourceVersion: number }
   | {
       state: "ready";
@@ -94,7 +214,8 @@ type TargetTenantSyncStatus =
       reasonCode: string;
       currentSourceVersion?: number;
       targetSourceVersion: number;
-    };
+    }
+) & { needsResync?: boolean };
 
 // ── mirror-table record shapes (Convex system fields + sourceVersion dropped) ──
 type TenantRecord = {
@@ -149,6 +270,13 @@ type MemberResourceRoleAssignment = {
   heldVia: "direct" | "group";
 };
 type MemberDetail = MemberSummary & { resourceRoleAssignments: MemberResourceRoleAssignment[] };
+type PermissionHolder = {
+  membershipId: string;
+  tenantId: string;
+  status: MembershipStatus;
+  user: MemberUser;
+  heldVia: "direct" | "group" | "app_scope" | "ancestor";
+};
 
 type GroupMembershipRecord = {
   groupId: string;
@@ -180,6 +308,31 @@ type RolePermissionRecord = {
   updatedAt: number;
 };
 
+type SyncLogEntityType =
+  | "tenant"
+  | "role"
+  | "permission"
+  | "role_permission"
+  | "resource_type"
+  | "membership"
+  | "group"
+  | "group_membership"
+  | "user_role_assignment"
+  | "group_role_assignment"
+  | "user_resource_role_assignment"
+  | "group_resource_role_assignment"
+  | "user"
+  | "snapshot";
+
+type SyncLogRecord = {
+  eventId?: string;
+  sourceVersion: number;
+  entityType: SyncLogEntityType;
+  operation: "upsert" | "delete" | "expire" | "initialize" | "reset";
+  entityId: string;
+  appliedAt: number;
+};
+
 type ResourceTypeRecord = {
   id: string;
   key: string;
@@ -252,14 +405,37 @@ type GetQuery<Args extends DefaultFunctionArgs, V, Name> = FunctionReference<
  */
 export type ComponentApi<Name extends string | undefined = string | undefined> = {
   checks: {
-    check: FunctionReference<"query", "public", CheckArgs, AccessDecision, Name>;
+    check: FunctionReference<
+      "query",
+      "public",
+      CheckArgs & { maxMirrorAgeMs?: number },
+      AccessDecision,
+      Name
+    >;
     checkMany: FunctionReference<
       "query",
       "public",
-      { tokenIdentifier?: string; checks: Array<Omit<CheckArgs, "tokenIdentifier">> },
+      {
+        tokenIdentifier?: string;
+        checks: Array<Omit<CheckArgs, "tokenIdentifier">>;
+        maxMirrorAgeMs?: number;
+      },
       AccessDecision[],
       Name
     >;
+    explain: FunctionReference<"query", "public", CheckArgs, AccessExplanation, Name>;
+    simulate: FunctionReference<
+      "query",
+      "public",
+      {
+        membershipId: string;
+        addAssignments?: SimulatedAssignment[];
+        removeAssignments?: string[];
+        checks: SimulationCheck[];
+      },
+      SimulatedCheck[],
+      Name
+    >;
   };
   queries: {
     // Caller-centric reads (me.*) and sync status.
@@ -291,6 +467,13 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       GroupSummary[],
       Name
     >;
+    listMyPermissions: FunctionReference<
+      "query",
+      "public",
+      { tokenIdentifier?: string; tenantId?: string; resource?: ResourceRef },
+      string[],
+      Name
+    >;
     getTargetTenantSyncStatus: FunctionReference<
       "query",
       "public",
@@ -298,6 +481,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       TargetTenantSyncStatus,
       Name
     >;
+    getSyncHealth: FunctionReference<"query", "public", {}, SyncHealth, Name>;
 
     // Generic per-table reads (TRUSTED / UNGATED).
     tenantsList: ListQuery<
@@ -339,6 +523,11 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
     // Members directory (composed, TRUSTED like the table reads).
     membersList: ListQuery<{ tenantId?: string; status?: MembershipStatus }, MemberSummary, Name>;
     membersGet: GetQuery<{ tenantId?: string; membershipId: string }, MemberDetail, Name>;
+    membersWithPermission: ListQuery<
+      { tenantId?: string; permission: string; resource?: ResourceRef },
+      PermissionHolder,
+      Name
+    >;
 
     userRoleAssignmentsList: ListQuery<
       { tenantId?: string; membershipId?: string; roleId?: string },
@@ -409,6 +598,12 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       RolePermissionRecord,
       Name
     >;
+
+    syncLogList: ListQuery<
+      { entityType?: SyncLogEntityType; entityId?: string; since?: number },
+      SyncLogRecord,
+      Name
+    >;
   };
   resources: {
     list: FunctionReference<
@@ -423,7 +618,7 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         cursor?: string;
         limit?: number;
       },
-      ItemsPage<ResourceNode>,
+      ItemsPage<ResourceNode> & { scannedUntil?: string },
       Name
     >;
     get: FunctionReference<
@@ -439,6 +634,26 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       ResourceNode | null,
       Name
     >;
+    ancestors: FunctionReference<
+      "query",
+      "public",
+      { tenantId?: string; type: string; externalId: string },
+      ResourceNode[],
+      Name
+    >;
+    descendants: FunctionReference<
+      "query",
+      "public",
+      {
+        tenantId?: string;
+        type: string;
+        externalId: string;
+        depth?: number;
+        descendantType?: string;
+      },
+      ResourceDescendants,
+      Name
+    >;
     write: FunctionReference<
       "mutation",
       "public",
@@ -446,11 +661,35 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       ResourceNode,
       Name
     >;
+    writeMany: FunctionReference<
+      "mutation",
+      "public",
+      {
+        tenantId?: string;
+        nodes: { type: string; externalId: string; parent?: ResourceRef }[];
+      },
+      ResourceWriteResult[],
+      Name
+    >;
+    move: FunctionReference<
+      "mutation",
+      "public",
+      { tenantId?: string; type: string; externalId: string; newParent: ResourceRef | null },
+      ResourceNode | null,
+      Name
+    >;
     remove: FunctionReference<
       "mutation",
       "public",
-      { tenantId?: string; type: string; externalId: string },
-      { deleted: boolean },
+      { tenantId?: string; type: string; externalId: string; cascade?: boolean },
+      ResourceDeleteResult,
+      Name
+    >;
+    sweep: FunctionReference<
+      "mutation",
+      "public",
+      { repair?: boolean; cursor?: string; limit?: number },
+      ResourceSweepReport,
       Name
     >;
   };
@@ -462,9 +701,22 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
     applySync: FunctionReference<
       "action",
       "public",
-      { payload: string; webhookId: string; webhookTimestamp: string; webhookSignature: string },
+      {
+        payload: string;
+        webhookId: string;
+        webhookTimestamp: string;
+        webhookSignature: string;
+        hooks?: {
+          onMembershipChanged?: string;
+          onRoleAssignmentChanged?: string;
+          onTenantArchived?: string;
+        };
+      },
       SyncResponse,
       Name
     >;
+    // Gap recovery: claims the next control-plane snapshot request, or null
+    // when none is needed or the previous claim's backoff lease still runs.
+    claimResync: FunctionReference<"mutation", "public", {}, ResyncClaim | null, Name>;
   };
 };
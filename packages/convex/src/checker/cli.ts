@@ -1,5 +1,10 @@
 #!/usr/bin/env node
-import { checkIamSource, formatIamCheckResult } from "./index.js";
+import {
+  checkIamSource,
+  emitIamTypes,
+  formatEmitIamTypesResult,
+  formatIamCheckResult,
+} from "./index.js";
 
 type ParsedArgs =
   | {
@@ -7,6 +12,9 @@ type ParsedArgs =
       convexDir?: string;
       json: boolean;
       help: boolean;
+      // --emit-types[=file]: write the key unions instead of checking.
+      emitTypes: boolean;
+      outFile?: string;
     }
   | { ok: false; message: string };
 
@@ -18,6 +26,20 @@ if (!parsedArgs.ok) {
   process.exitCode = 2;
 } else if (parsedArgs.help) {
   console.log(helpText());
+} else if (parsedArgs.emitTypes) {
+  const result = emitIamTypes({
+    cwd: process.cwd(),
+    convexDir: parsedArgs.convexDir,
+    outFile: parsedArgs.outFile,
+  });
+
+  if (parsedArgs.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.log(formatEmitIamTypesResult(result));
+  }
+
+  process.exitCode = result.ok ? 0 : 1;
 } else {
   const result = checkIamSource({
     cwd: process.cwd(),
@@ -37,6 +59,8 @@ function parseArgs(args: string[]): ParsedArgs {
   let convexDir: string | undefined;
   let json = false;
   let help = false;
+  let emitTypes = false;
+  let outFile: string | undefined;
 
   for (const arg of args) {
     if (arg === "--json") {
@@ -47,6 +71,16 @@ function parseArgs(args: string[]): ParsedArgs {
       help = true;
       continue;
     }
+    if (arg === "--emit-types") {
+      emitTypes = true;
+      continue;
+    }
+    if (arg.startsWith("--emit-types=")) {
+      outFile = arg.slice("--emit-types=".length);
+      if (!outFile) return { ok: false, message: "--emit-types= needs a file path" };
+      emitTypes = true;
+      continue;
+    }
     if (arg.startsWith("-")) {
       return { ok: false, message: `Unknown option: ${arg}` };
     }
@@ -56,21 +90,26 @@ function parseArgs(args: string[]): ParsedArgs {
     convexDir = arg;
   }
 
-  return { ok: true, convexDir, json, help };
+  return { ok: true, convexDir, json, help, emitTypes, outFile };
 }
 
 function helpText(): string {
   return [
-    "Usage: hercules-convex-iam-check [convex-dir] [--json]",
+    "Usage: hercules-convex-iam-check [convex-dir] [--json] [--emit-types[=file]]",
     "",
     "Validates the Convex source against the app's .hercules/iam.jsonc catalog.",
     "Permission literals (the `permission` option on protectedQuery/protectedMutation/",
-    "protectedAction and the argument to access.hasPermissions / access.requirePermissions,",
+    "protectedAction/protectedPaginatedQuery, its `rowPermission`, and the argument to",
+    "access.hasPermissions / access.requirePermissions,",
     "a single key, an array, or an anyOf/allOf set) must be a declared app permission.",
     "Resource-type literals in resource refs",
     "(the `resource` option and resource.write / resource.get / resource.list)",
     "must be a declared resource type. Dynamic, non-literal values are skipped.",
     "",
     "Apps without a .hercules/iam.jsonc catalog pass unchanged.",
+    "",
+    "--emit-types writes the catalog's keys as PermissionKey / ResourceTypeKey",
+    "unions (default <convex-dir>/iamKeys.d.ts) instead of checking. Pass its",
+    "IamKeys to createAccess<DataModel, IamKeys>() to type-check keys with tsc.",
   ].join("\n");
 }
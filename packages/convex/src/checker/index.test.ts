@@ -1,8 +1,13 @@
-import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { describe, expect, test } from "vitest";
-import { checkIamSource, formatIamCheckResult } from "./index";
+import {
+  checkIamSource,
+  emitIamTypes,
+  formatEmitIamTypesResult,
+  formatIamCheckResult,
+} from "./index";
 
 const catalog = `{
   "$schema": "https://schemas.hercules.app/iam/v1.json",
@@ -122,6 +127,32 @@ describe("checkIamSource", () => {
     );
   });
 
+  test("fails an undeclared rowPermission on a paginated builder", () => {
+    const root = createFixture({
+      ".hercules/iam.jsonc": catalog,
+      "convex/documents.ts": `
+        import { paginationOptsValidator } from "convex/server";
+        import { protectedPaginatedQuery } from "./access.js";
+
+        export const list = protectedPaginatedQuery({
+          args: { paginationOpts: paginationOptsValidator },
+          permission: "app.document:read",
+          rowPermission: "app.document:raed",
+          handler: async (ctx, args) => ctx.db.query("documents").paginate(args.paginationOpts),
+          rowResource: (doc) => ({ type: "app.document", externalId: doc._id }),
+        });
+      `,
+    });
+
+    const result = checkIamSource({ cwd: root });
+
+    expect(result.ok).toBe(false);
+    expect(result.findings).toMatchObject([
+      { code: "undeclared_permission", filePath: "convex/documents.ts" },
+    ]);
+    expect(formatIamCheckResult(result)).toContain('Permission "app.document:raed"');
+  });
+
   test("fails an undeclared permission passed to access.requirePermissions", () => {
     const root = createFixture({
       ".hercules/iam.jsonc": catalog,
@@ -503,6 +534,56 @@ describe("checkIamSource", () => {
   });
 });
 
+describe("emitIamTypes", () => {
+  test("writes the catalog keys as unions next to the Convex source", () => {
+    const root = createFixture({ ".hercules/iam.jsonc": catalog });
+
+    const result = emitIamTypes({ cwd: root });
+
+    expect(result).toEqual({
+      ok: true,
+      outFile: "convex/iamKeys.d.ts",
+      permissionKeys: 2,
+      resourceTypeKeys: 2,
+    });
+    expect(formatEmitIamTypesResult(result)).toBe(
+      "Wrote convex/iamKeys.d.ts (2 permissions, 2 resource types).",
+    );
+    const emitted = readFileSync(join(root, "convex/iamKeys.d.ts"), "utf8");
+    expect(emitted).toContain(
+      'export type PermissionKey =\n  | "app.document:read"\n  | "app.document:manage";',
+    );
+    expect(emitted).toContain(
+      'export type ResourceTypeKey =\n  | "app.project"\n  | "app.document";',
+    );
+    expect(emitted).toContain(
+      "export type IamKeys = { permission: PermissionKey; resourceType: ResourceTypeKey };",
+    );
+  });
+
+  test("leaves an undeclared section as string", () => {
+    const root = createFixture({
+      ".hercules/iam.jsonc": `{ "permissions": { "app.document:read": {} } }`,
+    });
+
+    const result = emitIamTypes({ cwd: root, outFile: "types/iam.d.ts" });
+
+    expect(result).toMatchObject({ ok: true, outFile: "types/iam.d.ts", resourceTypeKeys: 0 });
+    const emitted = readFileSync(join(root, "types/iam.d.ts"), "utf8");
+    expect(emitted).toContain('export type PermissionKey = "app.document:read";');
+    expect(emitted).toContain("export type ResourceTypeKey = string;");
+  });
+
+  test("fails without a catalog", () => {
+    const root = createFixture({ "convex/documents.ts": "export {};" });
+
+    expect(emitIamTypes({ cwd: root })).toEqual({
+      ok: false,
+      message: "No parseable .hercules/iam.jsonc catalog found.",
+    });
+  });
+});
+
 function createFixture(files: Record<string, string>): string {
   const root = mkdtempSync(join(tmpdir(), "hercules-convex-iam-check-"));
   for (const [filePath, contents] of Object.entries(files)) {
@@ -1,5 +1,5 @@
-import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
-import { join, relative, resolve } from "node:path";
+import { existsSync, mkdirSync, readFileSync, readdirSync, statSync, writeFileSync } from "node:fs";
+import { dirname, join, relative, resolve } from "node:path";
 import * as ts from "typescript";
 
 // ---------------------------------------------------------------------------
@@ -14,9 +14,10 @@ import * as ts from "typescript";
 //
 // What it scans in the createAccess surface:
 //   - The `permission` option on the auth-aware builders protectedQuery /
-//     protectedMutation / protectedAction (any builder definition object with a
-//     handler). The value may be a single key, a bare array (allOf), OR an
-//     { anyOf: [...] } / { allOf: [...] } set; every string literal is validated.
+//     protectedMutation / protectedAction / protectedPaginatedQuery (any builder
+//     definition object with a handler). The value may be a single key, a bare
+//     array (allOf), OR an { anyOf: [...] } / { allOf: [...] } set; every string
+//     literal is validated. So is protectedPaginatedQuery's `rowPermission`.
 //   - The permission argument to access.hasPermissions(ctx, "app.x:y", ...) and
 //     access.requirePermissions(ctx, ...) - single key, array, or anyOf/allOf set.
 //   - Resource-type literals in resource refs: the `resource` option, the args
@@ -32,6 +33,11 @@ import * as ts from "typescript";
 //
 // Dynamic (non-literal) permission and resource values are skipped: the checker
 // cannot resolve them statically, and the runtime engine validates them.
+//
+// emitIamTypes (`--emit-types`) is the compile-time counterpart: it writes the
+// catalog's keys as PermissionKey / ResourceTypeKey unions for
+// createAccess<DataModel, IamKeys>(), so editors autocomplete them and tsc
+// rejects a typo before this scan runs.
 
 export type IamCheckFinding = {
   code:
@@ -120,6 +126,76 @@ export function formatIamCheckResult(result: IamCheckResult): string {
   return lines.join("\n");
 }
 
+// --- type emit ------------------------------------------------------------
+
+export type EmitIamTypesResult =
+  | {
+      ok: true;
+      outFile: string;
+      permissionKeys: number;
+      resourceTypeKeys: number;
+    }
+  | { ok: false; message: string };
+
+export type EmitIamTypesOptions = {
+  cwd?: string;
+  convexDir?: string;
+  // Defaults to <convexDir>/iamKeys.d.ts.
+  outFile?: string;
+};
+
+export function emitIamTypes(options: EmitIamTypesOptions = {}): EmitIamTypesResult {
+  const cwd = resolve(options.cwd ?? process.cwd());
+  const convexDir = resolve(cwd, options.convexDir ?? "convex");
+  const outFile = resolve(cwd, options.outFile ?? join(convexDir, "iamKeys.d.ts"));
+
+  // Unlike the check, there is nothing to emit without a catalog.
+  const catalog = loadIamCatalog(cwd);
+  if (!catalog) {
+    return { ok: false, message: "No parseable .hercules/iam.jsonc catalog found." };
+  }
+
+  mkdirSync(dirname(outFile), { recursive: true });
+  writeFileSync(outFile, renderIamTypes(catalog));
+  return {
+    ok: true,
+    outFile: displayPathFor(cwd, outFile),
+    permissionKeys: catalog.permissionKeys?.size ?? 0,
+    resourceTypeKeys: catalog.resourceTypeKeys?.size ?? 0,
+  };
+}
+
+export function formatEmitIamTypesResult(result: EmitIamTypesResult): string {
+  if (!result.ok) return `Hercules IAM type emit failed: ${result.message}`;
+  const permissionLabel = result.permissionKeys === 1 ? "permission" : "permissions";
+  const resourceTypeLabel = result.resourceTypeKeys === 1 ? "resource type" : "resource types";
+  return `Wrote ${result.outFile} (${result.permissionKeys} ${permissionLabel}, ${result.resourceTypeKeys} ${resourceTypeLabel}).`;
+}
+
+// A section the catalog does not declare stays `string`, matching the check,
+// which skips it; a declared but empty one is `never`.
+function renderIamTypes(catalog: IamCatalog): string {
+  return [
+    "// Generated by `hercules-convex-iam-check --emit-types` from .hercules/iam.jsonc.",
+    "// Do not edit: re-run the command after changing the catalog.",
+    "",
+    keyUnionAlias("PermissionKey", catalog.permissionKeys),
+    "",
+    keyUnionAlias("ResourceTypeKey", catalog.resourceTypeKeys),
+    "",
+    "export type IamKeys = { permission: PermissionKey; resourceType: ResourceTypeKey };",
+    "",
+  ].join("\n");
+}
+
+function keyUnionAlias(name: string, keys: Set<string> | null): string {
+  if (keys === null) return `export type ${name} = string;`;
+  if (keys.size === 0) return `export type ${name} = never;`;
+  const members = [...keys].map((key) => JSON.stringify(key));
+  if (members.length === 1) return `export type ${name} = ${members[0]};`;
+  return [`export type ${name} =`, ...members.map((member) => `  | ${member}`)].join("\n") + ";";
+}
+
 // --- catalog --------------------------------------------------------------
 
 type IamCatalog = {
@@ -210,6 +286,9 @@ function checkSourceFile(cwd: string, filePath: string, catalog: IamCatalog): Ia
         for (const literal of getPermissionLiterals(node, "permission")) {
           validatePermission(literal);
         }
+        for (const literal of getPermissionLiterals(node, "rowPermission")) {
+          validatePermission(literal);
+        }
       }
       // Resource ref / selector: any { type: "app.x", ... } object. These are
       // the `resource` option, nested `parent` refs, and the resource.write /
@@ -278,7 +357,7 @@ function isAccessReceiver(expression: ts.Expression): boolean {
 // PROTECTED builders instead. (Importing raw builders is otherwise fine - they
 // are how unauthenticated, unguarded functions are defined.)
 const RAW_BUILDER_IMPORTS: ReadonlySet<string> = new Set(["query", "mutation", "action"]);
-const GUARD_OPTIONS: readonly string[] = ["permission", "tenant", "resource"];
+const GUARD_OPTIONS: readonly string[] = ["permission", "tenant", "resource", "rowPermission"];
 
 function checkGuardedRawBuilders(cwd: string, sourceFile: ts.SourceFile): IamCheckFinding[] {
   // Local names bound to a raw builder imported from _generated/server
@@ -55,6 +55,12 @@ describe("classifyAccessError", () => {
     });
   });
 
+  test("classifies a stale mirror as temporary", () => {
+    expect(
+      classifyAccessError({ data: { code: "ACCESS_DENIED", reasonCode: "mirror_stale" } }),
+    ).toEqual({ kind: "temporary", reasonCode: "mirror_stale" });
+  });
+
   const problemDetails = {
     requestId: "req_123",
     resourceId: "tenant_123",
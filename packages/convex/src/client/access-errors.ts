@@ -71,7 +71,7 @@ export type AccessErrorClassification =
     }
   | {
       kind: "temporary";
-      reasonCode: "mirror_not_ready";
+      reasonCode: "mirror_not_ready" | "mirror_stale";
       sourceVersion?: number;
     }
   | {
@@ -138,7 +138,7 @@ export function classifyAccessError(error: unknown): AccessErrorClassification |
     };
   }
 
-  if (data.reasonCode === "mirror_not_ready") {
+  if (data.reasonCode === "mirror_not_ready" || data.reasonCode === "mirror_stale") {
     return {
       kind: "temporary",
       reasonCode: data.reasonCode,
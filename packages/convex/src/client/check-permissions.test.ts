@@ -2,10 +2,11 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 import { type Access, createAccess } from "./index.js";
 
 // checkPermissions treats the component query ref as an opaque value, so a
-// stub component and a captured runQuery are enough.
+// stub component and a captured runQuery are enough. The query builder hands
+// back its definition so checkPermissionsQuery's handler can be called directly.
 const checkManyRef = { ref: "checks.checkMany" };
 const access: Access<never> = createAccess({
-  query: vi.fn() as never,
+  query: vi.fn((definition: unknown) => definition) as never,
   mutation: vi.fn() as never,
   action: vi.fn() as never,
   component: { queries: {}, checks: { checkMany: checkManyRef } } as never,
@@ -104,3 +105,136 @@ describe("access.checkPermissions", () => {
     expect(result).toEqual(checks.map((_, i) => i % 3 === 0));
   });
 });
+
+describe("access.checkPermissionsQuery", () => {
+  type Handler = (
+    ctx: ReturnType<typeof makeCtx>,
+    args: { checks: { permission: string }[] },
+  ) => Promise<boolean[]>;
+  const { handler } = access.checkPermissionsQuery as unknown as { handler: Handler };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("answers for the calling identity", async () => {
+    const ctx = makeCtx({ tokenIdentifier: TOKEN });
+    ctx.runQuery.mockResolvedValue([{ allowed: true, reasonCode: "allowed" }]);
+    await expect(handler(ctx, { checks: [{ permission: "app.project:edit" }] })).resolves.toEqual([
+      true,
+    ]);
+    expect(ctx.runQuery).toHaveBeenCalledWith(checkManyRef, {
+      tokenIdentifier: TOKEN,
+      checks: [{ permission: "app.project:edit" }],
+    });
+  });
+
+  it("rejects more than 100 checks per subscription", async () => {
+    const ctx = makeCtx({ tokenIdentifier: TOKEN });
+    const checks = Array.from({ length: 101 }, (_, i) => ({ permission: `perm_${i}` }));
+    await expect(handler(ctx, { checks })).rejects.toThrow("at most 100 checks");
+    expect(ctx.runQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe("access.filterAuthorized / access.annotate", () => {
+  const projects = [
+    { id: "p1", name: "One" },
+    { id: "p2", name: "Two" },
+    { id: "p1", name: "One again" },
+  ];
+  const resource = (row: { id: string }) => ({ type: "app.project", externalId: row.id });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("keeps the authorized rows in order, checking each resource once", async () => {
+    const ctx = makeCtx({ tokenIdentifier: TOKEN });
+    ctx.runQuery.mockResolvedValue([
+      { allowed: true, reasonCode: "allowed" },
+      { allowed: false, reasonCode: "permission_denied" },
+    ]);
+
+    const rows = await access.filterAuthorized(ctx, projects, {
+      permission: "app.project:read",
+      resource,
+      tenant: "tenant_1",
+    });
+
+    expect(rows.map((row) => row.name)).toEqual(["One", "One again"]);
+    expect(ctx.runQuery).toHaveBeenCalledTimes(1);
+    expect(ctx.runQuery).toHaveBeenCalledWith(checkManyRef, {
+      tokenIdentifier: TOKEN,
+      checks: [
+        { tenantId: "tenant_1", permission: "app.project:read", resource: resource(projects[0]!) },
+        { tenantId: "tenant_1", permission: "app.project:read", resource: resource(projects[1]!) },
+      ],
+    });
+  });
+
+  it("attaches one flag per permission to each row", async () => {
+    const ctx = makeCtx({ tokenIdentifier: TOKEN });
+    ctx.runQuery.mockResolvedValue([
+      { allowed: true, reasonCode: "allowed" },
+      { allowed: false, reasonCode: "permission_denied" },
+      { allowed: false, reasonCode: "permission_denied" },
+      { allowed: false, reasonCode: "permission_denied" },
+    ]);
+
+    const rows = await access.annotate(ctx, projects, {
+      flags: { canEdit: "app.project:edit", canDelete: "app.project:delete" },
+      resource,
+    });
+
+    expect(rows).toEqual([
+      { id: "p1", name: "One", canEdit: true, canDelete: false },
+      { id: "p2", name: "Two", canEdit: false, canDelete: false },
+      { id: "p1", name: "One again", canEdit: true, canDelete: false },
+    ]);
+    expect(ctx.runQuery.mock.calls[0]?.[1].checks).toHaveLength(4);
+  });
+
+  it("filters every row out for unauthenticated callers", async () => {
+    const ctx = makeCtx({});
+    await expect(
+      access.filterAuthorized(ctx, projects, { permission: "app.project:read", resource }),
+    ).resolves.toEqual([]);
+    await expect(
+      access.annotate(ctx, projects.slice(0, 1), {
+        flags: { canEdit: "app.project:edit" },
+        resource,
+      }),
+    ).resolves.toEqual([{ id: "p1", name: "One", canEdit: false }]);
+    expect(ctx.runQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe("createAccess with a generated catalog", () => {
+  type IamKeys = {
+    permission: "app.project:edit" | "app.project:delete";
+    resourceType: "app.project";
+  };
+  const typed = createAccess<never, IamKeys>({
+    query: vi.fn((definition: unknown) => definition) as never,
+    mutation: vi.fn() as never,
+    action: vi.fn() as never,
+    component: { queries: {}, checks: { checkMany: checkManyRef } } as never,
+  });
+
+  it("accepts declared keys and rejects others at compile time", async () => {
+    const ctx = makeCtx({});
+    await expect(
+      typed.checkPermissions(ctx, [
+        { permission: "app.project:edit", resource: { type: "app.project", externalId: "p1" } },
+        // @ts-expect-error undeclared permission
+        { permission: "app.project:edt" },
+        // @ts-expect-error undeclared resource type
+        { permission: "app.project:edit", resource: { type: "app.projct", externalId: "p1" } },
+      ]),
+    ).resolves.toEqual([false, false, false]);
+    await expect(typed.hasPermissions(ctx, { anyOf: ["app.project:delete"] })).resolves.toBe(false);
+    // @ts-expect-error undeclared permission in a set
+    await expect(typed.hasPermissions(ctx, ["app.project:archive"])).resolves.toBe(false);
+  });
+});
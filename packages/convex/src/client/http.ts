@@ -1,5 +1,15 @@
-import type { FunctionReference, HttpActionBuilder, HttpRouter } from "convex/server";
-import { IAM_SYNC_PATH, type SyncResponse } from "../shared/sync.js";
+import {
+  createFunctionHandle,
+  type FunctionReference,
+  type HttpActionBuilder,
+  type HttpRouter,
+} from "convex/server";
+import {
+  IAM_SYNC_PATH,
+  SUPPORTED_PROJECTION_SCHEMA_VERSIONS,
+  type SyncResponse,
+} from "../shared/sync.js";
+import type { AccessSyncHooks } from "./index.js";
 
 // The component's public sync entry point is an ACTION: it receives the raw
 // request body plus the three standardwebhooks headers, verifies the signature
@@ -8,7 +18,13 @@ import { IAM_SYNC_PATH, type SyncResponse } from "../shared/sync.js";
 type ApplySyncReference = FunctionReference<
   "action",
   "public",
-  { payload: string; webhookId: string; webhookTimestamp: string; webhookSignature: string },
+  {
+    payload: string;
+    webhookId: string;
+    webhookTimestamp: string;
+    webhookSignature: string;
+    hooks?: { [Hook in keyof AccessSyncHooks]?: string };
+  },
   SyncResponse
 >;
 
@@ -22,6 +38,13 @@ export type RegisterAccessRoutesOptions = {
   component?: AccessSyncComponent;
   componentName?: string;
   path?: string;
+  // Gap recovery: an app action (typically calling access.requestResync)
+  // scheduled whenever a delivery is rejected as version_gap or
+  // reset_required, so the mirror asks for a snapshot instead of waiting.
+  resync?: FunctionReference<"action", "public" | "internal", Record<string, never>>;
+  // The createAccess result, to deliver its mirror change hooks
+  // (onMembershipChanged, onRoleAssignmentChanged, onTenantArchived).
+  access?: { syncHooks: AccessSyncHooks };
 };
 
 export function registerAccessRoutes(http: HttpRouter, options: RegisterAccessRoutesOptions) {
@@ -39,17 +62,25 @@ export function registerAccessRoutes(http: HttpRouter, options: RegisterAccessRo
       const rawBody = await request.text();
       let result: SyncResponse;
       try {
+        const hooks = options.access && (await syncHookHandles(options.access.syncHooks));
         result = await ctx.runAction(component.sync.applySync, {
           payload: rawBody,
           webhookId: request.headers.get("webhook-id") ?? "",
           webhookTimestamp: request.headers.get("webhook-timestamp") ?? "",
           webhookSignature: request.headers.get("webhook-signature") ?? "",
+          ...(hooks === undefined ? {} : { hooks }),
         });
       } catch {
         // Server misconfiguration (e.g. the signing secret is not bound to the
         // component) or an unexpected component error. Fail closed.
         return jsonResponse({ ok: false, status: "invalid_signature" }, 500);
       }
+      if (
+        options.resync &&
+        (result.status === "version_gap" || result.status === "reset_required")
+      ) {
+        await ctx.scheduler.runAfter(0, options.resync, {});
+      }
       return jsonResponse(result satisfies SyncResponse, syncResponseStatus(result));
     }),
   });
@@ -57,22 +88,41 @@ export function registerAccessRoutes(http: HttpRouter, options: RegisterAccessRo
 
 // Map mutation-level outcomes to HTTP statuses so generic webhook tooling
 // (queues, retries, monitoring) does not treat rejected syncs as delivered.
-// 200 -> applied / duplicate; 401 -> bad signature; 409 -> recoverable
-// projection-state conflicts; 400 -> payload-shape problems.
+// 200 -> applied / duplicate / staged / installing; 401 -> bad signature;
+// 410 -> replayed (authentic, but never to be applied; do not retry);
+// 409 -> recoverable projection-state conflicts; 400 -> payload-shape problems.
 function syncResponseStatus(result: SyncResponse): number {
   if (result.ok) return 200;
   if (result.status === "invalid_signature") return 401;
+  if (result.status === "replayed") return 410;
   if (
     result.status === "version_gap" ||
     result.status === "issuer_mismatch" ||
     result.status === "not_ready" ||
-    result.status === "reset_required"
+    result.status === "reset_required" ||
+    result.status === "unknown_snapshot" ||
+    result.status === "snapshot_incomplete"
   ) {
     return 409;
   }
   return 400;
 }
 
+// The component cannot import app functions, so each hook crosses the boundary
+// as a function handle.
+async function syncHookHandles(
+  hooks: AccessSyncHooks,
+): Promise<{ [Hook in keyof AccessSyncHooks]?: string }> {
+  const handles: { [Hook in keyof AccessSyncHooks]?: string } = {};
+  for (const [hook, reference] of Object.entries(hooks)) {
+    if (!reference) continue;
+    handles[hook as keyof AccessSyncHooks] = await createFunctionHandle(
+      reference as FunctionReference<"mutation" | "action", "public" | "internal">,
+    );
+  }
+  return handles;
+}
+
 function resolveSyncComponent(options: RegisterAccessRoutesOptions): AccessSyncComponent {
   if (options.component) {
     return options.component;
@@ -90,9 +140,14 @@ function resolveSyncComponent(options: RegisterAccessRoutesOptions): AccessSyncC
   return component as AccessSyncComponent;
 }
 
+// Every response advertises the protocol versions this consumer accepts
+// ("min-max"), so a producer can pick one before a delivery is rejected.
+const SCHEMA_VERSIONS_HEADER = "hercules-iam-schema-versions";
+
 function jsonResponse(body: unknown, status: number) {
+  const { min, max } = SUPPORTED_PROJECTION_SCHEMA_VERSIONS;
   return new Response(JSON.stringify(body), {
     status,
-    headers: { "content-type": "application/json" },
+    headers: { "content-type": "application/json", [SCHEMA_VERSIONS_HEADER]: `${min}-${max}` },
   });
 }
@@ -11,16 +11,20 @@ import type {
   GenericMutationCtx,
   GenericQueryCtx,
   MutationBuilder,
+  PaginationOptions,
+  PaginationResult,
   QueryBuilder,
   RegisteredAction,
   RegisteredMutation,
   RegisteredQuery,
   ReturnValueForOptionalValidator,
 } from "convex/server";
-import { ConvexError } from "convex/values";
-import type { PropertyValidators, Validator } from "convex/values";
+import { ConvexError, v } from "convex/values";
+import type { ObjectType, PropertyValidators, Validator } from "convex/values";
+import { requirementKeys, type PermissionRequirement } from "../shared/permission-requirement.js";
 export { classifyAccessError } from "./access-errors.js";
 export type { AccessAdmissionStatus, AccessErrorClassification } from "./access-errors.js";
+export type { PermissionRequirement } from "../shared/permission-requirement.js";
 
 // The pinned public-API version for control-plane calls (access.enter).
 const HERCULES_PUBLIC_API_VERSION = "2025-12-09";
@@ -29,12 +33,23 @@ const HERCULES_PUBLIC_API_VERSION = "2025-12-09";
 // checkPermissions chunks its input to stay under it.
 const CHECK_MANY_LIMIT = 100;
 
+// requestResync: in-action retries of a failing snapshot request. Backoff
+// between separate requests is the component's (claimResync).
+const RESYNC_MAX_ATTEMPTS = 4;
+const RESYNC_INITIAL_DELAY_MS = 1_000;
+
 // waitForSync polling: exponential backoff between syncStatus polls, and the
 // default overall budget before giving up with a temporary (retryable) error.
 const WAIT_FOR_SYNC_INITIAL_DELAY_MS = 100;
 const WAIT_FOR_SYNC_MAX_DELAY_MS = 1_600;
 const WAIT_FOR_SYNC_DEFAULT_TIMEOUT_MS = 15_000;
 
+const permissionCheckValidator = v.object({
+  permission: v.string(),
+  tenant: v.optional(v.string()),
+  resource: v.optional(v.object({ type: v.string(), externalId: v.string() })),
+});
+
 // ── shared model types (match the component return shapes) ────────────────────
 export type MembershipStatus = "active" | "blocked" | "suspended" | "pending_approval" | "removed";
 
@@ -67,7 +82,7 @@ export type GroupSummary = {
   status: "active" | "archived";
 };
 
-export type ResourceRef = { type: string; externalId: string };
+export type ResourceRef<Type extends string = string> = { type: Type; externalId: string };
 
 // ── members directory shapes (members.*) ──────────────────────────────────────
 export type MemberRoleSummary = RoleSummary & {
@@ -98,12 +113,71 @@ export type MemberDetail = MemberSummary & {
   resourceRoleAssignments: MemberResourceRoleAssignment[];
 };
 
+// A member who would pass the check for a permission (members.withPermission),
+// with the first path that grants it: a tenant-wide role held `direct`ly or via
+// a `group`, an `app_scope` role held via the primary tenant, or a resource
+// role on the resource or one of its ancestors (`ancestor`).
+export type PermissionHolder = {
+  membershipId: string;
+  // The target tenant, or the primary tenant when the holder reaches the
+  // target only through an app-scoped role.
+  tenantId: string;
+  status: MembershipStatus;
+  user: MemberUser;
+  heldVia: "direct" | "group" | "app_scope" | "ancestor";
+};
+
 export type ResourceNode = {
   type: string;
   externalId: string;
   parent?: ResourceRef;
 };
 
+// `resource.descendants` result. `truncated` when the read hit its node cap;
+// page deeper levels with `resource.children`.
+export type ResourceDescendants = { items: ResourceNode[]; truncated?: boolean };
+
+// One `resource.writeMany` item's outcome, aligned with the input by index.
+// The error statuses are what `resource.write` would have thrown for the item.
+export type ResourceWriteResult =
+  | { status: "ok"; node: ResourceNode }
+  | { status: "IAM_CONFIG" | "mirror_not_ready"; message: string };
+
+// What `resource.sweep` found wrong with a node, most severe first: its
+// tenant or its resource type was deleted, its parent edge names no node, or
+// its parent lives in another tenant.
+export type ResourceIssueKind =
+  | "missing_tenant"
+  | "unknown_type"
+  | "dangling_parent"
+  | "cross_tenant_parent";
+
+export type ResourceIssue = {
+  kind: ResourceIssueKind;
+  nodeId: string;
+  tenantId: string;
+  resourceTypeId: string;
+  externalId: string;
+  parentId?: string;
+  repaired: boolean;
+};
+
+// One batch of `resource.sweep`. `nextCursor` is present while rows remain.
+export type ResourceSweepReport = {
+  scanned: number;
+  issues: ResourceIssue[];
+  counts: Record<ResourceIssueKind, number>;
+  nextCursor?: string;
+};
+
+// `resource.delete` result. The cascade fields report the descendants removed
+// in the calling transaction and whether the rest of the subtree was scheduled.
+export type ResourceDeleteResult = {
+  deleted: boolean;
+  descendantsDeleted?: number;
+  continuing?: boolean;
+};
+
 // ── mirror-table record shapes ────────────────────────────────────────────────
 // The generic per-table reads return these clean projections: the Convex system
 // fields (_id, _creationTime) and the internal sourceVersion are dropped.
@@ -178,6 +252,34 @@ export type RolePermissionRecord = {
   updatedAt: number;
 };
 
+// Sync log: one entry per applied change. "snapshot" entries stand for a whole
+// mirror replacement (operation = its mode); "expire" entries are time-bound
+// assignments lapsing, and carry no eventId.
+export type SyncLogEntityType =
+  | "tenant"
+  | "role"
+  | "permission"
+  | "role_permission"
+  | "resource_type"
+  | "membership"
+  | "group"
+  | "group_membership"
+  | "user_role_assignment"
+  | "group_role_assignment"
+  | "user_resource_role_assignment"
+  | "group_resource_role_assignment"
+  | "user"
+  | "snapshot";
+
+export type SyncLogRecord = {
+  eventId?: string;
+  sourceVersion: number;
+  entityType: SyncLogEntityType;
+  operation: "upsert" | "delete" | "expire" | "initialize" | "reset";
+  entityId: string;
+  appliedAt: number;
+};
+
 export type ResourceTypeRecord = {
   id: string;
   key: string;
@@ -230,6 +332,10 @@ export type GroupResourceRoleAssignmentRecord = {
 // (present only when more pages exist; pass it back as `cursor`).
 export type ListPage<V> = { items: V[]; nextCursor?: string };
 
+// An access-scoped `resource.list` page. `scannedUntil` marks a page cut short
+// by the scan budget: fewer than `limit` items, but `nextCursor` continues.
+export type ResourceListPage = ListPage<ResourceNode> & { scannedUntil?: string };
+
 export type TenantAccessStatusResult =
   | { kind: "principal"; membershipId: string; status: MembershipStatus; stateVersion: number }
   | {
@@ -244,7 +350,10 @@ export type TenantAccessStatusResult =
       stateVersion?: number;
     };
 
-export type TargetTenantSyncStatus =
+// `needsResync`: the mirror rejected a delivery (version gap or required reset)
+// and stays stale until the control plane sends a snapshot; see
+// access.requestResync.
+export type TargetTenantSyncStatus = (
   | { state: "syncing"; currentSourceVersion?: number; targetSourceVersion: number }
   | {
       state: "ready";
@@ -266,7 +375,87 @@ export type TargetTenantSyncStatus =
       reasonCode: string;
       currentSourceVersion?: number;
       targetSourceVersion: number;
-    };
+    }
+) & { needsResync?: boolean };
+
+// Mirror change hooks (createAccess `onMembershipChanged` & co.): the argument
+// each receives. Records are shaped like the mirror-table reads; `before` is
+// null for a created row, `after` null for a deleted one.
+export type MembershipChange = {
+  eventId: string;
+  sourceVersion: number;
+  before: TenantMembershipRecord | null;
+  after: TenantMembershipRecord | null;
+};
+
+export type RoleAssignmentChange = { eventId: string; sourceVersion: number } & (
+  | {
+      entityType: "user_role_assignment";
+      before: UserRoleAssignmentRecord | null;
+      after: UserRoleAssignmentRecord | null;
+    }
+  | {
+      entityType: "group_role_assignment";
+      before: GroupRoleAssignmentRecord | null;
+      after: GroupRoleAssignmentRecord | null;
+    }
+  | {
+      entityType: "user_resource_role_assignment";
+      before: UserResourceRoleAssignmentRecord | null;
+      after: UserResourceRoleAssignmentRecord | null;
+    }
+  | {
+      entityType: "group_resource_role_assignment";
+      before: GroupResourceRoleAssignmentRecord | null;
+      after: GroupResourceRoleAssignmentRecord | null;
+    }
+);
+
+export type TenantArchivedChange = { eventId: string; sourceVersion: number; tenant: TenantRecord };
+
+type SyncHookReference<Args extends DefaultFunctionArgs> = FunctionReference<
+  "mutation" | "action",
+  "public" | "internal",
+  Args
+>;
+
+export type AccessSyncHooks = {
+  onMembershipChanged?: SyncHookReference<MembershipChange>;
+  onRoleAssignmentChanged?: SyncHookReference<RoleAssignmentChange>;
+  onTenantArchived?: SyncHookReference<TenantArchivedChange>;
+};
+
+// access.syncHealth report. `ready: false` until a snapshot has been applied
+// (or while a multi-part one installs). `ageMs` is measured at the read;
+// `rejections` counts rejected deliveries per SyncResponse status, most recent
+// first. `pendingExpiries` counts assignment expiries scheduled and not yet run.
+// `signingKeys` lists the signing secrets that verified recent deliveries, by
+// fingerprint (the first 16 hex digits of the secret's SHA-256), most recent
+// first.
+export type SyncRejectionCount = { status: string; count: number; lastRejectedAt: number };
+
+export type SigningKeyUsage = { fingerprint: string; lastVerifiedAt: number };
+
+export type SyncHealth = {
+  ready: boolean;
+  sourceVersion?: number;
+  lastEventId?: string;
+  lastSyncedAt?: number;
+  ageMs?: number;
+  needsResync?: boolean;
+  lastError?: { status: string; at: number };
+  rejections: SyncRejectionCount[];
+  pendingExpiries: number;
+  signingKeys: SigningKeyUsage[];
+};
+
+export type ResyncReason = "version_gap" | "reset_required";
+
+// access.requestResync outcome. `requested: false` when no resync is needed or
+// another request's backoff window is still open.
+export type ResyncResult =
+  | { requested: false }
+  | { requested: true; reason: ResyncReason; currentSourceVersion: number; attempts: number };
 
 // The deployment-entry outcome for the signed-in user (access.enter).
 export type EnterTenantResult = {
@@ -287,6 +476,93 @@ export type AccessDecision = {
   membershipId?: string;
 };
 
+export type ExplainedMembership = { id: string; tenantId: string; status: MembershipStatus };
+
+// A tenant-wide role assignment a check considered. `app_scope` marks an
+// app-scoped role held via the caller's primary-tenant membership.
+export type ExplainedRoleAssignment = {
+  assignmentId: string;
+  roleId: string;
+  roleKey?: string;
+  heldVia: "direct" | "group" | "app_scope";
+  groupId?: string;
+  expiresAt?: number;
+  grantsPermission: boolean;
+};
+
+// A resource-role assignment of the target membership. `chainDepth` is its
+// position in the resource chain (0 = the checked resource, 1 = its parent,
+// ...), absent when the assignment is on an unrelated resource. `resource.type`
+// is null when the resource type is no longer in the mirror.
+export type ExplainedResourceAssignment = {
+  assignmentId: string;
+  roleId: string;
+  roleKey?: string;
+  heldVia: "direct" | "group";
+  groupId?: string;
+  resource: { type: string | null; externalId: string };
+  expiresAt?: number;
+  chainDepth?: number;
+  grantsPermission: boolean;
+};
+
+// An assignment the check ignored because its `expiresAt` has passed.
+export type ExpiredAssignment = {
+  assignmentId: string;
+  roleId: string;
+  roleKey?: string;
+  heldVia: "direct" | "group" | "app_scope";
+  groupId?: string;
+  resource?: { type: string | null; externalId: string };
+  expiresAt: number;
+  grantsPermission: boolean;
+};
+
+// The derivation behind one access decision (access.explain). `decision` is
+// exactly what the check returns; the rest stops where the check stops, so an
+// identity, mirror, tenant, or permission gate leaves only the decision.
+export type AccessExplanation = {
+  decision: AccessDecision;
+  tenantId?: string;
+  membership?: ExplainedMembership;
+  // Only when the primary tenant differs from the target tenant.
+  primaryMembership?: ExplainedMembership;
+  roles: ExplainedRoleAssignment[];
+  // Resource-scoped checks with an active target membership. `chain` runs from
+  // the checked resource up through every honored ancestor; `stoppedAt` says
+  // why the walk ended early.
+  resource?: {
+    chain: Array<{ type: string | null; externalId: string; hasNode: boolean }>;
+    stoppedAt?:
+      | "unknown_resource_type"
+      | "dangling_parent"
+      | "cross_tenant_parent"
+      | "cycle"
+      | "max_depth";
+    assignments: ExplainedResourceAssignment[];
+  };
+  // The first assignment that granted the permission, in evaluation order.
+  grantedBy?:
+    | { scope: "tenant"; assignment: ExplainedRoleAssignment }
+    | { scope: "resource"; assignment: ExplainedResourceAssignment };
+  expired: ExpiredAssignment[];
+};
+
+// A hypothetical assignment for access.simulate: the membership's own (no
+// `groupId`) or one of its groups', tenant-wide or on `resource`.
+export type SimulatedAssignment = {
+  roleId: string;
+  groupId?: string;
+  resource?: ResourceRef;
+  expiresAt?: number;
+};
+
+export type SimulationCheck = { permission: string; resource?: ResourceRef };
+
+// One access.simulate result: the check's decision against the mirror as it is
+// (`before`) and with the hypothetical assignments applied (`after`).
+export type SimulatedCheck = SimulationCheck & { before: AccessDecision; after: AccessDecision };
+
 // ── component function-reference contract (what this client calls) ────────────
 type CheckArgs = {
   tokenIdentifier?: string;
@@ -316,13 +592,34 @@ type CompGet<Args extends DefaultFunctionArgs, V> = FunctionReference<
 
 export type AccessComponent = {
   checks: {
-    check: FunctionReference<"query", "public", CheckArgs, AccessDecision>;
+    check: FunctionReference<
+      "query",
+      "public",
+      CheckArgs & { maxMirrorAgeMs?: number },
+      AccessDecision
+    >;
     checkMany: FunctionReference<
       "query",
       "public",
-      { tokenIdentifier?: string; checks: Omit<CheckArgs, "tokenIdentifier">[] },
+      {
+        tokenIdentifier?: string;
+        checks: Omit<CheckArgs, "tokenIdentifier">[];
+        maxMirrorAgeMs?: number;
+      },
       AccessDecision[]
     >;
+    explain: FunctionReference<"query", "public", CheckArgs, AccessExplanation>;
+    simulate: FunctionReference<
+      "query",
+      "public",
+      {
+        membershipId: string;
+        addAssignments?: SimulatedAssignment[];
+        removeAssignments?: string[];
+        checks: SimulationCheck[];
+      },
+      SimulatedCheck[]
+    >;
   };
   queries: {
     // Caller-centric reads (me.*) and sync status.
@@ -350,12 +647,19 @@ export type AccessComponent = {
       { tokenIdentifier?: string; tenantId?: string },
       GroupSummary[]
     >;
+    listMyPermissions: FunctionReference<
+      "query",
+      "public",
+      { tokenIdentifier?: string; tenantId?: string; resource?: ResourceRef },
+      string[]
+    >;
     getTargetTenantSyncStatus: FunctionReference<
       "query",
       "public",
       { tokenIdentifier?: string; tenantId?: string; sourceVersion: number },
       TargetTenantSyncStatus
     >;
+    getSyncHealth: FunctionReference<"query", "public", {}, SyncHealth>;
 
     // Generic per-table reads (TRUSTED / UNGATED).
     tenantsList: CompList<
@@ -384,6 +688,10 @@ export type AccessComponent = {
     // Members directory (composed, TRUSTED like the table reads).
     membersList: CompList<{ tenantId?: string; status?: MembershipStatus }, MemberSummary>;
     membersGet: CompGet<{ tenantId?: string; membershipId: string }, MemberDetail>;
+    membersWithPermission: CompList<
+      { tenantId?: string; permission: string; resource?: ResourceRef },
+      PermissionHolder
+    >;
     userRoleAssignmentsList: CompList<
       { tenantId?: string; membershipId?: string; roleId?: string },
       UserRoleAssignmentRecord
@@ -423,6 +731,10 @@ export type AccessComponent = {
     groupMembershipsGet: CompGet<{ groupId: string; membershipId: string }, GroupMembershipRecord>;
     rolePermissionsList: CompList<{ roleId?: string; permissionId?: string }, RolePermissionRecord>;
     rolePermissionsGet: CompGet<{ roleId: string; permissionId: string }, RolePermissionRecord>;
+    syncLogList: CompList<
+      { entityType?: SyncLogEntityType; entityId?: string; since?: number },
+      SyncLogRecord
+    >;
   };
   resources: {
     list: FunctionReference<
@@ -436,7 +748,7 @@ export type AccessComponent = {
         permission?: string;
         limit?: number;
       }>,
-      ComponentItemsPage<ResourceNode>
+      ComponentItemsPage<ResourceNode> & { scannedUntil?: string }
     >;
     get: FunctionReference<
       "query",
@@ -450,17 +762,64 @@ export type AccessComponent = {
       },
       ResourceNode | null
     >;
+    ancestors: FunctionReference<
+      "query",
+      "public",
+      { tenantId?: string; type: string; externalId: string },
+      ResourceNode[]
+    >;
+    descendants: FunctionReference<
+      "query",
+      "public",
+      {
+        tenantId?: string;
+        type: string;
+        externalId: string;
+        depth?: number;
+        descendantType?: string;
+      },
+      ResourceDescendants
+    >;
     write: FunctionReference<
       "mutation",
       "public",
       { tenantId?: string; type: string; externalId: string; parent?: ResourceRef },
       ResourceNode
     >;
+    writeMany: FunctionReference<
+      "mutation",
+      "public",
+      {
+        tenantId?: string;
+        nodes: { type: string; externalId: string; parent?: ResourceRef }[];
+      },
+      ResourceWriteResult[]
+    >;
+    move: FunctionReference<
+      "mutation",
+      "public",
+      { tenantId?: string; type: string; externalId: string; newParent: ResourceRef | null },
+      ResourceNode | null
+    >;
     remove: FunctionReference<
       "mutation",
       "public",
-      { tenantId?: string; type: string; externalId: string },
-      { deleted: boolean }
+      { tenantId?: string; type: string; externalId: string; cascade?: boolean },
+      ResourceDeleteResult
+    >;
+    sweep: FunctionReference<
+      "mutation",
+      "public",
+      { repair?: boolean; cursor?: string; limit?: number },
+      Omit<ResourceSweepReport, "nextCursor"> & { cursor?: string }
+    >;
+  };
+  sync: {
+    claimResync: FunctionReference<
+      "mutation",
+      "public",
+      Record<string, never>,
+      { reason: ResyncReason; currentVersion: number; attempts: number } | null
     >;
   };
 };
@@ -472,7 +831,11 @@ export type CreateAccessOptions<DataModel extends GenericDataModel> = {
   components?: Record<string, unknown>;
   component?: AccessComponent;
   componentName?: string;
-};
+  // Protected builders deny with `mirror_stale` when the last applied delivery
+  // is older than this. The mirror only advances on deliveries, so set it above
+  // the control plane's quietest interval. Off by default.
+  maxMirrorAgeMs?: number;
+} & AccessSyncHooks;
 
 // ── contexts ──────────────────────────────────────────────────────────────────
 export type AccessReadContext<DataModel extends GenericDataModel = GenericDataModel> =
@@ -490,28 +853,34 @@ type AnyCtx =
   | GenericActionCtx<GenericDataModel>;
 
 // ── permission-guard selectors ────────────────────────────────────────────────
+// The permission and resource-type keys the guards and checks accept. By
+// default any string; `hercules-convex-iam-check --emit-types` generates the
+// app's own from .hercules/iam.jsonc (IamKeys), which createAccess<DataModel,
+// IamKeys>() uses to reject undeclared keys at compile time.
+export type AccessCatalog = { permission: string; resourceType: string };
+
 export type TenantSelector<Ctx, Args> =
   | string
   | ((ctx: Ctx, args: Args) => string | Promise<string>);
 
-export type ResourceSelector<Ctx, Args> =
-  | ResourceRef
-  | ((ctx: Ctx, args: Args) => ResourceRef | Promise<ResourceRef>);
+export type ResourceSelector<Ctx, Args, Type extends string = string> =
+  | ResourceRef<Type>
+  | ((ctx: Ctx, args: Args) => ResourceRef<Type> | Promise<ResourceRef<Type>>);
 
-export type PermissionOptions = { tenant?: string; resource?: ResourceRef };
+export type PermissionOptions<Catalog extends AccessCatalog = AccessCatalog> = {
+  tenant?: string;
+  resource?: ResourceRef<Catalog["resourceType"]>;
+};
 
-// A permission requirement is either a single permission key, a bare array
-// (treated as `allOf`), or a set combined with explicit AND/OR semantics:
-//   • `"app.x:read"`            - hold this one permission.
-//   • `["a", "b"]`              - hold EVERY ONE (AND), shorthand for allOf.
-//   • `{ anyOf: ["a", "b"] }`   - hold AT LEAST ONE (OR).
-//   • `{ allOf: ["a", "b"] }`   - hold EVERY ONE (AND).
-// An empty array / `anyOf` / `allOf` is rejected as a misconfiguration (denied).
-export type PermissionRequirement =
-  | string
-  | string[]
-  | { anyOf: string[]; allOf?: never }
-  | { allOf: string[]; anyOf?: never };
+// One probe of a batched check (checkPermissions / checkPermissionsQuery).
+export type PermissionCheck<Catalog extends AccessCatalog = AccessCatalog> = {
+  permission: Catalog["permission"];
+  tenant?: string;
+  resource?: ResourceRef<Catalog["resourceType"]>;
+};
+
+// A row from access.annotate: the row plus one boolean per capability flag.
+export type Annotated<Row, Flags> = Row & { [Flag in keyof Flags]: boolean };
 
 // ── auth-aware builders ────────────────────────────────────────────────────────
 type GuardConfig<Ctx, Args> = {
@@ -520,7 +889,10 @@ type GuardConfig<Ctx, Args> = {
   resource?: ResourceSelector<Ctx, Args>;
 };
 
-export type AuthQueryBuilder<DataModel extends GenericDataModel> = <
+export type AuthQueryBuilder<
+  DataModel extends GenericDataModel,
+  Catalog extends AccessCatalog = AccessCatalog,
+> = <
   ArgsValidator extends PropertyValidators | Validator<unknown, "required", string> | void,
   ReturnsValidator extends PropertyValidators | Validator<unknown, "required", string> | void,
   ReturnValue extends ReturnValueForOptionalValidator<ReturnsValidator> = any,
@@ -529,13 +901,20 @@ export type AuthQueryBuilder<DataModel extends GenericDataModel> = <
 >(query: {
   args?: ArgsValidator;
   returns?: ReturnsValidator;
-  permission?: PermissionRequirement;
+  permission?: PermissionRequirement<Catalog["permission"]>;
   tenant?: TenantSelector<GenericQueryCtx<DataModel>, OneOrZeroArgs[0]>;
-  resource?: ResourceSelector<GenericQueryCtx<DataModel>, OneOrZeroArgs[0]>;
+  resource?: ResourceSelector<
+    GenericQueryCtx<DataModel>,
+    OneOrZeroArgs[0],
+    Catalog["resourceType"]
+  >;
   handler: (ctx: GenericQueryCtx<DataModel>, ...args: OneOrZeroArgs) => ReturnValue;
 }) => RegisteredQuery<"public", ArgsArrayToObject<OneOrZeroArgs>, ReturnValue>;
 
-export type AuthMutationBuilder<DataModel extends GenericDataModel> = <
+export type AuthMutationBuilder<
+  DataModel extends GenericDataModel,
+  Catalog extends AccessCatalog = AccessCatalog,
+> = <
   ArgsValidator extends PropertyValidators | Validator<unknown, "required", string> | void,
   ReturnsValidator extends PropertyValidators | Validator<unknown, "required", string> | void,
   ReturnValue extends ReturnValueForOptionalValidator<ReturnsValidator> = any,
@@ -544,13 +923,20 @@ export type AuthMutationBuilder<DataModel extends GenericDataModel> = <
 >(mutation: {
   args?: ArgsValidator;
   returns?: ReturnsValidator;
-  permission?: PermissionRequirement;
+  permission?: PermissionRequirement<Catalog["permission"]>;
   tenant?: TenantSelector<GenericMutationCtx<DataModel>, OneOrZeroArgs[0]>;
-  resource?: ResourceSelector<GenericMutationCtx<DataModel>, OneOrZeroArgs[0]>;
+  resource?: ResourceSelector<
+    GenericMutationCtx<DataModel>,
+    OneOrZeroArgs[0],
+    Catalog["resourceType"]
+  >;
   handler: (ctx: GenericMutationCtx<DataModel>, ...args: OneOrZeroArgs) => ReturnValue;
 }) => RegisteredMutation<"public", ArgsArrayToObject<OneOrZeroArgs>, ReturnValue>;
 
-export type AuthActionBuilder<DataModel extends GenericDataModel> = <
+export type AuthActionBuilder<
+  DataModel extends GenericDataModel,
+  Catalog extends AccessCatalog = AccessCatalog,
+> = <
   ArgsValidator extends PropertyValidators | Validator<unknown, "required", string> | void,
   ReturnsValidator extends PropertyValidators | Validator<unknown, "required", string> | void,
   ReturnValue extends ReturnValueForOptionalValidator<ReturnsValidator> = any,
@@ -559,12 +945,46 @@ export type AuthActionBuilder<DataModel extends GenericDataModel> = <
 >(action: {
   args?: ArgsValidator;
   returns?: ReturnsValidator;
-  permission?: PermissionRequirement;
+  permission?: PermissionRequirement<Catalog["permission"]>;
   tenant?: TenantSelector<GenericActionCtx<DataModel>, OneOrZeroArgs[0]>;
-  resource?: ResourceSelector<GenericActionCtx<DataModel>, OneOrZeroArgs[0]>;
+  resource?: ResourceSelector<
+    GenericActionCtx<DataModel>,
+    OneOrZeroArgs[0],
+    Catalog["resourceType"]
+  >;
   handler: (ctx: GenericActionCtx<DataModel>, ...args: OneOrZeroArgs) => ReturnValue;
 }) => RegisteredAction<"public", ArgsArrayToObject<OneOrZeroArgs>, ReturnValue>;
 
+// A paginated query whose pages only carry rows the caller holds
+// `rowPermission` on. `args` must include `paginationOpts:
+// paginationOptsValidator`; the handler paginates as usual, once per request,
+// and a page thinned by row checks comes back short. Declare `rowResource`
+// after `handler` so its row type is inferred from the handler's pages.
+export type AuthPaginatedQueryBuilder<
+  DataModel extends GenericDataModel,
+  Catalog extends AccessCatalog = AccessCatalog,
+> = <
+  ArgsValidator extends PropertyValidators & {
+    paginationOpts: Validator<PaginationOptions, "required", string>;
+  },
+  Doc,
+>(query: {
+  args: ArgsValidator;
+  permission?: PermissionRequirement<Catalog["permission"]>;
+  tenant?: TenantSelector<GenericQueryCtx<DataModel>, ObjectType<ArgsValidator>>;
+  resource?: ResourceSelector<
+    GenericQueryCtx<DataModel>,
+    ObjectType<ArgsValidator>,
+    Catalog["resourceType"]
+  >;
+  rowPermission: Catalog["permission"];
+  rowResource: (doc: NoInfer<Doc>) => ResourceRef<Catalog["resourceType"]>;
+  handler: (
+    ctx: GenericQueryCtx<DataModel>,
+    args: ObjectType<ArgsValidator>,
+  ) => Promise<PaginationResult<Doc>>;
+}) => RegisteredQuery<"public", ObjectType<ArgsValidator>, Promise<PaginationResult<Doc>>>;
+
 // The uniform list/get pair a mirror-table namespace exposes.
 type TableReads<DataModel extends GenericDataModel, Filters, Key, Rec> = {
   list: (
@@ -575,25 +995,32 @@ type TableReads<DataModel extends GenericDataModel, Filters, Key, Rec> = {
 };
 
 // ── the createAccess surface ──────────────────────────────────────────────────────
-export type Access<DataModel extends GenericDataModel> = {
+export type Access<
+  DataModel extends GenericDataModel,
+  Catalog extends AccessCatalog = AccessCatalog,
+> = {
   // Auth-aware builders. Require a verified identity; add { permission, tenant?,
   // resource? } to also enforce a permission before the handler runs. For
   // non-protected functions, import the raw query/mutation/action from
   // _generated/server directly.
-  protectedQuery: AuthQueryBuilder<DataModel>;
-  protectedMutation: AuthMutationBuilder<DataModel>;
-  protectedAction: AuthActionBuilder<DataModel>;
+  protectedQuery: AuthQueryBuilder<DataModel, Catalog>;
+  protectedMutation: AuthMutationBuilder<DataModel, Catalog>;
+  protectedAction: AuthActionBuilder<DataModel, Catalog>;
+  // protectedQuery for paginated reads: the function-level guard, then the
+  // handler's page filtered by one batched check (scoped to `tenant` when
+  // given), short when rows were dropped.
+  protectedPaginatedQuery: AuthPaginatedQueryBuilder<DataModel, Catalog>;
   // In-handler authorization. `requirement` accepts a single key, a bare array
   // (allOf / AND), or an { anyOf } / { allOf } set (see PermissionRequirement).
   hasPermissions: (
     ctx: AccessReadContext<DataModel>,
-    requirement: PermissionRequirement,
-    options?: PermissionOptions,
+    requirement: PermissionRequirement<Catalog["permission"]>,
+    options?: PermissionOptions<Catalog>,
   ) => Promise<boolean>;
   requirePermissions: (
     ctx: AccessReadContext<DataModel>,
-    requirement: PermissionRequirement,
-    options?: PermissionOptions,
+    requirement: PermissionRequirement<Catalog["permission"]>,
+    options?: PermissionOptions<Catalog>,
   ) => Promise<void>;
   // Batched permission checks: many (permission, tenant?, resource?) probes in
   // one component round trip (chunked internally past the component's
@@ -603,8 +1030,65 @@ export type Access<DataModel extends GenericDataModel> = {
   // baseline pass. Unauthenticated callers get all-false.
   checkPermissions: (
     ctx: AccessReadContext<DataModel>,
-    checks: ReadonlyArray<{ permission: string; tenant?: string; resource?: ResourceRef }>,
+    checks: ReadonlyArray<PermissionCheck<Catalog>>,
   ) => Promise<boolean[]>;
+  // Row-level helpers over checkPermissions: one batch for all rows (rows
+  // that share a resource share its checks), order preserved.
+  // filterAuthorized keeps the rows whose `resource(row)` the caller holds
+  // `permission` on; annotate adds a boolean per `flags` entry
+  // (`{ canEdit: "app.project:edit" }` → `row.canEdit`).
+  filterAuthorized: <Row>(
+    ctx: AccessReadContext<DataModel>,
+    rows: ReadonlyArray<Row>,
+    options: {
+      permission: Catalog["permission"];
+      resource: (row: Row) => ResourceRef<Catalog["resourceType"]>;
+      tenant?: string;
+    },
+  ) => Promise<Row[]>;
+  annotate: <Row extends object, Flags extends Record<string, Catalog["permission"]>>(
+    ctx: AccessReadContext<DataModel>,
+    rows: ReadonlyArray<Row>,
+    options: {
+      flags: Flags;
+      resource: (row: Row) => ResourceRef<Catalog["resourceType"]>;
+      tenant?: string;
+    },
+  ) => Promise<Array<Annotated<Row, Flags>>>;
+  // checkPermissions as a public, identity-bound query for the React hooks
+  // (@usehercules/convex/react). Re-export it from the app, e.g.
+  // `export const checkPermissions = access.checkPermissionsQuery;` in
+  // convex/iam.ts, and hand `api.iam.checkPermissions` to
+  // <HerculesAccessProvider>. Subscriptions re-run as the mirror syncs. At
+  // most 100 checks per call.
+  checkPermissionsQuery: RegisteredQuery<
+    "public",
+    { checks: PermissionCheck[] },
+    Promise<boolean[]>
+  >;
+  // Why the signed-in caller does or does not hold `permission`: the decision
+  // plus the memberships used, every role considered (direct, via group, or
+  // app-scoped via the primary tenant), the resource ancestor that carried a
+  // grant, and assignments skipped as expired. Debugging/support aid; enforce
+  // with the checks above.
+  explain: (
+    ctx: AccessReadContext<DataModel>,
+    permission: Catalog["permission"],
+    options?: PermissionOptions<Catalog>,
+  ) => Promise<AccessExplanation>;
+  // What-if preview for admin UIs: each check as the membership's user, before
+  // and after adding `addAssignments` and removing `removeAssignments`
+  // (assignment ids). Nothing is written. TRUSTED (no identity check):
+  // authorize the calling function. At most 100 checks.
+  simulate: (
+    ctx: AccessReadContext<DataModel>,
+    args: {
+      membershipId: string;
+      addAssignments?: SimulatedAssignment[];
+      removeAssignments?: string[];
+      checks: SimulationCheck[];
+    },
+  ) => Promise<SimulatedCheck[]>;
   // Caller-centric reads.
   me: {
     // The signed-in end user's ID (their verified OIDC subject). Link app rows
@@ -622,6 +1106,14 @@ export type Access<DataModel extends GenericDataModel> = {
       ctx: AccessReadContext<DataModel>,
       args?: { tenant?: string },
     ) => Promise<GroupSummary[]>;
+    // The permission keys the caller effectively holds (tenant-wide,
+    // app-scoped via the primary tenant, and on `resource` through its
+    // ancestors), de-duplicated and sorted. Same rules as the checks, so it is
+    // safe for hiding UI; still enforce server-side with the checks.
+    permissions: (
+      ctx: AccessReadContext<DataModel>,
+      args?: { tenant?: string; resource?: ResourceRef },
+    ) => Promise<string[]>;
     accessStatus: (
       ctx: AccessReadContext<DataModel>,
       args?: { tenant?: string },
@@ -642,6 +1134,19 @@ export type Access<DataModel extends GenericDataModel> = {
       ctx: AccessReadContext<DataModel>,
       args: { tenant?: string; membershipId: string },
     ) => Promise<MemberDetail | null>;
+    // Reverse lookup: who can do `permission` (on `resource` when given).
+    // Paginated like `list`; a page may come back short, so follow
+    // `nextCursor` until it is absent.
+    withPermission: (
+      ctx: AccessReadContext<DataModel>,
+      args: {
+        permission: string;
+        tenant?: string;
+        resource?: ResourceRef;
+        cursor?: string;
+        limit?: number;
+      },
+    ) => Promise<ListPage<PermissionHolder>>;
   };
   // Generic, uniform mirror reads. These are TRUSTED reads with no identity
   // check: authorize the calling function (protectedQuery + requirePermissions).
@@ -730,6 +1235,22 @@ export type Access<DataModel extends GenericDataModel> = {
     { roleId: string; permissionId: string },
     RolePermissionRecord
   >;
+  // Applied-change history for admin timelines and forensics, newest first.
+  // Composite ids join their pair with "/" (role_permission: roleId/permissionId,
+  // group_membership: groupId/membershipId). `since` is an epoch-ms lower bound
+  // on appliedAt. Retention is set on the component (see README).
+  syncLog: {
+    list: (
+      ctx: AccessReadContext<DataModel>,
+      filters?: {
+        entityType?: SyncLogEntityType;
+        entityId?: string;
+        since?: number;
+        cursor?: string;
+        limit?: number;
+      },
+    ) => Promise<ListPage<SyncLogRecord>>;
+  };
   // Component-owned resource nodes (the app owns lifecycle).
   resource: {
     list: (
@@ -742,11 +1263,31 @@ export type Access<DataModel extends GenericDataModel> = {
         cursor?: string;
         limit?: number;
       },
-    ) => Promise<ListPage<ResourceNode>>;
+    ) => Promise<ResourceListPage>;
     get: (
       ctx: AccessReadContext<DataModel>,
       args: { tenant?: string; type: string; externalId: string; permission?: string },
     ) => Promise<ResourceNode | null>;
+    // Graph traversal for breadcrumbs and tree views. `ancestors` runs root
+    // first down to the direct parent, following exactly the chain a
+    // resource-scoped check inherits through. `children` pages the direct
+    // children; `descendants` reads the subtree level by level, `type`
+    // filtering the returned nodes (not the traversal).
+    ancestors: (
+      ctx: AccessReadContext<DataModel>,
+      ref: ResourceRef,
+      options?: { tenant?: string },
+    ) => Promise<ResourceNode[]>;
+    children: (
+      ctx: AccessReadContext<DataModel>,
+      ref: ResourceRef,
+      options?: { tenant?: string; cursor?: string; limit?: number },
+    ) => Promise<ListPage<ResourceNode>>;
+    descendants: (
+      ctx: AccessReadContext<DataModel>,
+      ref: ResourceRef,
+      options?: { tenant?: string; depth?: number; type?: string },
+    ) => Promise<ResourceDescendants>;
     // Throws instead of silently no-op'ing: ACCESS_DENIED/mirror_not_ready
     // (temporary) when the mirror has no tenant yet, IAM_CONFIG when the type
     // is undeclared or the parent does not match the type's declared parent.
@@ -759,10 +1300,35 @@ export type Access<DataModel extends GenericDataModel> = {
         parent?: ResourceRef;
       },
     ) => Promise<ResourceNode>;
+    // Batched `write` for imports and backfills (at most 500 nodes). Parents in
+    // the batch are written before their children; a bad item gets an
+    // IAM_CONFIG / mirror_not_ready result instead of failing the mutation.
+    writeMany: (
+      ctx: AccessWriteContext<DataModel>,
+      nodes: Array<{ type: string; externalId: string; parent?: ResourceRef }>,
+      options?: { tenant?: string },
+    ) => Promise<ResourceWriteResult[]>;
+    // Re-parents an existing node; `newParent: null` makes it a root. Throws
+    // IAM_CONFIG when the new parent's type is not the declared parent type,
+    // INVALID_MOVE when the new parent is missing or inside the node's own
+    // subtree. `null` when the node does not exist.
+    move: (
+      ctx: AccessWriteContext<DataModel>,
+      args: { tenant?: string; type: string; externalId: string; newParent: ResourceRef | null },
+    ) => Promise<ResourceNode | null>;
+    // `cascade: true` removes the whole subtree, batching past transaction
+    // limits through scheduled continuations.
     delete: (
       ctx: AccessWriteContext<DataModel>,
-      args: { tenant?: string; type: string; externalId: string },
-    ) => Promise<{ deleted: boolean }>;
+      args: { tenant?: string; type: string; externalId: string; cascade?: boolean },
+    ) => Promise<ResourceDeleteResult>;
+    // Integrity check of the node graph, one batch (up to 500 nodes) per call;
+    // see the README for a cron that sweeps the whole table. `repair` deletes
+    // nodes whose tenant or type is gone and clears broken parent edges.
+    sweep: (
+      ctx: AccessWriteContext<DataModel>,
+      args?: { repair?: boolean; cursor?: string; limit?: number },
+    ) => Promise<ResourceSweepReport>;
   };
   // Deployment entry: asks the control plane to admit the signed-in user into
   // the tenant (default `primary`) per its access mode: `open` admits with the
@@ -775,6 +1341,9 @@ export type Access<DataModel extends GenericDataModel> = {
     ctx: Pick<GenericActionCtx<DataModel>, "auth" | "runQuery">,
     args?: { tenant?: string },
   ) => Promise<EnterTenantResult>;
+  // Operator view of the mirror: version, age, rejected deliveries by status,
+  // and pending assignment expiries. TRUSTED: no identity check.
+  syncHealth: (ctx: AccessReadContext<DataModel>) => Promise<SyncHealth>;
   // Whether the mirror has caught up to a specific control-plane write.
   syncStatus: (
     ctx: AccessReadContext<DataModel>,
@@ -791,15 +1360,30 @@ export type Access<DataModel extends GenericDataModel> = {
     ctx: Pick<GenericActionCtx<DataModel>, "auth" | "runQuery">,
     args: { sourceVersion: number; tenant?: string; timeoutMs?: number },
   ) => Promise<Exclude<TargetTenantSyncStatus, { state: "syncing" }>>;
+  // Gap recovery: asks the control plane for a fresh snapshot after the mirror
+  // rejected a delivery as version_gap / reset_required (syncStatus reports
+  // `needsResync`). The component grants one request per backoff window, so
+  // it is safe to call on every trigger; pass it as registerAccessRoutes'
+  // `resync` to self-heal dropped events. Must run inside an ACTION (it
+  // performs an outbound HTTP call); a failing call is retried with backoff,
+  // then rethrown.
+  requestResync: (ctx: Pick<GenericActionCtx<DataModel>, "runMutation">) => Promise<ResyncResult>;
+  // The createAccess change hooks, for registerAccessRoutes({ access }) to hand
+  // to the component with each delivery. Each is scheduled after the sync
+  // transaction that changed the entity commits.
+  syncHooks: AccessSyncHooks;
 };
 
 /**
  * Wires Hercules managed access control into a Convex app. Call once in
  * `convex/access.ts`, then re-export the returned helpers and builders.
+ * Pass the generated `IamKeys` as `Catalog` to type-check permission and
+ * resource-type keys.
  */
-export function createAccess<DataModel extends GenericDataModel>(
-  options: CreateAccessOptions<DataModel>,
-): Access<DataModel> {
+export function createAccess<
+  DataModel extends GenericDataModel,
+  Catalog extends AccessCatalog = AccessCatalog,
+>(options: CreateAccessOptions<DataModel>): Access<DataModel, Catalog> {
   const component = resolveComponent(options);
   const q = component.queries;
 
@@ -821,37 +1405,73 @@ export function createAccess<DataModel extends GenericDataModel>(
       ctx.runQuery(ref, key);
 
   return {
-    protectedQuery: makeAuthBuilder(options.query, component) as AuthQueryBuilder<DataModel>,
+    protectedQuery: makeAuthBuilder(
+      options.query,
+      component,
+      options.maxMirrorAgeMs,
+    ) as AuthQueryBuilder<DataModel, Catalog>,
     protectedMutation: makeAuthBuilder(
       options.mutation,
       component,
-    ) as AuthMutationBuilder<DataModel>,
-    protectedAction: makeAuthBuilder(options.action, component) as AuthActionBuilder<DataModel>,
+      options.maxMirrorAgeMs,
+    ) as AuthMutationBuilder<DataModel, Catalog>,
+    protectedAction: makeAuthBuilder(
+      options.action,
+      component,
+      options.maxMirrorAgeMs,
+    ) as AuthActionBuilder<DataModel, Catalog>,
+    protectedPaginatedQuery: makePaginatedBuilder(
+      options.query,
+      component,
+      options.maxMirrorAgeMs,
+    ) as AuthPaginatedQueryBuilder<DataModel, Catalog>,
     hasPermissions: (ctx, requirement, opts) => hasPermissions(component, ctx, requirement, opts),
     requirePermissions: (ctx, requirement, opts) =>
       requirePermissions(component, ctx, requirement, opts),
-    checkPermissions: async (ctx, checks) => {
-      if (checks.length === 0) return [];
-      const tokenIdentifier = await getTokenIdentifier(ctx);
-      if (!tokenIdentifier) return checks.map(() => false);
-      const inputs = checks.map(
-        (check): Omit<CheckArgs, "tokenIdentifier"> => ({
-          ...optional("tenantId", check.tenant),
-          permission: check.permission,
-          ...optional("resource", check.resource),
-        }),
-      );
-      const chunks: (typeof inputs)[] = [];
-      for (let i = 0; i < inputs.length; i += CHECK_MANY_LIMIT) {
-        chunks.push(inputs.slice(i, i + CHECK_MANY_LIMIT));
-      }
-      const decisions = await Promise.all(
-        chunks.map((chunk) =>
-          ctx.runQuery(component.checks.checkMany, { tokenIdentifier, checks: chunk }),
-        ),
+    checkPermissions: (ctx, checks) => checkPermissions(component, ctx, checks),
+    filterAuthorized: async (ctx, rows, opts) => {
+      const answers = await checkRows(component, ctx, rows, [opts.permission], opts);
+      return rows.filter((_, i) => answers[i]?.[0] === true);
+    },
+    annotate: async (ctx, rows, opts) => {
+      const flags = Object.entries(opts.flags);
+      const answers = await checkRows(
+        component,
+        ctx,
+        rows,
+        flags.map(([, permission]) => permission),
+        opts,
       );
-      return decisions.flat().map((decision) => decision.allowed);
+      return rows.map((row, i) => ({
+        ...row,
+        ...Object.fromEntries(flags.map(([flag], j) => [flag, answers[i]?.[j] === true])),
+      })) as Array<Annotated<(typeof rows)[number], typeof opts.flags>>;
+    },
+    checkPermissionsQuery: options.query({
+      args: { checks: v.array(permissionCheckValidator) },
+      handler: async (ctx, args) => {
+        if (args.checks.length > CHECK_MANY_LIMIT) {
+          throw new Error(`checkPermissionsQuery accepts at most ${CHECK_MANY_LIMIT} checks`);
+        }
+        return checkPermissions(component, ctx, args.checks);
+      },
+    }),
+    explain: async (ctx, permission, opts = {}) => {
+      const tokenIdentifier = await getTokenIdentifier(ctx);
+      return ctx.runQuery(component.checks.explain, {
+        ...optional("tokenIdentifier", tokenIdentifier),
+        ...optional("tenantId", opts.tenant),
+        permission,
+        ...optional("resource", opts.resource),
+      });
     },
+    simulate: (ctx, args) =>
+      ctx.runQuery(component.checks.simulate, {
+        membershipId: args.membershipId,
+        ...optional("addAssignments", args.addAssignments),
+        ...optional("removeAssignments", args.removeAssignments),
+        checks: args.checks,
+      }),
     me: {
       id: (ctx) => getCurrentUserId(ctx),
       tenants: async (ctx, args = {}) => {
@@ -881,6 +1501,15 @@ export function createAccess<DataModel extends GenericDataModel>(
           ...optional("tenantId", args.tenant),
         });
       },
+      permissions: async (ctx, args = {}) => {
+        const tokenIdentifier = await getTokenIdentifier(ctx);
+        if (!tokenIdentifier) return [];
+        return ctx.runQuery(q.listMyPermissions, {
+          tokenIdentifier,
+          ...optional("tenantId", args.tenant),
+          ...optional("resource", args.resource),
+        });
+      },
       accessStatus: async (ctx, args = {}) => {
         const tokenIdentifier = await getTokenIdentifier(ctx);
         if (!tokenIdentifier) return { kind: "fallback", reason: "identity_missing" };
@@ -905,6 +1534,16 @@ export function createAccess<DataModel extends GenericDataModel>(
           ...optional("tenantId", args.tenant),
           membershipId: args.membershipId,
         }),
+      withPermission: async (ctx, args) =>
+        withItemsCursor(
+          await ctx.runQuery(q.membersWithPermission, {
+            ...optional("tenantId", args.tenant),
+            permission: args.permission,
+            ...optional("resource", args.resource),
+            ...optional("cursor", args.cursor),
+            ...optional("limit", args.limit),
+          }),
+        ),
     },
     tenants: { list: list(q.tenantsList), get: get(q.tenantsGet) },
     users: { list: list(q.usersList), get: get(q.usersGet) },
@@ -931,6 +1570,7 @@ export function createAccess<DataModel extends GenericDataModel>(
     },
     groupMemberships: { list: list(q.groupMembershipsList), get: get(q.groupMembershipsGet) },
     rolePermissions: { list: list(q.rolePermissionsList), get: get(q.rolePermissionsGet) },
+    syncLog: { list: list(q.syncLogList) },
     resource: {
       list: async (ctx, args = {}) => {
         const tokenIdentifier = await getTokenIdentifier(ctx);
@@ -943,7 +1583,10 @@ export function createAccess<DataModel extends GenericDataModel>(
           ...optional("cursor", args.cursor),
           ...optional("limit", args.limit),
         });
-        return withItemsCursor(result);
+        return {
+          ...withItemsCursor(result),
+          ...optional("scannedUntil", result.scannedUntil),
+        };
       },
       get: async (ctx, args) => {
         const tokenIdentifier = await getTokenIdentifier(ctx);
@@ -955,6 +1598,29 @@ export function createAccess<DataModel extends GenericDataModel>(
           ...optional("permission", args.permission),
         });
       },
+      ancestors: async (ctx, ref, options = {}) =>
+        ctx.runQuery(component.resources.ancestors, {
+          ...optional("tenantId", options.tenant),
+          type: ref.type,
+          externalId: ref.externalId,
+        }),
+      children: async (ctx, ref, options = {}) =>
+        withItemsCursor(
+          await ctx.runQuery(component.resources.list, {
+            ...optional("tenantId", options.tenant),
+            parent: { type: ref.type, externalId: ref.externalId },
+            ...optional("cursor", options.cursor),
+            ...optional("limit", options.limit),
+          }),
+        ),
+      descendants: async (ctx, ref, options = {}) =>
+        ctx.runQuery(component.resources.descendants, {
+          ...optional("tenantId", options.tenant),
+          type: ref.type,
+          externalId: ref.externalId,
+          ...optional("depth", options.depth),
+          ...optional("descendantType", options.type),
+        }),
       write: async (ctx, args) =>
         ctx.runMutation(component.resources.write, {
           ...optional("tenantId", args.tenant),
@@ -962,12 +1628,36 @@ export function createAccess<DataModel extends GenericDataModel>(
           externalId: args.externalId,
           ...optional("parent", args.parent),
         }),
+      writeMany: async (ctx, nodes, options = {}) =>
+        ctx.runMutation(component.resources.writeMany, {
+          ...optional("tenantId", options.tenant),
+          nodes: nodes.map((node) => ({
+            type: node.type,
+            externalId: node.externalId,
+            ...optional("parent", node.parent),
+          })),
+        }),
+      move: async (ctx, args) =>
+        ctx.runMutation(component.resources.move, {
+          ...optional("tenantId", args.tenant),
+          type: args.type,
+          externalId: args.externalId,
+          newParent: args.newParent,
+        }),
       delete: async (ctx, args) =>
         ctx.runMutation(component.resources.remove, {
           ...optional("tenantId", args.tenant),
           type: args.type,
           externalId: args.externalId,
+          ...optional("cascade", args.cascade),
         }),
+      sweep: async (ctx, args = {}) => {
+        const { cursor, ...report } = await ctx.runMutation(
+          component.resources.sweep,
+          compact(args),
+        );
+        return { ...report, ...optional("nextCursor", cursor) };
+      },
     },
     enter: async (ctx, args = {}) => {
       const identity = await ctx.auth.getUserIdentity();
@@ -1009,6 +1699,7 @@ export function createAccess<DataModel extends GenericDataModel>(
         sourceVersion: result.convex_source_data.source_version,
       };
     },
+    syncHealth: (ctx) => ctx.runQuery(q.getSyncHealth, {}),
     syncStatus: async (ctx, args) => {
       const tokenIdentifier = await getTokenIdentifier(ctx);
       return ctx.runQuery(q.getTargetTenantSyncStatus, {
@@ -1042,6 +1733,35 @@ export function createAccess<DataModel extends GenericDataModel>(
         delay = Math.min(delay * 2, WAIT_FOR_SYNC_MAX_DELAY_MS);
       }
     },
+    requestResync: async (ctx) => {
+      const claim = await ctx.runMutation(component.sync.claimResync, {});
+      if (!claim) return { requested: false };
+      const hercules = new Hercules({ apiVersion: HERCULES_PUBLIC_API_VERSION });
+      let delay = RESYNC_INITIAL_DELAY_MS;
+      for (let attempt = 1; ; attempt += 1) {
+        try {
+          await hercules.post("/v1/iam/convex/snapshot-requests", {
+            body: { reason: claim.reason, current_source_version: claim.currentVersion },
+          });
+          break;
+        } catch (error) {
+          if (attempt >= RESYNC_MAX_ATTEMPTS) throw error;
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          delay *= 2;
+        }
+      }
+      return {
+        requested: true,
+        reason: claim.reason,
+        currentSourceVersion: claim.currentVersion,
+        attempts: claim.attempts,
+      };
+    },
+    syncHooks: {
+      ...optional("onMembershipChanged", options.onMembershipChanged),
+      ...optional("onRoleAssignmentChanged", options.onRoleAssignmentChanged),
+      ...optional("onTenantArchived", options.onTenantArchived),
+    },
   };
 }
 
@@ -1085,6 +1805,33 @@ async function getCurrentUserId(ctx: AccessReadContext): Promise<string | undefi
   return (await ctx.auth.getUserIdentity())?.subject ?? undefined;
 }
 
+async function checkPermissions(
+  component: AccessComponent,
+  ctx: AccessReadContext,
+  checks: ReadonlyArray<PermissionCheck>,
+): Promise<boolean[]> {
+  if (checks.length === 0) return [];
+  const tokenIdentifier = await getTokenIdentifier(ctx);
+  if (!tokenIdentifier) return checks.map(() => false);
+  const inputs = checks.map(
+    (check): Omit<CheckArgs, "tokenIdentifier"> => ({
+      ...optional("tenantId", check.tenant),
+      permission: check.permission,
+      ...optional("resource", check.resource),
+    }),
+  );
+  const chunks: (typeof inputs)[] = [];
+  for (let i = 0; i < inputs.length; i += CHECK_MANY_LIMIT) {
+    chunks.push(inputs.slice(i, i + CHECK_MANY_LIMIT));
+  }
+  const decisions = await Promise.all(
+    chunks.map((chunk) =>
+      ctx.runQuery(component.checks.checkMany, { tokenIdentifier, checks: chunk }),
+    ),
+  );
+  return decisions.flat().map((decision) => decision.allowed);
+}
+
 async function hasPermissions(
   component: AccessComponent,
   ctx: AccessReadContext,
@@ -1132,20 +1879,6 @@ async function runCheck(
   );
 }
 
-// Splits a PermissionRequirement into its mode and the keys to check. A bare
-// string is a single AND of one key; a bare array is an allOf.
-function requirementKeys(requirement: PermissionRequirement): {
-  mode: "anyOf" | "allOf";
-  keys: string[];
-} {
-  if (typeof requirement === "string") return { mode: "allOf", keys: [requirement] };
-  if (Array.isArray(requirement)) return { mode: "allOf", keys: requirement };
-  if ("anyOf" in requirement && requirement.anyOf !== undefined) {
-    return { mode: "anyOf", keys: requirement.anyOf };
-  }
-  return { mode: "allOf", keys: requirement.allOf };
-}
-
 // Resolves a PermissionRequirement to a single decision. One key uses the
 // cheaper `check`; a set fans out to `checkMany` and combines with anyOf=OR
 // (allowed if any allow) / allOf=AND (denied at the first deny).
@@ -1156,6 +1889,7 @@ async function evaluateRequirement(
   requirement: PermissionRequirement,
   tenantId: string | undefined,
   resource: ResourceRef | undefined,
+  maxMirrorAgeMs?: number,
 ): Promise<AccessDecision> {
   const { mode, keys } = requirementKeys(requirement);
   if (keys.length === 0) {
@@ -1167,6 +1901,7 @@ async function evaluateRequirement(
       ...optional("tenantId", tenantId),
       permission: keys[0] as string,
       ...optional("resource", resource),
+      ...optional("maxMirrorAgeMs", maxMirrorAgeMs),
     });
   }
   const decisions = await ctx.runQuery(component.checks.checkMany, {
@@ -1178,6 +1913,7 @@ async function evaluateRequirement(
         ...optional("resource", resource),
       }),
     ),
+    ...optional("maxMirrorAgeMs", maxMirrorAgeMs),
   });
   const fallback: AccessDecision = { allowed: false, reasonCode: "access_denied" };
   if (mode === "anyOf") {
@@ -1188,7 +1924,39 @@ async function evaluateRequirement(
   return decisions.find((decision) => !decision.allowed) ?? decisions[0] ?? fallback;
 }
 
-function makeAuthBuilder<TBuilder>(builder: TBuilder, component: AccessComponent): TBuilder {
+// The answers to `permissions` for each row's resource, as answers[row][i], from
+// one checkPermissions batch. Identical (permission, resource) probes are sent
+// once.
+async function checkRows<Row>(
+  component: AccessComponent,
+  ctx: AccessReadContext,
+  rows: ReadonlyArray<Row>,
+  permissions: string[],
+  options: { resource: (row: Row) => ResourceRef; tenant?: string },
+): Promise<boolean[][]> {
+  const checks: PermissionCheck[] = [];
+  const indexByProbe = new Map<string, number>();
+  const slots = rows.map((row) => {
+    const resource = options.resource(row);
+    return permissions.map((permission) => {
+      const probe = JSON.stringify([permission, resource.type, resource.externalId]);
+      let index = indexByProbe.get(probe);
+      if (index === undefined) {
+        index = checks.push({ permission, ...optional("tenant", options.tenant), resource }) - 1;
+        indexByProbe.set(probe, index);
+      }
+      return index;
+    });
+  });
+  const answers = await checkPermissions(component, ctx, checks);
+  return slots.map((indexes) => indexes.map((index) => answers[index] === true));
+}
+
+function makeAuthBuilder<TBuilder>(
+  builder: TBuilder,
+  component: AccessComponent,
+  maxMirrorAgeMs: number | undefined,
+): TBuilder {
   return ((definition: unknown) => {
     if (typeof definition !== "object" || definition === null || !("handler" in definition)) {
       throw new Error("Auth-aware builders require an object definition with a handler.");
@@ -1212,19 +1980,93 @@ function makeAuthBuilder<TBuilder>(builder: TBuilder, component: AccessComponent
     return (builder as (def: unknown) => unknown)({
       ...convexDefinition,
       handler: async (ctx: AnyCtx, ...args: never[]) => {
-        await ensureAuthorized(component, ctx, guard, args[0]);
+        await ensureAuthorized(component, ctx, guard, args[0], maxMirrorAgeMs);
         return handler(ctx, ...args);
       },
     });
   }) as TBuilder;
 }
 
+function makePaginatedBuilder<TBuilder>(
+  builder: TBuilder,
+  component: AccessComponent,
+  maxMirrorAgeMs: number | undefined,
+): TBuilder {
+  return ((definition: unknown) => {
+    if (typeof definition !== "object" || definition === null || !("handler" in definition)) {
+      throw new Error("Auth-aware builders require an object definition with a handler.");
+    }
+    const def = definition as {
+      handler: (
+        ctx: AnyCtx,
+        args: { paginationOpts: PaginationOptions },
+      ) => Promise<PaginationResult<unknown>>;
+      permission?: unknown;
+      tenant?: unknown;
+      resource?: unknown;
+      rowPermission: string;
+      rowResource: (doc: unknown) => ResourceRef;
+      args?: unknown;
+      returns?: unknown;
+    };
+    const {
+      permission,
+      tenant,
+      resource,
+      rowPermission,
+      rowResource,
+      handler,
+      ...convexDefinition
+    } = def;
+    const guard: GuardConfig<AnyCtx, unknown> = {
+      ...(isPermissionRequirement(permission) ? { permission } : {}),
+      ...(tenant === undefined ? {} : { tenant: tenant as TenantSelector<AnyCtx, unknown> }),
+      ...(resource === undefined
+        ? {}
+        : { resource: resource as ResourceSelector<AnyCtx, unknown> }),
+    };
+    return (builder as (def: unknown) => unknown)({
+      ...convexDefinition,
+      handler: async (ctx: AnyCtx, args: { paginationOpts: PaginationOptions }) => {
+        const authorized = await ensureAuthorized(component, ctx, guard, args, maxMirrorAgeMs);
+        // Without a function-level permission nothing was resolved, but
+        // `tenant` still scopes the row checks.
+        const { tenant: rowTenant } = guard.permission
+          ? authorized
+          : await resolveGuardTarget(ctx, { tenant: guard.tenant }, args);
+        return filterAuthorizedPage(component, ctx, await handler(ctx, args), {
+          permission: rowPermission,
+          resource: rowResource,
+          ...optional("tenant", rowTenant),
+        });
+      },
+    });
+  }) as TBuilder;
+}
+
+// Keeps the rows of one fetched page the caller holds `permission` on, with one
+// batched check. Convex allows a single .paginate() per query function, so a
+// thinned page is never refilled: it comes back short (even empty) with the
+// fetch's own cursor and status, and the client's next page continues there.
+async function filterAuthorizedPage<Doc>(
+  component: AccessComponent,
+  ctx: AccessReadContext,
+  result: PaginationResult<Doc>,
+  options: { permission: string; resource: (doc: Doc) => ResourceRef; tenant?: string },
+): Promise<PaginationResult<Doc>> {
+  const allowed = await checkRows(component, ctx, result.page, [options.permission], options);
+  return { ...result, page: result.page.filter((_, i) => allowed[i]?.[0] === true) };
+}
+
+// Throws unless the caller passes `guard`. Returns the tenant the guard
+// resolved (only when it checked a permission).
 async function ensureAuthorized(
   component: AccessComponent,
   ctx: AnyCtx,
   guard: GuardConfig<AnyCtx, unknown>,
   callerArgs: unknown,
-): Promise<void> {
+  maxMirrorAgeMs: number | undefined,
+): Promise<{ tenant?: string }> {
   const identity = await ctx.auth.getUserIdentity();
   if (!identity?.tokenIdentifier) {
     throw new ConvexError({
@@ -1233,30 +2075,9 @@ async function ensureAuthorized(
       reasonCode: "missing_identity",
     });
   }
-  if (!guard.permission) return;
-
-  let tenant: string | undefined;
-  let resource: ResourceRef | undefined;
-  try {
-    if (guard.tenant !== undefined) {
-      tenant =
-        typeof guard.tenant === "function" ? await guard.tenant(ctx, callerArgs) : guard.tenant;
-    }
-    if (guard.resource !== undefined) {
-      resource =
-        typeof guard.resource === "function"
-          ? await guard.resource(ctx, callerArgs)
-          : guard.resource;
-    }
-  } catch (error) {
-    if (error instanceof ConvexError) throw error;
-    throw new ConvexError({
-      code: "ACCESS_DENIED",
-      message: "authorization target resolution failed",
-      reasonCode: "target_resolution_failed",
-    });
-  }
+  if (!guard.permission) return {};
 
+  const { tenant, resource } = await resolveGuardTarget(ctx, guard, callerArgs);
   const decision = await evaluateRequirement(
     component,
     ctx,
@@ -1264,6 +2085,7 @@ async function ensureAuthorized(
     guard.permission,
     tenant,
     resource,
+    maxMirrorAgeMs,
   );
   if (!decision.allowed) {
     throw new ConvexError({
@@ -1273,6 +2095,35 @@ async function ensureAuthorized(
       ...(decision.sourceVersion === undefined ? {} : { sourceVersion: decision.sourceVersion }),
     });
   }
+  return optional("tenant", tenant);
+}
+
+async function resolveGuardTarget(
+  ctx: AnyCtx,
+  guard: Pick<GuardConfig<AnyCtx, unknown>, "tenant" | "resource">,
+  callerArgs: unknown,
+): Promise<{ tenant?: string; resource?: ResourceRef }> {
+  try {
+    return {
+      ...optional(
+        "tenant",
+        typeof guard.tenant === "function" ? await guard.tenant(ctx, callerArgs) : guard.tenant,
+      ),
+      ...optional(
+        "resource",
+        typeof guard.resource === "function"
+          ? await guard.resource(ctx, callerArgs)
+          : guard.resource,
+      ),
+    };
+  } catch (error) {
+    if (error instanceof ConvexError) throw error;
+    throw new ConvexError({
+      code: "ACCESS_DENIED",
+      message: "authorization target resolution failed",
+      reasonCode: "target_resolution_failed",
+    });
+  }
 }
 
 function isPermissionRequirement(value: unknown): value is PermissionRequirement {
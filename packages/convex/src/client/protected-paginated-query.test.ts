@@ -0,0 +1,162 @@
+import { convexTest } from "convex-test";
+import type {
+  DataModelFromSchemaDefinition,
+  GenericQueryCtx,
+  PaginationOptions,
+  PaginationResult,
+} from "convex/server";
+import { defineSchema, defineTable, paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createAccess } from "./index.js";
+
+// The query builder hands back its definition, so the wrapped handler can be
+// called directly. The component refs are opaque; runQuery answers by ref.
+const checkRef = { ref: "checks.check" };
+const checkManyRef = { ref: "checks.checkMany" };
+const access = createAccess({
+  query: vi.fn((definition: unknown) => definition) as never,
+  mutation: vi.fn() as never,
+  action: vi.fn() as never,
+  component: { queries: {}, checks: { check: checkRef, checkMany: checkManyRef } } as never,
+});
+
+type Task = { projectId: string };
+const TASKS: (Task & { id: string })[] = ["t1", "t2", "t3", "t4", "t5", "t6"].map((id) => ({
+  id,
+  projectId: `p-${id}`,
+}));
+
+// An app table for running a handler over a real .paginate().
+const appSchema = defineSchema({ tasks: defineTable({ projectId: v.string() }) });
+type AppCtx = GenericQueryCtx<DataModelFromSchemaDefinition<typeof appSchema>>;
+
+// A cursor is the index of the next task.
+const fetchTasks = vi.fn(
+  async (paginationOpts: PaginationOptions): Promise<PaginationResult<Task>> => {
+    const start = paginationOpts.cursor === null ? 0 : Number(paginationOpts.cursor);
+    const end = paginationOpts.endCursor
+      ? Number(paginationOpts.endCursor)
+      : Math.min(start + paginationOpts.numItems, TASKS.length);
+    return {
+      page: TASKS.slice(start, end),
+      isDone: end >= TASKS.length,
+      continueCursor: String(end),
+    };
+  },
+);
+
+function makeCtx(input: { allowed: string[]; guard?: boolean }) {
+  return {
+    auth: {
+      getUserIdentity: async () =>
+        ({ tokenIdentifier: "https://acme.auth|user_1", subject: "user_1" }) as never,
+    } as never,
+    runQuery: vi.fn(
+      async (ref: unknown, args: { checks?: { resource: { externalId: string } }[] }) => {
+        if (ref === checkRef) {
+          return input.guard === false
+            ? { allowed: false, reasonCode: "permission_denied" }
+            : { allowed: true, reasonCode: "allowed" };
+        }
+        return (args.checks ?? []).map((check) => ({
+          allowed: input.allowed.includes(check.resource.externalId),
+          reasonCode: "allowed",
+        }));
+      },
+    ),
+  };
+}
+
+function define(
+  handler: (ctx: AppCtx, paginationOpts: PaginationOptions) => Promise<PaginationResult<Task>> = (
+    _ctx,
+    paginationOpts,
+  ) => fetchTasks(paginationOpts),
+) {
+  const registered = access.protectedPaginatedQuery({
+    args: { paginationOpts: paginationOptsValidator, tenantId: v.string() },
+    permission: "app.task:list",
+    tenant: (_ctx, args) => args.tenantId,
+    rowPermission: "app.task:read",
+    handler: async (ctx, args) => handler(ctx as unknown as AppCtx, args.paginationOpts),
+    rowResource: (task) => ({ type: "app.project", externalId: task.projectId }),
+  });
+  return (registered as unknown as { handler: (...args: unknown[]) => Promise<unknown> }).handler;
+}
+
+describe("access.protectedPaginatedQuery", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("filters one fetch and keeps its cursor", async () => {
+    const ctx = makeCtx({ allowed: ["p-t2", "p-t4", "p-t6"] });
+    const result = await define()(ctx, {
+      tenantId: "tenant_1",
+      paginationOpts: { cursor: null, numItems: 3 },
+    });
+
+    expect(result).toEqual({ page: [TASKS[1]], isDone: false, continueCursor: "3" });
+    expect(fetchTasks).toHaveBeenCalledTimes(1);
+    // Row checks carry the guard's tenant.
+    expect(ctx.runQuery).toHaveBeenCalledWith(checkManyRef, {
+      tokenIdentifier: "https://acme.auth|user_1",
+      checks: ["p-t1", "p-t2", "p-t3"].map((externalId) => ({
+        tenantId: "tenant_1",
+        permission: "app.task:read",
+        resource: { type: "app.project", externalId },
+      })),
+    });
+  });
+
+  it("returns an empty page, not done, when no row passes", async () => {
+    const ctx = makeCtx({ allowed: [] });
+    const result = await define()(ctx, {
+      tenantId: "tenant_1",
+      paginationOpts: { cursor: null, numItems: 2 },
+    });
+
+    expect(result).toEqual({ page: [], isDone: false, continueCursor: "2" });
+  });
+
+  it("enforces the function-level guard before reading anything", async () => {
+    const ctx = makeCtx({ allowed: ["p-t1"], guard: false });
+    await expect(
+      define()(ctx, { tenantId: "tenant_1", paginationOpts: { cursor: null, numItems: 2 } }),
+    ).rejects.toMatchObject({
+      data: { code: "ACCESS_DENIED", reasonCode: "permission_denied" },
+    });
+    expect(fetchTasks).not.toHaveBeenCalled();
+  });
+
+  it("pages a real query with one .paginate() per call", async () => {
+    const t = convexTest(appSchema, { "/convex/_generated/api.js": async () => ({}) });
+    await t.run(async (ctx) => {
+      for (const task of TASKS) await ctx.db.insert("tasks", { projectId: task.projectId });
+    });
+    let paginateCalls = 0;
+    const run = define(async (ctx, paginationOpts) => {
+      paginateCalls++;
+      return await ctx.db.query("tasks").paginate(paginationOpts);
+    });
+    const allowed = ["p-t2", "p-t3", "p-t6"];
+    const pages: string[][] = [];
+    let cursor: string | null = null;
+    for (;;) {
+      const result = (await t.run(async (ctx) =>
+        run(
+          { ...makeCtx({ allowed }), db: ctx.db },
+          { tenantId: "tenant_1", paginationOpts: { cursor, numItems: 2 } },
+        ),
+      )) as PaginationResult<Task>;
+      pages.push(result.page.map((task) => task.projectId));
+      if (result.isDone) break;
+      cursor = result.continueCursor;
+    }
+
+    expect(paginateCalls).toBe(pages.length);
+    expect(pages.flat()).toEqual(allowed);
+    expect(pages[0]).toEqual(["p-t2"]);
+  });
+});
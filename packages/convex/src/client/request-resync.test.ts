@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type Access, createAccess } from "./index.js";
+
+const post = vi.fn();
+vi.mock("@usehercules/sdk", () => ({
+  default: class HerculesMock {
+    post = post;
+  },
+}));
+
+const claimResyncRef = { ref: "sync.claimResync" };
+const access: Access<never> = createAccess({
+  query: vi.fn() as never,
+  mutation: vi.fn() as never,
+  action: vi.fn() as never,
+  component: { queries: {}, sync: { claimResync: claimResyncRef } } as never,
+});
+
+function makeCtx(claim: unknown) {
+  return { runMutation: vi.fn().mockResolvedValue(claim) };
+}
+
+describe("access.requestResync", () => {
+  beforeEach(() => {
+    post.mockReset();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("does not call the control plane without a claim", async () => {
+    const ctx = makeCtx(null);
+    await expect(access.requestResync(ctx)).resolves.toEqual({ requested: false });
+    expect(ctx.runMutation).toHaveBeenCalledWith(claimResyncRef, {});
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it("requests a snapshot, retrying a failing call with backoff", async () => {
+    vi.useFakeTimers();
+    post.mockRejectedValueOnce(new Error("503")).mockResolvedValueOnce({});
+    const ctx = makeCtx({ reason: "version_gap", currentVersion: 7, attempts: 2 });
+
+    const result = access.requestResync(ctx);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toEqual({
+      requested: true,
+      reason: "version_gap",
+      currentSourceVersion: 7,
+      attempts: 2,
+    });
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(post).toHaveBeenLastCalledWith("/v1/iam/convex/snapshot-requests", {
+      body: { reason: "version_gap", current_source_version: 7 },
+    });
+  });
+
+  it("rethrows once the retries are exhausted", async () => {
+    vi.useFakeTimers();
+    post.mockRejectedValue(new Error("503"));
+    const result = access.requestResync(
+      makeCtx({ reason: "reset_required", currentVersion: 3, attempts: 1 }),
+    );
+    const assertion = expect(result).rejects.toThrow("503");
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(post).toHaveBeenCalledTimes(4);
+  });
+});
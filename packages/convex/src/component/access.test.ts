@@ -1,7 +1,13 @@
 import type { DataModelFromSchemaDefinition, GenericMutationCtx } from "convex/server";
 import { convexTest } from "convex-test";
 import { describe, expect, test } from "vitest";
-import { evaluateAccess, type AccessRequest } from "./access";
+import {
+  createAccessCache,
+  evaluateAccess,
+  explainAccess,
+  simulateAccess,
+  type AccessRequest,
+} from "./access";
 import schema from "./schema";
 import { componentModules } from "../../test/component-modules";
 
@@ -874,3 +880,358 @@ describe("evaluateAccess ignores permissions.isAppScope", () => {
     expect(decision.allowed).toBe(true);
   });
 });
+
+// ── per-invocation cache ────────────────────────────────────────────────────────
+describe("evaluateAccess with an access cache", () => {
+  async function seed(ctx: SeedCtx): Promise<void> {
+    await addSyncState(ctx);
+    await addTenant(ctx, "t-p", { primary: true });
+    await addMembership(ctx, "m1", "t-p", "u1");
+    await addPermission(ctx, "perm-read", "app.doc:read");
+    await addPermission(ctx, "perm-edit", "app.doc:edit");
+    await addRole(ctx, "role-reader", { tenantId: "t-p" });
+    await grant(ctx, "role-reader", "perm-read");
+    await addRole(ctx, "role-editor", { tenantId: "t-p" });
+    await grant(ctx, "role-editor", "perm-edit");
+    await addUserRoleAssignment(ctx, "ura1", "t-p", "m1", "role-reader");
+    await addResourceType(ctx, "rt-doc", "app.doc");
+    await addResourceNode(ctx, "n1", "t-p", "rt-doc", "d1");
+    await addUserResourceRoleAssignment(ctx, "urra1", "t-p", "m1", "role-editor", "rt-doc", "d1");
+  }
+
+  test("a batch sharing one cache decides exactly as uncached checks", async () => {
+    const t = harness();
+    await t.run(seed);
+    const requests: AccessRequest[] = [
+      { tokenIdentifier: token("u1"), permissionKey: "app.doc:read" },
+      { tokenIdentifier: token("u1"), permissionKey: "app.doc:edit" },
+      {
+        tokenIdentifier: token("u1"),
+        permissionKey: "app.doc:edit",
+        resource: { type: "app.doc", externalId: "d1" },
+      },
+      {
+        tokenIdentifier: token("u1"),
+        permissionKey: "app.doc:edit",
+        resource: { type: "app.doc", externalId: "d2" },
+      },
+      { tokenIdentifier: token("u2"), permissionKey: "app.doc:read" },
+      { tokenIdentifier: token("u1"), permissionKey: "app.doc:nope" },
+    ];
+    const [cached, uncached] = await t.run(async (ctx) => {
+      const cache = createAccessCache();
+      return [
+        await Promise.all(requests.map((request) => evaluateAccess(ctx, request, cache))),
+        await Promise.all(requests.map((request) => evaluateAccess(ctx, request))),
+      ];
+    });
+    expect(cached).toEqual(uncached);
+    expect(cached.map((decision) => decision.reasonCode)).toEqual([
+      "allowed",
+      "permission_denied",
+      "allowed",
+      "permission_denied",
+      "membership_missing",
+      "permission_missing",
+    ]);
+  });
+
+  test("rows read through the cache are reused for the rest of the invocation", async () => {
+    const t = harness();
+    await t.run(seed);
+    const request = { tokenIdentifier: token("u1"), permissionKey: "app.doc:read" };
+    const [first, second, fresh] = await t.run(async (ctx) => {
+      const cache = createAccessCache();
+      const first = await evaluateAccess(ctx, request, cache);
+      const assignment = await ctx.db
+        .query("user_role_assignments")
+        .withIndex("by_membership", (q) => q.eq("generation", undefined).eq("membershipId", "m1"))
+        .unique();
+      await ctx.db.delete(assignment!._id);
+      return [first, await evaluateAccess(ctx, request, cache), await evaluateAccess(ctx, request)];
+    });
+    expect(first.allowed).toBe(true);
+    expect(second.allowed).toBe(true);
+    expect(fresh).toMatchObject({ allowed: false, reasonCode: "permission_denied" });
+  });
+});
+
+// ── explain ─────────────────────────────────────────────────────────────────────
+describe("explainAccess", () => {
+  async function seedGraph(ctx: SeedCtx): Promise<void> {
+    await addSyncState(ctx);
+    await addTenant(ctx, "t-p", { primary: true });
+    await addMembership(ctx, "m1", "t-p", "u1");
+    await addPermission(ctx, "perm-edit", "app.document:edit");
+    await addRole(ctx, "role-editor", { tenantId: "t-p", key: "editor" });
+    await grant(ctx, "role-editor", "perm-edit");
+    await addResourceType(ctx, "rt-project", "app.project", null);
+    await addResourceType(ctx, "rt-document", "app.document", "rt-project");
+    await addResourceNode(ctx, "node-p1", "t-p", "rt-project", "p1");
+    await addResourceNode(ctx, "node-d1", "t-p", "rt-document", "d1", "node-p1");
+  }
+
+  const request = (): AccessRequest => ({
+    tokenIdentifier: token("u1"),
+    permissionKey: "app.document:edit",
+    resource: { type: "app.document", externalId: "d1" },
+  });
+
+  test("a gate denial carries only the decision", async () => {
+    const t = harness();
+    const explanation = await t.run((ctx) => explainAccess(ctx, request()));
+    expect(explanation).toEqual({
+      decision: { allowed: false, reasonCode: "mirror_not_ready" },
+      roles: [],
+      expired: [],
+    });
+  });
+
+  test("names the ancestor that carried a resource grant", async () => {
+    const t = harness();
+    await t.run(async (ctx) => {
+      await seedGraph(ctx);
+      await addUserResourceRoleAssignment(
+        ctx,
+        "urra1",
+        "t-p",
+        "m1",
+        "role-editor",
+        "rt-project",
+        "p1",
+      );
+    });
+    const explanation = await t.run((ctx) => explainAccess(ctx, request()));
+    expect(explanation.decision).toMatchObject({ allowed: true, membershipId: "m1" });
+    expect(explanation.membership).toEqual({ id: "m1", tenantId: "t-p", status: "active" });
+    expect(explanation.resource).toEqual({
+      chain: [
+        { type: "app.document", externalId: "d1", hasNode: true },
+        { type: "app.project", externalId: "p1", hasNode: true },
+      ],
+      assignments: [
+        {
+          assignmentId: "urra1",
+          roleId: "role-editor",
+          roleKey: "editor",
+          heldVia: "direct",
+          resource: { type: "app.project", externalId: "p1" },
+          chainDepth: 1,
+          grantsPermission: true,
+        },
+      ],
+    });
+    expect(explanation.grantedBy).toMatchObject({
+      scope: "resource",
+      assignment: { assignmentId: "urra1", chainDepth: 1 },
+    });
+  });
+
+  test("keeps an assignment whose resource type left the mirror", async () => {
+    const t = harness();
+    await t.run(async (ctx) => {
+      await seedGraph(ctx);
+      await addUserResourceRoleAssignment(
+        ctx,
+        "urra1",
+        "t-p",
+        "m1",
+        "role-editor",
+        "rt-project",
+        "p1",
+      );
+      const type = await ctx.db
+        .query("resource_types")
+        .withIndex("by_resource_type_id", (q) =>
+          q.eq("generation", undefined).eq("id", "rt-project"),
+        )
+        .unique();
+      await ctx.db.delete(type!._id);
+    });
+    const decision = await t.run((ctx) => evaluateAccess(ctx, request()));
+    const explanation = await t.run((ctx) => explainAccess(ctx, request()));
+    expect(decision).toMatchObject({ allowed: true });
+    expect(explanation.decision).toEqual(decision);
+    expect(explanation.grantedBy).toMatchObject({
+      scope: "resource",
+      assignment: { assignmentId: "urra1", resource: { type: null, externalId: "p1" } },
+    });
+  });
+
+  test("reports where the chain walk stopped and why", async () => {
+    const t = harness();
+    await t.run(async (ctx) => {
+      await seedGraph(ctx);
+      await addResourceNode(ctx, "node-d2", "t-p", "rt-document", "d2", "node-gone");
+    });
+    const explanation = await t.run((ctx) =>
+      explainAccess(ctx, { ...request(), resource: { type: "app.document", externalId: "d2" } }),
+    );
+    expect(explanation.decision).toMatchObject({ allowed: false, reasonCode: "permission_denied" });
+    expect(explanation.resource).toMatchObject({
+      chain: [{ type: "app.document", externalId: "d2", hasNode: true }],
+      stoppedAt: "dangling_parent",
+    });
+    expect(explanation.grantedBy).toBeUndefined();
+  });
+
+  test("tags role sources and lists expired assignments separately", async () => {
+    const t = harness();
+    const past = Date.now() - 60_000;
+    await t.run(async (ctx) => {
+      await seedGraph(ctx);
+      await addRole(ctx, "role-viewer", { tenantId: "t-p", key: "viewer" });
+      await addUserRoleAssignment(ctx, "ura-expired", "t-p", "m1", "role-editor", past);
+      await addGroup(ctx, "g1", "t-p");
+      await addGroupMembership(ctx, "g1", "m1", "t-p");
+      await addGroupRoleAssignment(ctx, "gra1", "t-p", "g1", "role-viewer");
+    });
+    const explanation = await t.run((ctx) =>
+      explainAccess(ctx, { tokenIdentifier: token("u1"), permissionKey: "app.document:edit" }),
+    );
+    expect(explanation.decision).toMatchObject({ allowed: false, reasonCode: "permission_denied" });
+    expect(explanation.roles).toEqual([
+      {
+        assignmentId: "gra1",
+        roleId: "role-viewer",
+        roleKey: "viewer",
+        heldVia: "group",
+        groupId: "g1",
+        grantsPermission: false,
+      },
+    ]);
+    expect(explanation.expired).toEqual([
+      {
+        assignmentId: "ura-expired",
+        roleId: "role-editor",
+        roleKey: "editor",
+        heldVia: "direct",
+        expiresAt: past,
+        grantsPermission: true,
+      },
+    ]);
+  });
+
+  test("an app-scoped role via the primary tenant is tagged app_scope", async () => {
+    const t = harness();
+    await t.run(async (ctx) => {
+      await addSyncState(ctx);
+      await addTenant(ctx, "P", { primary: true });
+      await addTenant(ctx, "T");
+      await addMembership(ctx, "mP", "P", "u1");
+      await addPermission(ctx, "perm-read", "app.doc:read");
+      await addRole(ctx, "role-app", { isAppScope: true });
+      await grant(ctx, "role-app", "perm-read");
+      await addUserRoleAssignment(ctx, "ura-app", "P", "mP", "role-app");
+    });
+    const explanation = await t.run((ctx) =>
+      explainAccess(ctx, {
+        tokenIdentifier: token("u1"),
+        tenantId: "T",
+        permissionKey: "app.doc:read",
+      }),
+    );
+    expect(explanation.decision.allowed).toBe(true);
+    expect(explanation.tenantId).toBe("T");
+    expect(explanation.membership).toBeUndefined();
+    expect(explanation.primaryMembership).toEqual({ id: "mP", tenantId: "P", status: "active" });
+    expect(explanation.grantedBy).toEqual({
+      scope: "tenant",
+      assignment: {
+        assignmentId: "ura-app",
+        roleId: "role-app",
+        roleKey: "role-app",
+        heldVia: "app_scope",
+        grantsPermission: true,
+      },
+    });
+  });
+});
+
+describe("simulateAccess", () => {
+  async function seedGraph(ctx: SeedCtx): Promise<void> {
+    await addSyncState(ctx);
+    await addTenant(ctx, "t-p", { primary: true });
+    await addMembership(ctx, "m1", "t-p", "u1");
+    await addPermission(ctx, "perm-read", "app.project:read");
+    await addPermission(ctx, "perm-delete", "app.project:delete");
+    await addRole(ctx, "role-viewer", { tenantId: "t-p" });
+    await addRole(ctx, "role-owner", { tenantId: "t-p" });
+    await grant(ctx, "role-viewer", "perm-read");
+    await grant(ctx, "role-owner", "perm-delete");
+    await addUserRoleAssignment(ctx, "ura-viewer", "t-p", "m1", "role-viewer");
+    await addResourceType(ctx, "rt-project", "app.project");
+    await addResourceNode(ctx, "node-p1", "t-p", "rt-project", "p1");
+    await addResourceNode(ctx, "node-p2", "t-p", "rt-project", "p2");
+    // The materialized row must not outlive a simulated removal.
+    await ctx.db.insert("effective_grants", {
+      membershipId: "m1",
+      tenantId: "t-p",
+      permissionId: "perm-read",
+      source: "direct",
+    });
+  }
+
+  test("previews adds and removals without writing them", async () => {
+    const t = harness();
+    await t.run(seedGraph);
+    const results = await t.run((ctx) =>
+      simulateAccess(
+        ctx,
+        "m1",
+        {
+          add: [
+            { roleId: "role-owner", resource: { type: "app.project", externalId: "p1" } },
+            // Not a group m1 belongs to, so it grants nothing.
+            { roleId: "role-owner", groupId: "g-other" },
+          ],
+          remove: ["ura-viewer"],
+        },
+        [
+          { permission: "app.project:read" },
+          { permission: "app.project:delete", resource: { type: "app.project", externalId: "p1" } },
+          { permission: "app.project:delete", resource: { type: "app.project", externalId: "p2" } },
+          { permission: "app.project:delete" },
+        ],
+      ),
+    );
+    expect(results.map((r) => [r.before.reasonCode, r.after.reasonCode])).toEqual([
+      ["allowed", "permission_denied"],
+      ["permission_denied", "allowed"],
+      ["permission_denied", "permission_denied"],
+      ["permission_denied", "permission_denied"],
+    ]);
+    expect(results[1]).toMatchObject({
+      permission: "app.project:delete",
+      resource: { type: "app.project", externalId: "p1" },
+    });
+
+    const decision = await t.run((ctx) =>
+      evaluateAccess(ctx, {
+        tokenIdentifier: token("u1"),
+        permissionKey: "app.project:delete",
+        resource: { type: "app.project", externalId: "p1" },
+      }),
+    );
+    expect(decision.allowed).toBe(false);
+    const assignments = await t.run((ctx) => ctx.db.query("user_role_assignments").collect());
+    expect(assignments.map((row) => row.id)).toEqual(["ura-viewer"]);
+  });
+
+  test("an unknown membership denies both sides", async () => {
+    const t = harness();
+    await t.run(seedGraph);
+    const results = await t.run((ctx) =>
+      simulateAccess(ctx, "m-missing", { add: [], remove: [] }, [
+        { permission: "app.project:read" },
+      ]),
+    );
+    expect(results).toEqual([
+      {
+        permission: "app.project:read",
+        before: { allowed: false, reasonCode: "membership_missing", sourceVersion: 1 },
+        after: { allowed: false, reasonCode: "membership_missing", sourceVersion: 1 },
+      },
+    ]);
+  });
+});
@@ -7,15 +7,33 @@ type QueryCtx = GenericQueryCtx<DataModel>;
 
 type TenantRow = DataModel["tenants"]["document"];
 type MembershipRow = DataModel["tenant_memberships"]["document"];
+type EffectiveGrantRow = DataModel["effective_grants"]["document"];
 type ResourceNodeRow = DataModel["resources"]["document"];
 type ResourceAssignmentRow =
   | DataModel["user_resource_role_assignments"]["document"]
   | DataModel["group_resource_role_assignments"]["document"];
 
+// The mirror generation a read addresses (see schema.ts): the one sync_state
+// points at, undefined for rows written before generations existed. Mirror
+// reads take a ctx carrying it, so every index range can lead with it.
+export type Generation = number | undefined;
+export type MirrorCtx = QueryCtx & { generation: Generation };
+
+export function atGeneration<Ctx extends QueryCtx>(
+  ctx: Ctx,
+  generation: Generation,
+): Ctx & { generation: Generation } {
+  return { ...ctx, generation };
+}
+
+export async function loadGeneration(ctx: QueryCtx): Promise<Generation> {
+  return (await ctx.db.query("sync_state").unique())?.generation;
+}
+
 // Hard cap on resource-hierarchy depth: a resource-scoped check walks the
 // resource and at most this many ancestors. Generous for real nesting while
 // bounding the per-call work.
-const MAX_RESOURCE_DEPTH = 20;
+export const MAX_RESOURCE_DEPTH = 20;
 
 export type AccessDecision = {
   allowed: boolean;
@@ -31,6 +49,8 @@ export type AccessRequest = {
   // `type` is a resource-type KEY (the app/SDK addresses resource types by key);
   // the engine resolves it to a resourceTypeId via resource_types.by_key.
   resource?: { type: string; externalId: string };
+  // Deny as `mirror_stale` when the last applied delivery is older than this.
+  maxMirrorAgeMs?: number;
 };
 
 function allow(sourceVersion: number, membershipId: string | undefined): AccessDecision {
@@ -51,17 +71,39 @@ function deny(reasonCode: string, sourceVersion?: number, membershipId?: string)
   };
 }
 
+// Per-invocation memo of the mirror reads behind evaluateAccess, keyed by what
+// was read (sync state, tenant, membership, a membership's assignments, a
+// role's permissions, a resource chain). Create one per function invocation and
+// pass it to every check in that invocation: a batch of checks for one caller
+// then does the membership and role expansion once. Never share one across
+// invocations; it would keep serving rows the mirror has since replaced.
+export type AccessCache = Map<string, Promise<unknown>>;
+
+export function createAccessCache(): AccessCache {
+  return new Map();
+}
+
+function memo<T>(cache: AccessCache | undefined, key: string, load: () => Promise<T>): Promise<T> {
+  if (!cache) return load();
+  let entry = cache.get(key) as Promise<T> | undefined;
+  if (entry === undefined) {
+    entry = load();
+    cache.set(key, entry);
+  }
+  return entry;
+}
+
 // Resolve the access tenant: an explicit tenant id, or the deployment's primary
 // tenant when omitted. Never exposes the primary tenant id plumbing to callers.
-export async function resolvePrimaryTenant(ctx: QueryCtx): Promise<TenantRow | null> {
+export async function resolvePrimaryTenant(ctx: MirrorCtx): Promise<TenantRow | null> {
   return await ctx.db
     .query("tenants")
-    .withIndex("by_primary", (q) => q.eq("isPrimaryTenant", true))
+    .withIndex("by_primary", (q) => q.eq("generation", ctx.generation).eq("isPrimaryTenant", true))
     .first();
 }
 
 export async function resolveTenantRow(
-  ctx: QueryCtx,
+  ctx: MirrorCtx,
   tenantId: string | undefined,
 ): Promise<TenantRow | null> {
   if (tenantId === undefined) {
@@ -69,19 +111,21 @@ export async function resolveTenantRow(
   }
   return await ctx.db
     .query("tenants")
-    .withIndex("by_tenant_id", (q) => q.eq("id", tenantId))
+    .withIndex("by_tenant_id", (q) => q.eq("generation", ctx.generation).eq("id", tenantId))
     .unique();
 }
 
-async function resolveMembership(
-  ctx: QueryCtx,
+export async function resolveMembership(
+  ctx: MirrorCtx,
   tenantId: string,
   subject: string,
 ): Promise<MembershipRow | null> {
   // token.subject IS the OIDC subject = tenant_memberships.userId.
   return await ctx.db
     .query("tenant_memberships")
-    .withIndex("by_tenant_user", (q) => q.eq("tenantId", tenantId).eq("userId", subject))
+    .withIndex("by_tenant_user", (q) =>
+      q.eq("generation", ctx.generation).eq("tenantId", tenantId).eq("userId", subject),
+    )
     .unique();
 }
 
@@ -104,7 +148,7 @@ function membershipDenyReason(status: MembershipRow["status"]): string {
 // assignments plus assignments to any active group the membership belongs to.
 // Expired assignments are ignored.
 export async function collectMembershipRoleIds(
-  ctx: QueryCtx,
+  ctx: MirrorCtx,
   membership: MembershipRow,
   now: number,
 ): Promise<Set<string>> {
@@ -112,7 +156,9 @@ export async function collectMembershipRoleIds(
 
   const directAssignments = await ctx.db
     .query("user_role_assignments")
-    .withIndex("by_membership", (q) => q.eq("membershipId", membership.id))
+    .withIndex("by_membership", (q) =>
+      q.eq("generation", ctx.generation).eq("membershipId", membership.id),
+    )
     .collect();
   for (const assignment of directAssignments) {
     if (assignment.tenantId !== membership.tenantId) continue;
@@ -122,18 +168,22 @@ export async function collectMembershipRoleIds(
 
   const groupMemberships = await ctx.db
     .query("group_memberships")
-    .withIndex("by_membership", (q) => q.eq("membershipId", membership.id))
+    .withIndex("by_membership", (q) =>
+      q.eq("generation", ctx.generation).eq("membershipId", membership.id),
+    )
     .collect();
   for (const groupMembership of groupMemberships) {
     if (groupMembership.tenantId !== membership.tenantId) continue;
     const group = await ctx.db
       .query("groups")
-      .withIndex("by_group_id", (q) => q.eq("id", groupMembership.groupId))
+      .withIndex("by_group_id", (q) =>
+        q.eq("generation", ctx.generation).eq("id", groupMembership.groupId),
+      )
       .unique();
     if (!group || group.status !== "active") continue;
     const groupAssignments = await ctx.db
       .query("group_role_assignments")
-      .withIndex("by_group", (q) => q.eq("groupId", group.id))
+      .withIndex("by_group", (q) => q.eq("generation", ctx.generation).eq("groupId", group.id))
       .collect();
     for (const assignment of groupAssignments) {
       if (assignment.tenantId !== membership.tenantId) continue;
@@ -150,40 +200,68 @@ export async function collectMembershipRoleIds(
 // membership confer app-wide authority, so they are unioned into every tenant's
 // decision.
 export async function collectAppScopedRoleIds(
-  ctx: QueryCtx,
+  ctx: MirrorCtx,
   membership: MembershipRow,
   now: number,
+  cache?: AccessCache,
 ): Promise<Set<string>> {
   const appScoped = new Set<string>();
-  for (const roleId of await collectMembershipRoleIds(ctx, membership, now)) {
-    const role = await ctx.db
-      .query("roles")
-      .withIndex("by_role_id", (q) => q.eq("id", roleId))
-      .unique();
+  for (const assignment of await loadTaggedRoleAssignments(ctx, membership, cache)) {
+    if (assignment.expiresAt !== undefined && assignment.expiresAt <= now) continue;
+    if (appScoped.has(assignment.roleId)) continue;
+    const roleId = assignment.roleId;
+    const role = await memo(cache, composeKey("role", roleId), () =>
+      ctx.db
+        .query("roles")
+        .withIndex("by_role_id", (q) => q.eq("generation", ctx.generation).eq("id", roleId))
+        .unique(),
+    );
     if (role && role.isAppScope) appScoped.add(roleId);
   }
   return appScoped;
 }
 
 async function roleHasPermission(
-  ctx: QueryCtx,
+  ctx: MirrorCtx,
   roleId: string,
   permissionId: string,
 ): Promise<boolean> {
   const row = await ctx.db
     .query("role_permissions")
-    .withIndex("by_role_permission", (q) => q.eq("roleId", roleId).eq("permissionId", permissionId))
+    .withIndex("by_role_permission", (q) =>
+      q.eq("generation", ctx.generation).eq("roleId", roleId).eq("permissionId", permissionId),
+    )
     .unique();
   return row !== null;
 }
 
+// roleHasPermission, but with a cache the role's whole permission set is read
+// once and every later permission tested against it.
+async function roleGrantsPermission(
+  ctx: MirrorCtx,
+  roleId: string,
+  permissionId: string,
+  cache: AccessCache | undefined,
+): Promise<boolean> {
+  if (!cache) return await roleHasPermission(ctx, roleId, permissionId);
+  const permissionIds = await memo(cache, composeKey("role_permissions", roleId), async () => {
+    const rows = await ctx.db
+      .query("role_permissions")
+      .withIndex("by_role", (q) => q.eq("generation", ctx.generation).eq("roleId", roleId))
+      .collect();
+    return new Set(rows.map((row) => row.permissionId));
+  });
+  return permissionIds.has(permissionId);
+}
+
 async function anyRoleHasPermission(
-  ctx: QueryCtx,
+  ctx: MirrorCtx,
   roleIds: Iterable<string>,
   permissionId: string,
+  cache?: AccessCache,
 ): Promise<boolean> {
   for (const roleId of roleIds) {
-    if (await roleHasPermission(ctx, roleId, permissionId)) return true;
+    if (await roleGrantsPermission(ctx, roleId, permissionId, cache)) return true;
   }
   return false;
 }
@@ -207,10 +285,10 @@ function resourceKey(resourceTypeId: string, externalId: string): string {
   return composeKey(resourceTypeId, externalId);
 }
 
-async function resolveResourceTypeIdByKey(ctx: QueryCtx, key: string): Promise<string | null> {
+async function resolveResourceTypeIdByKey(ctx: MirrorCtx, key: string): Promise<string | null> {
   const row = await ctx.db
     .query("resource_types")
-    .withIndex("by_key", (q) => q.eq("key", key))
+    .withIndex("by_key", (q) => q.eq("generation", ctx.generation).eq("key", key))
     .unique();
   return row?.id ?? null;
 }
@@ -229,47 +307,320 @@ async function resolveResourceNode(
     .unique();
 }
 
-// Build the set of (resourceTypeId, externalId) match keys that an assignment
-// may sit on to authorize the target: the target node itself plus every
-// ancestor reached by walking parentId node edges in the `resources` graph.
+// Why a resource-chain walk stopped before reaching a root node.
+export type ResourceChainStop =
+  | "unknown_resource_type"
+  | "dangling_parent"
+  | "cross_tenant_parent"
+  | "cycle"
+  | "max_depth";
+
+export type ResourceChainLink = { resourceTypeId: string; externalId: string; hasNode: boolean };
+
+// Walk parentId node edges upward from the target, target first. Shared by the
+// check (which only needs the match keys) and explainAccess (which also reports
+// where and why the walk stopped).
 //
 // An ancestor is only honored once its node is confirmed to still exist in the
 // same tenant. `resource.delete` intentionally leaves a child's parentId edge
 // dangling (no child cascade), so a stale resource-role assignment on a DELETED
 // ancestor must NOT keep authorizing the child: we stop the walk at the first
 // missing (or cross-tenant) parent.
-async function buildResourceChain(
+export async function walkResourceChain(
   ctx: QueryCtx,
   tenantId: string,
-  resource: { type: string; externalId: string },
-): Promise<Set<string>> {
-  const chain = new Set<string>();
-  const typeId = await resolveResourceTypeIdByKey(ctx, resource.type);
-  // Unknown resource type: no resource-scoped grant is possible.
-  if (typeId === null) return chain;
+  resourceTypeId: string,
+  externalId: string,
+): Promise<{ links: ResourceChainLink[]; stoppedAt?: ResourceChainStop }> {
+  let current = await resolveResourceNode(ctx, tenantId, resourceTypeId, externalId);
   // The target is always authorizable directly: a resource-role assignment on
   // the target grants regardless of whether a node row exists for it.
-  chain.add(resourceKey(typeId, resource.externalId));
-
-  let current = await resolveResourceNode(ctx, tenantId, typeId, resource.externalId);
+  const links: ResourceChainLink[] = [{ resourceTypeId, externalId, hasNode: current !== null }];
   const visited = new Set<string>();
   if (current) visited.add(current.id);
   let depth = 0;
-  while (current && current.parentId !== undefined && depth < MAX_RESOURCE_DEPTH) {
+  while (current && current.parentId !== undefined) {
+    if (depth >= MAX_RESOURCE_DEPTH) return { links, stoppedAt: "max_depth" };
     const parentId: string = current.parentId;
     const parent = await ctx.db
       .query("resources")
       .withIndex("by_resource_id", (q) => q.eq("id", parentId))
       .unique();
-    if (!parent) break; // dangling parent edge (the parent node was deleted)
-    if (parent.tenantId !== tenantId) break; // cross-tenant edge is ignored
-    if (visited.has(parent.id)) break; // cycle guard
+    // dangling parent edge (the parent node was deleted)
+    if (!parent) return { links, stoppedAt: "dangling_parent" };
+    // cross-tenant edge is ignored
+    if (parent.tenantId !== tenantId) return { links, stoppedAt: "cross_tenant_parent" };
+    if (visited.has(parent.id)) return { links, stoppedAt: "cycle" };
     visited.add(parent.id);
-    chain.add(resourceKey(parent.resourceTypeId, parent.externalId));
+    links.push({
+      resourceTypeId: parent.resourceTypeId,
+      externalId: parent.externalId,
+      hasNode: true,
+    });
     current = parent;
     depth += 1;
   }
-  return chain;
+  return { links };
+}
+
+// Build the set of (resourceTypeId, externalId) match keys that an assignment
+// may sit on to authorize the target: the target node itself plus every
+// honored ancestor (see walkResourceChain).
+export async function buildResourceChain(
+  ctx: MirrorCtx,
+  tenantId: string,
+  resource: { type: string; externalId: string },
+): Promise<Set<string>> {
+  const typeId = await resolveResourceTypeIdByKey(ctx, resource.type);
+  // Unknown resource type: no resource-scoped grant is possible.
+  if (typeId === null) return new Set();
+  const { links } = await walkResourceChain(ctx, tenantId, typeId, resource.externalId);
+  return new Set(links.map((link) => resourceKey(link.resourceTypeId, link.externalId)));
+}
+
+// How a membership's authority reaches a permission: `direct` / `group` for a
+// tenant-wide role, `app_scope` for an app-scoped role held via the primary
+// membership, `ancestor` for a resource-role assignment on the resource or one
+// of its ancestors.
+export type GrantSource = "direct" | "group" | "app_scope" | "ancestor";
+
+export type GrantQuery = {
+  tenantId: string;
+  permissionId: string;
+  // The membership in the target tenant, and the PRIMARY-tenant membership
+  // whose app-scoped roles also count (null when the target is the primary).
+  membership: MembershipRow | null;
+  appScopeMembership: MembershipRow | null;
+  // Match keys of the resource chain; absent for a tenant-wide check. Lazy so a
+  // tenant-wide grant never pays for the walk.
+  resourceChain?: () => Promise<Set<string>>;
+  now: number;
+};
+
+// The first path that grants, in evaluation order (direct, group, app_scope,
+// ancestor), or null. The single rule set behind both evaluateAccess and the
+// reverse "who holds this permission" lookup.
+export async function findGrantSource(
+  ctx: MirrorCtx,
+  grant: GrantQuery,
+  cache?: AccessCache,
+): Promise<GrantSource | null> {
+  const { membership, appScopeMembership, permissionId, now } = grant;
+  const active = membership && membership.status === "active" ? membership : null;
+
+  if (active) {
+    // Materialized fast path: a row on record names the assignment behind the
+    // grant, and the grant stands only once that assignment is confirmed live
+    // (confirmMaterializedGrant) - the table points the way, the mirror
+    // decides. Skipped once this invocation holds the membership's
+    // assignments: the walk is then in memory, and a simulation's overlay
+    // lives there.
+    if (!cache?.has(composeKey("role_assignments", active.id))) {
+      const materialized = await memo(
+        cache,
+        composeKey("effective_grant", active.id, permissionId),
+        () =>
+          ctx.db
+            .query("effective_grants")
+            .withIndex("by_membership_permission", (q) =>
+              q.eq("membershipId", active.id).eq("permissionId", permissionId),
+            )
+            .unique(),
+      );
+      if (
+        materialized &&
+        (materialized.expiresAt === undefined || materialized.expiresAt > now) &&
+        (materialized.epoch ?? 0) ===
+          (await memo(cache, "effective_grants_epoch", () => loadGrantsEpoch(ctx))) &&
+        (await confirmMaterializedGrant(ctx, active, materialized, now))
+      ) {
+        return materialized.source;
+      }
+    }
+    const assignments = (await loadTaggedRoleAssignments(ctx, active, cache)).filter(
+      (assignment) => assignment.expiresAt === undefined || assignment.expiresAt > now,
+    );
+    for (const heldVia of ["direct", "group"] as const) {
+      for (const assignment of assignments) {
+        if (assignment.heldVia !== heldVia) continue;
+        if (await roleGrantsPermission(ctx, assignment.roleId, permissionId, cache)) {
+          return heldVia;
+        }
+      }
+    }
+  }
+
+  if (appScopeMembership && appScopeMembership.status === "active") {
+    const appScoped = await collectAppScopedRoleIds(ctx, appScopeMembership, now, cache);
+    if (await anyRoleHasPermission(ctx, appScoped, permissionId, cache)) return "app_scope";
+  }
+
+  // Resource-scoped roles require an active membership in the TARGET tenant
+  // (resource assignments are tenant-local).
+  if (grant.resourceChain && active) {
+    const chain = await grant.resourceChain();
+    const chainRoleIds = await collectChainRoleIds(ctx, grant.tenantId, active, chain, now, cache);
+    if (await anyRoleHasPermission(ctx, chainRoleIds, permissionId, cache)) return "ancestor";
+  }
+
+  return null;
+}
+
+// `assignmentId` is the role assignment behind `source`: a direct one when
+// any direct assignment grants, else a group's.
+export type EffectiveGrant = {
+  source: "direct" | "group";
+  assignmentId: string;
+  expiresAt?: number;
+};
+
+// The generation an effective_grants row must carry to be trusted.
+export async function loadGrantsEpoch(ctx: QueryCtx): Promise<number> {
+  return (await ctx.db.query("effective_grants_epoch").unique())?.epoch ?? 0;
+}
+
+// Re-derives a materialized grant from the live mirror: its assignment still
+// exists, unexpired, for this membership (directly, or through an active group
+// it is still in), and its role still holds the permission. Rows written
+// before assignments were recorded confirm nothing.
+async function confirmMaterializedGrant(
+  ctx: MirrorCtx,
+  membership: MembershipRow,
+  row: Pick<EffectiveGrantRow, "source" | "assignmentId" | "permissionId">,
+  now: number,
+): Promise<boolean> {
+  const { assignmentId } = row;
+  if (assignmentId === undefined) return false;
+  const live = (assignment: { tenantId: string; expiresAt?: number } | null) =>
+    assignment !== null &&
+    assignment.tenantId === membership.tenantId &&
+    (assignment.expiresAt === undefined || assignment.expiresAt > now);
+  let roleId: string;
+  if (row.source === "direct") {
+    const assignment = await ctx.db
+      .query("user_role_assignments")
+      .withIndex("by_assignment_id", (q) =>
+        q.eq("generation", ctx.generation).eq("id", assignmentId),
+      )
+      .unique();
+    if (!live(assignment) || assignment!.membershipId !== membership.id) return false;
+    roleId = assignment!.roleId;
+  } else {
+    const assignment = await ctx.db
+      .query("group_role_assignments")
+      .withIndex("by_assignment_id", (q) =>
+        q.eq("generation", ctx.generation).eq("id", assignmentId),
+      )
+      .unique();
+    if (!live(assignment)) return false;
+    const groupId = assignment!.groupId;
+    const group = await ctx.db
+      .query("groups")
+      .withIndex("by_group_id", (q) => q.eq("generation", ctx.generation).eq("id", groupId))
+      .unique();
+    if (!group || group.status !== "active") return false;
+    const groupMembership = await ctx.db
+      .query("group_memberships")
+      .withIndex("by_group_membership", (q) =>
+        q.eq("generation", ctx.generation).eq("groupId", groupId).eq("membershipId", membership.id),
+      )
+      .unique();
+    if (groupMembership?.tenantId !== membership.tenantId) return false;
+    roleId = assignment!.roleId;
+  }
+  return await roleHasPermission(ctx, roleId, row.permissionId);
+}
+
+// The tenant-wide grants a membership holds, by permission id: the rows of the
+// effective_grants table, derived by the same rules as the direct and group
+// paths of findGrantSource. Expired assignments contribute nothing.
+export async function computeEffectiveGrants(
+  ctx: MirrorCtx,
+  membership: MembershipRow,
+  now: number,
+): Promise<Map<string, EffectiveGrant>> {
+  const grants = new Map<string, EffectiveGrant>();
+  const cache = createAccessCache();
+  for (const assignment of await loadTaggedRoleAssignments(ctx, membership, cache)) {
+    if (assignment.expiresAt !== undefined && assignment.expiresAt <= now) continue;
+    const roleId = assignment.roleId;
+    const rows = await memo(cache, composeKey("role_permission_rows", roleId), () =>
+      ctx.db
+        .query("role_permissions")
+        .withIndex("by_role", (q) => q.eq("generation", ctx.generation).eq("roleId", roleId))
+        .collect(),
+    );
+    for (const { permissionId } of rows) {
+      const held = grants.get(permissionId);
+      const backing =
+        held === undefined || (held.source === "group" && assignment.heldVia === "direct")
+          ? { source: assignment.heldVia, assignmentId: assignment.id }
+          : { source: held.source, assignmentId: held.assignmentId };
+      const expiresAt =
+        held === undefined ? assignment.expiresAt : earliest(held.expiresAt, assignment.expiresAt);
+      grants.set(permissionId, { ...backing, ...(expiresAt === undefined ? {} : { expiresAt }) });
+    }
+  }
+  return grants;
+}
+
+// Earliest of two optional expiries (undefined = never expires).
+function earliest(a: number | undefined, b: number | undefined): number | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Math.min(a, b);
+}
+
+// Every role id any findGrantSource path would consult, for enumerating the
+// permissions a caller holds rather than testing one.
+export async function collectGrantedRoleIds(
+  ctx: MirrorCtx,
+  grant: Omit<GrantQuery, "permissionId">,
+): Promise<Set<string>> {
+  const { membership, appScopeMembership, now } = grant;
+  const active = membership && membership.status === "active" ? membership : null;
+  const roleIds = new Set<string>();
+  if (active) {
+    for (const roleId of await collectMembershipRoleIds(ctx, active, now)) roleIds.add(roleId);
+  }
+  if (appScopeMembership && appScopeMembership.status === "active") {
+    for (const roleId of await collectAppScopedRoleIds(ctx, appScopeMembership, now)) {
+      roleIds.add(roleId);
+    }
+  }
+  if (grant.resourceChain && active) {
+    const chain = await grant.resourceChain();
+    for (const roleId of await collectChainRoleIds(ctx, grant.tenantId, active, chain, now)) {
+      roleIds.add(roleId);
+    }
+  }
+  return roleIds;
+}
+
+// Role ids of the unexpired resource-role assignments (direct or via an active
+// group) an active membership holds on any node of `chain`.
+async function collectChainRoleIds(
+  ctx: MirrorCtx,
+  tenantId: string,
+  membership: MembershipRow,
+  chain: Set<string>,
+  now: number,
+  cache?: AccessCache,
+): Promise<Set<string>> {
+  const roleIds = new Set<string>();
+  const assignments = await memo(
+    cache,
+    composeKey("resource_assignments", membership.id),
+    async () =>
+      collectResourceAssignments(ctx, membership, await collectMembershipGroupIds(ctx, membership)),
+  );
+  for (const assignment of assignments) {
+    if (assignment.tenantId !== tenantId) continue;
+    if (assignment.expiresAt !== undefined && assignment.expiresAt <= now) continue;
+    if (!chain.has(resourceKey(assignment.resourceTypeId, assignment.externalId))) continue;
+    roleIds.add(assignment.roleId);
+  }
+  return roleIds;
 }
 
 // The canonical access check. Allow-only union of tenant-wide and resource-scoped
@@ -278,17 +629,28 @@ async function buildResourceChain(
 export async function evaluateAccess(
   ctx: QueryCtx,
   request: AccessRequest,
+  cache?: AccessCache,
 ): Promise<AccessDecision> {
   if (!request.tokenIdentifier) return deny("missing_identity");
   const token = parseTokenIdentifier(request.tokenIdentifier);
   if (!token) return deny("invalid_identity");
 
-  const state = await ctx.db.query("sync_state").unique();
+  const state = await memo(cache, "sync_state", () => ctx.db.query("sync_state").unique());
   if (!state) return deny("mirror_not_ready");
+  const mirror = atGeneration(ctx, state.generation);
   const sourceVersion = state.sourceVersion;
+  const now = Date.now();
+  if (request.maxMirrorAgeMs !== undefined && now - state.lastSyncedAt > request.maxMirrorAgeMs) {
+    return deny("mirror_stale", sourceVersion);
+  }
   if (token.issuer !== state.expectedIssuer) return deny("unexpected_issuer", sourceVersion);
 
-  const tenant = await resolveTenantRow(ctx, request.tenantId);
+  const tenantId = request.tenantId;
+  const tenant = await memo(
+    cache,
+    tenantId === undefined ? "primary_tenant" : composeKey("tenant", tenantId),
+    () => resolveTenantRow(mirror, tenantId),
+  );
   if (!tenant) return deny("tenant_missing", sourceVersion);
   // A disabled (archived) tenant blocks all access, even for an otherwise-valid
   // membership or an app-scoped role held via the primary tenant.
@@ -296,54 +658,53 @@ export async function evaluateAccess(
 
   // Resolve the permission's canonical row up front: an unknown permission can
   // never be granted, regardless of membership.
-  const permission = await ctx.db
-    .query("permissions")
-    .withIndex("by_key", (q) => q.eq("key", request.permissionKey))
-    .unique();
+  const permission = await memo(cache, composeKey("permission", request.permissionKey), () =>
+    mirror.db
+      .query("permissions")
+      .withIndex("by_key", (q) =>
+        q.eq("generation", mirror.generation).eq("key", request.permissionKey),
+      )
+      .unique(),
+  );
   if (!permission) return deny("permission_missing", sourceVersion);
 
   // The caller's membership in the TARGET tenant and (when different) the
   // PRIMARY tenant. App-scoped authority rides on the primary membership.
-  const primary = await resolvePrimaryTenant(ctx);
-  const membershipT = await resolveMembership(ctx, tenant.id, token.subject);
+  const membershipOf = (id: string) =>
+    memo(cache, composeKey("membership", id, token.subject), () =>
+      resolveMembership(mirror, id, token.subject),
+    );
+  const primary = await memo(cache, "primary_tenant", () => resolvePrimaryTenant(mirror));
+  const membershipT = await membershipOf(tenant.id);
   const membershipP =
-    primary && primary.id !== tenant.id
-      ? await resolveMembership(ctx, primary.id, token.subject)
-      : membershipT;
-
-  const now = Date.now();
+    primary && primary.id !== tenant.id ? await membershipOf(primary.id) : membershipT;
 
-  // Tenant-wide role ids: the target membership's own roles, unioned with the
-  // caller's app-scoped roles held via an ACTIVE primary membership. The
-  // app-scope union is gated only on the primary membership being active and is
-  // skipped when the target tenant IS the primary (no double-counting).
-  const roleIds = new Set<string>();
-  if (membershipT && membershipT.status === "active") {
-    for (const roleId of await collectMembershipRoleIds(ctx, membershipT, now)) roleIds.add(roleId);
-  }
-  if (primary && primary.id !== tenant.id && membershipP && membershipP.status === "active") {
-    for (const roleId of await collectAppScopedRoleIds(ctx, membershipP, now)) roleIds.add(roleId);
-  }
+  const resource = request.resource;
 
-  if (await anyRoleHasPermission(ctx, roleIds, permission.id)) {
-    return allow(sourceVersion, membershipT?.id ?? membershipP?.id);
-  }
-
-  // Resource-scoped roles on the target or any ancestor. These require an active
-  // membership in the TARGET tenant (resource assignments are tenant-local).
-  if (request.resource && membershipT && membershipT.status === "active") {
-    const chain = await buildResourceChain(ctx, tenant.id, request.resource);
-    const groupIds = await collectMembershipGroupIds(ctx, membershipT);
-    const assignments = await collectResourceAssignments(ctx, membershipT, groupIds);
-    for (const assignment of assignments) {
-      if (assignment.tenantId !== tenant.id) continue;
-      if (assignment.expiresAt !== undefined && assignment.expiresAt <= now) continue;
-      if (!chain.has(resourceKey(assignment.resourceTypeId, assignment.externalId))) continue;
-      if (await roleHasPermission(ctx, assignment.roleId, permission.id)) {
-        return allow(sourceVersion, membershipT.id);
-      }
-    }
-  }
+  // Tenant-wide authority from the target membership, unioned with the
+  // caller's app-scoped roles held via an ACTIVE primary membership (skipped
+  // when the target tenant IS the primary: no double-counting), then
+  // resource-scoped roles on the target or any ancestor.
+  const source = await findGrantSource(
+    mirror,
+    {
+      tenantId: tenant.id,
+      permissionId: permission.id,
+      membership: membershipT,
+      appScopeMembership: primary && primary.id !== tenant.id ? membershipP : null,
+      ...(resource === undefined
+        ? {}
+        : {
+            resourceChain: () =>
+              memo(cache, composeKey("chain", tenant.id, resource.type, resource.externalId), () =>
+                buildResourceChain(mirror, tenant.id, resource),
+              ),
+          }),
+      now,
+    },
+    cache,
+  );
+  if (source !== null) return allow(sourceVersion, membershipT?.id ?? membershipP?.id);
 
   // Implicit deny, reported against the target-tenant membership state.
   if (!membershipT) return deny("membership_missing", sourceVersion, membershipP?.id);
@@ -354,19 +715,23 @@ export async function evaluateAccess(
 }
 
 async function collectMembershipGroupIds(
-  ctx: QueryCtx,
+  ctx: MirrorCtx,
   membership: MembershipRow,
 ): Promise<string[]> {
   const groupMemberships = await ctx.db
     .query("group_memberships")
-    .withIndex("by_membership", (q) => q.eq("membershipId", membership.id))
+    .withIndex("by_membership", (q) =>
+      q.eq("generation", ctx.generation).eq("membershipId", membership.id),
+    )
     .collect();
   const groupIds: string[] = [];
   for (const groupMembership of groupMemberships) {
     if (groupMembership.tenantId !== membership.tenantId) continue;
     const group = await ctx.db
       .query("groups")
-      .withIndex("by_group_id", (q) => q.eq("id", groupMembership.groupId))
+      .withIndex("by_group_id", (q) =>
+        q.eq("generation", ctx.generation).eq("id", groupMembership.groupId),
+      )
       .unique();
     if (group && group.status === "active") groupIds.push(group.id);
   }
@@ -374,23 +739,448 @@ async function collectMembershipGroupIds(
 }
 
 async function collectResourceAssignments(
-  ctx: QueryCtx,
+  ctx: MirrorCtx,
   membership: MembershipRow,
   groupIds: string[],
 ): Promise<ResourceAssignmentRow[]> {
   const direct = await ctx.db
     .query("user_resource_role_assignments")
-    .withIndex("by_membership", (q) => q.eq("membershipId", membership.id))
+    .withIndex("by_membership", (q) =>
+      q.eq("generation", ctx.generation).eq("membershipId", membership.id),
+    )
     .collect();
   const fromGroups = (
     await Promise.all(
       groupIds.map((groupId) =>
         ctx.db
           .query("group_resource_role_assignments")
-          .withIndex("by_group", (q) => q.eq("groupId", groupId))
+          .withIndex("by_group", (q) => q.eq("generation", ctx.generation).eq("groupId", groupId))
           .collect(),
       ),
     )
   ).flat();
   return [...direct, ...fromGroups];
 }
+
+type RoleRow = DataModel["roles"]["document"];
+
+export type ExplainedMembership = {
+  id: string;
+  tenantId: string;
+  status: MembershipRow["status"];
+};
+
+// One tenant-wide role assignment the check considered. `app_scope` marks an
+// app-scoped role held via the caller's PRIMARY-tenant membership (directly or
+// through `groupId`).
+export type ExplainedRoleAssignment = {
+  assignmentId: string;
+  roleId: string;
+  roleKey?: string;
+  heldVia: "direct" | "group" | "app_scope";
+  groupId?: string;
+  expiresAt?: number;
+  grantsPermission: boolean;
+};
+
+// One resource-role assignment held by the target membership. `chainDepth` is
+// the assignment's position in the resource chain (0 = the target, 1 = its
+// parent, ...), absent when the assignment sits off the chain. `resource.type`
+// is null when the resource type is no longer in the mirror.
+export type ExplainedResourceAssignment = {
+  assignmentId: string;
+  roleId: string;
+  roleKey?: string;
+  heldVia: "direct" | "group";
+  groupId?: string;
+  resource: { type: string | null; externalId: string };
+  expiresAt?: number;
+  chainDepth?: number;
+  grantsPermission: boolean;
+};
+
+// An assignment ignored because its `expiresAt` has passed.
+export type ExpiredAssignment = {
+  assignmentId: string;
+  roleId: string;
+  roleKey?: string;
+  heldVia: "direct" | "group" | "app_scope";
+  groupId?: string;
+  resource?: { type: string | null; externalId: string };
+  expiresAt: number;
+  grantsPermission: boolean;
+};
+
+export type AccessExplanation = {
+  decision: AccessDecision;
+  tenantId?: string;
+  // The caller's membership in the target tenant, and in the primary tenant
+  // when that is a different tenant (the carrier of app-scoped roles).
+  membership?: ExplainedMembership;
+  primaryMembership?: ExplainedMembership;
+  roles: ExplainedRoleAssignment[];
+  // Present for resource-scoped checks once the target membership is active.
+  // `chain` runs from the target up through every honored ancestor; `type` is
+  // null when an ancestor's resource type is no longer in the mirror.
+  resource?: {
+    chain: { type: string | null; externalId: string; hasNode: boolean }[];
+    stoppedAt?: ResourceChainStop;
+    assignments: ExplainedResourceAssignment[];
+  };
+  // The first assignment that granted the permission, in evaluation order.
+  grantedBy?:
+    | { scope: "tenant"; assignment: ExplainedRoleAssignment }
+    | { scope: "resource"; assignment: ExplainedResourceAssignment };
+  expired: ExpiredAssignment[];
+};
+
+type TaggedRoleAssignment = {
+  id: string;
+  roleId: string;
+  heldVia: "direct" | "group";
+  groupId?: string;
+  expiresAt?: number;
+};
+
+// Tagged variant of `collectMembershipRoleIds`: the same tenant and
+// group-active rules, but keeps each assignment (expired ones included) along
+// with where it came from.
+async function collectTaggedRoleAssignments(
+  ctx: MirrorCtx,
+  membership: MembershipRow,
+): Promise<TaggedRoleAssignment[]> {
+  const tagged: TaggedRoleAssignment[] = [];
+  const directAssignments = await ctx.db
+    .query("user_role_assignments")
+    .withIndex("by_membership", (q) =>
+      q.eq("generation", ctx.generation).eq("membershipId", membership.id),
+    )
+    .collect();
+  for (const assignment of directAssignments) {
+    if (assignment.tenantId !== membership.tenantId) continue;
+    tagged.push({
+      id: assignment.id,
+      roleId: assignment.roleId,
+      heldVia: "direct",
+      ...(assignment.expiresAt === undefined ? {} : { expiresAt: assignment.expiresAt }),
+    });
+  }
+  for (const groupId of await collectMembershipGroupIds(ctx, membership)) {
+    const groupAssignments = await ctx.db
+      .query("group_role_assignments")
+      .withIndex("by_group", (q) => q.eq("generation", ctx.generation).eq("groupId", groupId))
+      .collect();
+    for (const assignment of groupAssignments) {
+      if (assignment.tenantId !== membership.tenantId) continue;
+      tagged.push({
+        id: assignment.id,
+        roleId: assignment.roleId,
+        heldVia: "group",
+        groupId,
+        ...(assignment.expiresAt === undefined ? {} : { expiresAt: assignment.expiresAt }),
+      });
+    }
+  }
+  return tagged;
+}
+
+function loadTaggedRoleAssignments(
+  ctx: MirrorCtx,
+  membership: MembershipRow,
+  cache: AccessCache | undefined,
+): Promise<TaggedRoleAssignment[]> {
+  return memo(cache, composeKey("role_assignments", membership.id), () =>
+    collectTaggedRoleAssignments(ctx, membership),
+  );
+}
+
+function explainMembership(membership: MembershipRow): ExplainedMembership {
+  return { id: membership.id, tenantId: membership.tenantId, status: membership.status };
+}
+
+// The full derivation behind a check: which memberships were used, every role
+// and resource-role assignment considered (and whether it carries the
+// permission), the resource chain walked, and the assignments skipped as
+// expired. The decision itself always comes from `evaluateAccess`, so an
+// explanation can never disagree with `check`; the derivation re-reads the
+// same rows and stops where the evaluator stops (an identity, mirror, tenant,
+// or permission gate leaves only the decision).
+export async function explainAccess(
+  ctx: QueryCtx,
+  request: AccessRequest,
+): Promise<AccessExplanation> {
+  const decision = await evaluateAccess(ctx, request);
+  const explanation: AccessExplanation = { decision, roles: [], expired: [] };
+
+  const token = request.tokenIdentifier ? parseTokenIdentifier(request.tokenIdentifier) : null;
+  if (!token) return explanation;
+  const state = await ctx.db.query("sync_state").unique();
+  if (!state || token.issuer !== state.expectedIssuer) return explanation;
+  const mirror = atGeneration(ctx, state.generation);
+  const tenant = await resolveTenantRow(mirror, request.tenantId);
+  if (!tenant) return explanation;
+  explanation.tenantId = tenant.id;
+  if (tenant.status !== "active") return explanation;
+  const permission = await mirror.db
+    .query("permissions")
+    .withIndex("by_key", (q) =>
+      q.eq("generation", mirror.generation).eq("key", request.permissionKey),
+    )
+    .unique();
+  if (!permission) return explanation;
+
+  const primary = await resolvePrimaryTenant(mirror);
+  const membershipT = await resolveMembership(mirror, tenant.id, token.subject);
+  const membershipP =
+    primary && primary.id !== tenant.id
+      ? await resolveMembership(mirror, primary.id, token.subject)
+      : membershipT;
+  if (membershipT) explanation.membership = explainMembership(membershipT);
+  if (primary && primary.id !== tenant.id && membershipP) {
+    explanation.primaryMembership = explainMembership(membershipP);
+  }
+
+  const now = Date.now();
+  const roleRows = new Map<string, RoleRow | null>();
+  const lookupRole = async (roleId: string): Promise<RoleRow | null> => {
+    if (!roleRows.has(roleId)) {
+      const role = await mirror.db
+        .query("roles")
+        .withIndex("by_role_id", (q) => q.eq("generation", mirror.generation).eq("id", roleId))
+        .unique();
+      roleRows.set(roleId, role);
+    }
+    return roleRows.get(roleId) ?? null;
+  };
+  const typeKeys = new Map<string, string | null>();
+  const lookupTypeKey = async (resourceTypeId: string): Promise<string | null> => {
+    if (!typeKeys.has(resourceTypeId)) {
+      const row = await mirror.db
+        .query("resource_types")
+        .withIndex("by_resource_type_id", (q) =>
+          q.eq("generation", mirror.generation).eq("id", resourceTypeId),
+        )
+        .unique();
+      typeKeys.set(resourceTypeId, row?.key ?? null);
+    }
+    return typeKeys.get(resourceTypeId) ?? null;
+  };
+
+  const considerRole = async (
+    assignment: TaggedRoleAssignment,
+    heldVia: ExplainedRoleAssignment["heldVia"],
+  ) => {
+    const role = await lookupRole(assignment.roleId);
+    const explained: ExplainedRoleAssignment = {
+      assignmentId: assignment.id,
+      roleId: assignment.roleId,
+      ...(role ? { roleKey: role.key } : {}),
+      heldVia,
+      ...(assignment.groupId === undefined ? {} : { groupId: assignment.groupId }),
+      ...(assignment.expiresAt === undefined ? {} : { expiresAt: assignment.expiresAt }),
+      grantsPermission: await roleHasPermission(mirror, assignment.roleId, permission.id),
+    };
+    if (explained.expiresAt !== undefined && explained.expiresAt <= now) {
+      explanation.expired.push({ ...explained, expiresAt: explained.expiresAt });
+      return;
+    }
+    explanation.roles.push(explained);
+    if (explained.grantsPermission && !explanation.grantedBy) {
+      explanation.grantedBy = { scope: "tenant", assignment: explained };
+    }
+  };
+
+  if (membershipT && membershipT.status === "active") {
+    for (const assignment of await collectTaggedRoleAssignments(mirror, membershipT)) {
+      await considerRole(assignment, assignment.heldVia);
+    }
+  }
+  if (primary && primary.id !== tenant.id && membershipP && membershipP.status === "active") {
+    for (const assignment of await collectTaggedRoleAssignments(mirror, membershipP)) {
+      const role = await lookupRole(assignment.roleId);
+      if (role && role.isAppScope) await considerRole(assignment, "app_scope");
+    }
+  }
+
+  if (request.resource && membershipT && membershipT.status === "active") {
+    const typeId = await resolveResourceTypeIdByKey(mirror, request.resource.type);
+    const walk =
+      typeId === null
+        ? { links: [], stoppedAt: "unknown_resource_type" as const }
+        : await walkResourceChain(mirror, tenant.id, typeId, request.resource.externalId);
+    const depthByKey = new Map(
+      walk.links.map((link, depth) => [resourceKey(link.resourceTypeId, link.externalId), depth]),
+    );
+    const section: NonNullable<AccessExplanation["resource"]> = {
+      chain: [],
+      ...(walk.stoppedAt === undefined ? {} : { stoppedAt: walk.stoppedAt }),
+      assignments: [],
+    };
+    for (const link of walk.links) {
+      section.chain.push({
+        type: await lookupTypeKey(link.resourceTypeId),
+        externalId: link.externalId,
+        hasNode: link.hasNode,
+      });
+    }
+
+    const groupIds = await collectMembershipGroupIds(mirror, membershipT);
+    for (const assignment of await collectResourceAssignments(mirror, membershipT, groupIds)) {
+      if (assignment.tenantId !== tenant.id) continue;
+      // A type gone from the mirror still matches by id in the check, so the
+      // assignment is reported with a null type rather than dropped.
+      const type = await lookupTypeKey(assignment.resourceTypeId);
+      const role = await lookupRole(assignment.roleId);
+      const chainDepth = depthByKey.get(
+        resourceKey(assignment.resourceTypeId, assignment.externalId),
+      );
+      const base = {
+        assignmentId: assignment.id,
+        roleId: assignment.roleId,
+        ...(role ? { roleKey: role.key } : {}),
+        ...("groupId" in assignment
+          ? { heldVia: "group" as const, groupId: assignment.groupId }
+          : { heldVia: "direct" as const }),
+        resource: { type, externalId: assignment.externalId },
+        grantsPermission: await roleHasPermission(mirror, assignment.roleId, permission.id),
+      };
+      if (assignment.expiresAt !== undefined && assignment.expiresAt <= now) {
+        explanation.expired.push({ ...base, expiresAt: assignment.expiresAt });
+        continue;
+      }
+      const explained: ExplainedResourceAssignment = {
+        ...base,
+        ...(assignment.expiresAt === undefined ? {} : { expiresAt: assignment.expiresAt }),
+        ...(chainDepth === undefined ? {} : { chainDepth }),
+      };
+      section.assignments.push(explained);
+      if (chainDepth !== undefined && explained.grantsPermission && !explanation.grantedBy) {
+        explanation.grantedBy = { scope: "resource", assignment: explained };
+      }
+    }
+    explanation.resource = section;
+  }
+
+  return explanation;
+}
+
+// ── what-if simulation ──────────────────────────────────────────────────────────
+// Hypothetical assignment changes for one membership. An added assignment is
+// the membership's own (no `groupId`) or one of its active groups'; it is
+// tenant-wide, or on `resource`. Removals name existing assignment ids of
+// either kind.
+export type AssignmentOverlay = {
+  add: Array<{
+    roleId: string;
+    groupId?: string;
+    resource?: { type: string; externalId: string };
+    expiresAt?: number;
+  }>;
+  remove: string[];
+};
+
+export type SimulationCheck = {
+  permission: string;
+  resource?: { type: string; externalId: string };
+};
+
+export type SimulatedCheck = SimulationCheck & { before: AccessDecision; after: AccessDecision };
+
+// Each check evaluated as the membership's user in its tenant, against the
+// mirror as it is (`before`) and with `overlay` applied (`after`). Reads only:
+// the overlay is seeded into the access cache that evaluateAccess consults for
+// the membership's assignments, so the rules stay those of a real check.
+export async function simulateAccess(
+  ctx: QueryCtx,
+  membershipId: string,
+  overlay: AssignmentOverlay,
+  checks: SimulationCheck[],
+): Promise<SimulatedCheck[]> {
+  const state = await ctx.db.query("sync_state").unique();
+  const mirror = atGeneration(ctx, state?.generation);
+  const membership = await mirror.db
+    .query("tenant_memberships")
+    .withIndex("by_membership_id", (q) =>
+      q.eq("generation", mirror.generation).eq("id", membershipId),
+    )
+    .unique();
+  if (!state || !membership) {
+    const decision = deny(state ? "membership_missing" : "mirror_not_ready", state?.sourceVersion);
+    return checks.map((check) => ({ ...check, before: decision, after: decision }));
+  }
+
+  const tokenIdentifier = `${state.expectedIssuer}|${membership.userId}`;
+  const before = createAccessCache();
+  const after = await overlaidAccessCache(mirror, membership, overlay);
+  const results: SimulatedCheck[] = [];
+  for (const check of checks) {
+    const request: AccessRequest = {
+      tokenIdentifier,
+      tenantId: membership.tenantId,
+      permissionKey: check.permission,
+      ...(check.resource === undefined ? {} : { resource: check.resource }),
+    };
+    results.push({
+      ...check,
+      before: await evaluateAccess(ctx, request, before),
+      after: await evaluateAccess(ctx, request, after),
+    });
+  }
+  return results;
+}
+
+async function overlaidAccessCache(
+  ctx: MirrorCtx,
+  membership: MembershipRow,
+  overlay: AssignmentOverlay,
+): Promise<AccessCache> {
+  const removed = new Set(overlay.remove);
+  const groupIds = await collectMembershipGroupIds(ctx, membership);
+  const roleAssignments = (await collectTaggedRoleAssignments(ctx, membership)).filter(
+    (assignment) => !removed.has(assignment.id),
+  );
+  const resourceAssignments: Array<
+    Pick<ResourceAssignmentRow, "id" | "tenantId" | "roleId" | "resourceTypeId" | "externalId"> & {
+      expiresAt?: number;
+    }
+  > = (await collectResourceAssignments(ctx, membership, groupIds)).filter(
+    (assignment) => !removed.has(assignment.id),
+  );
+
+  for (const [index, assignment] of overlay.add.entries()) {
+    const { groupId, resource, expiresAt } = assignment;
+    // A group the membership is not an active member of grants it nothing.
+    if (groupId !== undefined && !groupIds.includes(groupId)) continue;
+    const id = `simulated:${index}`;
+    const expiry = expiresAt === undefined ? {} : { expiresAt };
+    if (resource === undefined) {
+      roleAssignments.push({
+        id,
+        roleId: assignment.roleId,
+        ...(groupId === undefined
+          ? { heldVia: "direct" as const }
+          : { heldVia: "group" as const, groupId }),
+        ...expiry,
+      });
+      continue;
+    }
+    const resourceTypeId = await resolveResourceTypeIdByKey(ctx, resource.type);
+    if (resourceTypeId === null) continue;
+    resourceAssignments.push({
+      id,
+      tenantId: membership.tenantId,
+      roleId: assignment.roleId,
+      resourceTypeId,
+      externalId: resource.externalId,
+      ...expiry,
+    });
+  }
+
+  const cache = createAccessCache();
+  cache.set(composeKey("role_assignments", membership.id), Promise.resolve(roleAssignments));
+  cache.set(
+    composeKey("resource_assignments", membership.id),
+    Promise.resolve(resourceAssignments),
+  );
+  return cache;
+}
@@ -1,6 +1,12 @@
 import { queryGeneric, type DataModelFromSchemaDefinition, type QueryBuilder } from "convex/server";
 import { v } from "convex/values";
-import { evaluateAccess, type AccessRequest } from "./access";
+import {
+  createAccessCache,
+  evaluateAccess,
+  explainAccess,
+  simulateAccess,
+  type AccessRequest,
+} from "./access";
 import type schema from "./schema";
 
 type DataModel = DataModelFromSchemaDefinition<typeof schema>;
@@ -16,49 +22,114 @@ const checkInputValidator = v.object({
   resource: v.optional(resourceValidator),
 });
 
+const simulatedAssignmentValidator = v.object({
+  roleId: v.string(),
+  groupId: v.optional(v.string()),
+  resource: v.optional(resourceValidator),
+  expiresAt: v.optional(v.number()),
+});
+
 function toRequest(
   tokenIdentifier: string | undefined,
   input: { tenantId?: string; permission: string; resource?: { type: string; externalId: string } },
+  maxMirrorAgeMs?: number,
 ): AccessRequest {
   return {
     ...(tokenIdentifier === undefined ? {} : { tokenIdentifier }),
     ...(input.tenantId === undefined ? {} : { tenantId: input.tenantId }),
     permissionKey: input.permission,
     ...(input.resource === undefined ? {} : { resource: input.resource }),
+    ...(maxMirrorAgeMs === undefined ? {} : { maxMirrorAgeMs }),
   };
 }
 
 // Single permission check. `tenantId` omitted resolves to the primary tenant.
+// `maxMirrorAgeMs` opts into failing closed on a stale mirror.
 export const check = query({
   args: {
     tokenIdentifier: v.optional(v.string()),
     tenantId: v.optional(v.string()),
     permission: v.string(),
     resource: v.optional(resourceValidator),
+    maxMirrorAgeMs: v.optional(v.number()),
   },
   handler: async (ctx, args) =>
     evaluateAccess(
       ctx,
-      toRequest(args.tokenIdentifier, {
-        ...(args.tenantId === undefined ? {} : { tenantId: args.tenantId }),
-        permission: args.permission,
-        ...(args.resource === undefined ? {} : { resource: args.resource }),
-      }),
+      toRequest(
+        args.tokenIdentifier,
+        {
+          ...(args.tenantId === undefined ? {} : { tenantId: args.tenantId }),
+          permission: args.permission,
+          ...(args.resource === undefined ? {} : { resource: args.resource }),
+        },
+        args.maxMirrorAgeMs,
+      ),
     ),
 });
 
 // Batched checks, sharing one identity. Used to access-scope a page of app rows.
+// One access cache for the batch: the caller's memberships and roles are
+// expanded once, not once per check.
 export const checkMany = query({
   args: {
     tokenIdentifier: v.optional(v.string()),
     checks: v.array(checkInputValidator),
+    maxMirrorAgeMs: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     if (args.checks.length > 100) {
       throw new Error("checkMany accepts at most 100 checks");
     }
+    const cache = createAccessCache();
     return await Promise.all(
-      args.checks.map((input) => evaluateAccess(ctx, toRequest(args.tokenIdentifier, input))),
+      args.checks.map((input) =>
+        evaluateAccess(ctx, toRequest(args.tokenIdentifier, input, args.maxMirrorAgeMs), cache),
+      ),
+    );
+  },
+});
+
+// The single check plus its full derivation (memberships, roles and their
+// sources, the resource chain, expired assignments). For support tooling and
+// debugging; enforcement paths use `check`.
+export const explain = query({
+  args: {
+    tokenIdentifier: v.optional(v.string()),
+    tenantId: v.optional(v.string()),
+    permission: v.string(),
+    resource: v.optional(resourceValidator),
+  },
+  handler: async (ctx, args) =>
+    explainAccess(
+      ctx,
+      toRequest(args.tokenIdentifier, {
+        ...(args.tenantId === undefined ? {} : { tenantId: args.tenantId }),
+        permission: args.permission,
+        ...(args.resource === undefined ? {} : { resource: args.resource }),
+      }),
+    ),
+});
+
+// What-if preview for admin tooling: each check as the membership's user,
+// before and after hypothetical assignment adds/removals. TRUSTED (no caller
+// identity); writes nothing.
+export const simulate = query({
+  args: {
+    membershipId: v.string(),
+    addAssignments: v.optional(v.array(simulatedAssignmentValidator)),
+    removeAssignments: v.optional(v.array(v.string())),
+    checks: v.array(v.object({ permission: v.string(), resource: v.optional(resourceValidator) })),
+  },
+  handler: async (ctx, args) => {
+    if (args.checks.length > 100) {
+      throw new Error("simulate accepts at most 100 checks");
+    }
+    return await simulateAccess(
+      ctx,
+      args.membershipId,
+      { add: args.addAssignments ?? [], remove: args.removeAssignments ?? [] },
+      args.checks,
     );
   },
 });
@@ -13,9 +13,20 @@ import { v } from "convex/values";
 //   });
 //
 // Declaring it here as required makes a missing binding fail loudly at deploy
-// time rather than silently rejecting every sync at runtime.
+// time rather than silently rejecting every sync at runtime. To rotate the
+// secret, bind the new one as HERCULES_SYNC_SECRET_NEXT (or list both, comma
+// separated, in HERCULES_SYNC_SECRET): deliveries verify against any of them.
+// The optional tuning variables are bound the same way when the app sets them:
+//
+//   env: {
+//     HERCULES_SYNC_SECRET: app.env.HERCULES_SYNC_SECRET,
+//     HERCULES_SYNC_LOG_RETENTION_DAYS: app.env.HERCULES_SYNC_LOG_RETENTION_DAYS,
+//   },
 export default defineComponent("hercules", {
   env: {
     HERCULES_SYNC_SECRET: v.string(),
+    HERCULES_SYNC_SECRET_NEXT: v.optional(v.string()),
+    HERCULES_SYNC_REPLAY_WINDOW_SECONDS: v.optional(v.string()),
+    HERCULES_SYNC_LOG_RETENTION_DAYS: v.optional(v.string()),
   },
 });
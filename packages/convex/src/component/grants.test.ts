@@ -0,0 +1,274 @@
+import type { DataModelFromSchemaDefinition, GenericMutationCtx } from "convex/server";
+import { convexTest } from "convex-test";
+import { makeFunctionReference } from "convex/server";
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { evaluateAccess } from "./access";
+import schema from "./schema";
+import { componentModules } from "../../test/component-modules";
+import { createFakeControlPlane, type ControlPlaneFixture } from "../testing";
+
+type DataModel = DataModelFromSchemaDefinition<typeof schema>;
+type Ctx = GenericMutationCtx<DataModel>;
+
+const applyProjection = makeFunctionReference<"mutation">("sync:applyProjection");
+
+const USERS = ["alice", "bob", "carol"];
+const PERMISSIONS = ["doc:read", "doc:edit"];
+
+const fixture: ControlPlaneFixture = {
+  tenants: [{ id: "acme" }],
+  roles: [
+    { key: "viewer", permissions: ["doc:read"] },
+    { key: "editor", permissions: ["doc:read", "doc:edit"] },
+  ],
+  memberships: [
+    { tenant: "acme", user: "alice", roles: ["editor"] },
+    { tenant: "acme", user: "bob" },
+    { tenant: "acme", user: "carol", status: "suspended", roles: ["viewer"] },
+  ],
+  groups: [{ id: "g1", tenant: "acme", members: ["bob"], roles: ["viewer"] }],
+  assignments: [{ tenant: "acme", group: "g1", role: "editor", expiresAt: 50_000 }],
+};
+
+// The materialized rows as "user permission source[@expiresAt]".
+async function grantRows(ctx: Ctx): Promise<string[]> {
+  const rows: string[] = [];
+  for (const row of await ctx.db.query("effective_grants").collect()) {
+    const membership = await ctx.db
+      .query("tenant_memberships")
+      .withIndex("by_membership_id", (q) =>
+        q.eq("generation", undefined).eq("id", row.membershipId),
+      )
+      .unique();
+    const permission = await ctx.db
+      .query("permissions")
+      .withIndex("by_permission_id", (q) =>
+        q.eq("generation", undefined).eq("id", row.permissionId),
+      )
+      .unique();
+    const expiry = row.expiresAt === undefined ? "" : `@${row.expiresAt}`;
+    rows.push(`${membership?.userId} ${permission?.key} ${row.source}${expiry}`);
+  }
+  return rows.sort();
+}
+
+// Every user x permission decision, through the table and then through the
+// full walk with the table emptied (restored before returning).
+async function decisions(ctx: Ctx, issuer: string) {
+  const decide = async () => {
+    const results: string[] = [];
+    for (const user of USERS) {
+      for (const permissionKey of PERMISSIONS) {
+        const decision = await evaluateAccess(ctx, {
+          tokenIdentifier: `${issuer}|${user}`,
+          permissionKey,
+        });
+        results.push(`${user} ${permissionKey} ${decision.reasonCode}`);
+      }
+    }
+    return results;
+  };
+  const rows = await ctx.db.query("effective_grants").collect();
+  const materialized = await decide();
+  for (const row of rows) await ctx.db.delete(row._id);
+  const walked = await decide();
+  for (const { _id, _creationTime, ...row } of rows) await ctx.db.insert("effective_grants", row);
+  return { materialized, walked };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("effective grants", () => {
+  test("stay in step with the access walk as the mirror changes", async () => {
+    vi.useFakeTimers({ now: 1_000 });
+    const t = convexTest(schema, componentModules);
+    const controlPlane = createFakeControlPlane(fixture);
+    const expectInStep = async () => {
+      const { materialized, walked } = await t.run((ctx) => decisions(ctx, controlPlane.issuer));
+      expect(materialized).toEqual(walked);
+    };
+
+    // The snapshot schedules the rebuild; until it runs, checks take the walk.
+    await t.mutation(applyProjection, controlPlane.snapshot());
+    expect(await t.run(grantRows)).toEqual([]);
+    await expectInStep();
+    vi.advanceTimersByTime(0);
+    await t.finishInProgressScheduledFunctions();
+    expect(await t.run(grantRows)).toEqual([
+      "alice doc:edit direct",
+      "alice doc:read direct",
+      "bob doc:edit group@50000",
+      "bob doc:read group@50000",
+      "carol doc:read direct",
+    ]);
+    await expectInStep();
+
+    // Revoking a role permission drops it from every holder.
+    await t.mutation(
+      applyProjection,
+      controlPlane.update({
+        ...fixture,
+        roles: [
+          { key: "viewer", permissions: ["doc:read"] },
+          { key: "editor", permissions: ["doc:read"] },
+        ],
+        permissions: ["doc:edit"],
+      }),
+    );
+    expect(await t.run(grantRows)).toEqual([
+      "alice doc:read direct",
+      "bob doc:read group@50000",
+      "carol doc:read direct",
+    ]);
+    await expectInStep();
+
+    // The group's editor assignment lapses; bob keeps viewer through the group.
+    vi.setSystemTime(60_000);
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(await t.run(grantRows)).toContain("bob doc:read group");
+    await expectInStep();
+
+    // Leaving the group takes its grants with it.
+    await t.mutation(
+      applyProjection,
+      controlPlane.update({
+        ...fixture,
+        roles: [
+          { key: "viewer", permissions: ["doc:read"] },
+          { key: "editor", permissions: ["doc:read"] },
+        ],
+        permissions: ["doc:edit"],
+        groups: [{ id: "g1", tenant: "acme", members: [], roles: ["viewer"] }],
+        assignments: [],
+      }),
+    );
+    expect(await t.run(grantRows)).toEqual(["alice doc:read direct", "carol doc:read direct"]);
+    await expectInStep();
+  });
+
+  test("a role held past one batch is invalidated in place and rebuilt in the background", async () => {
+    vi.useFakeTimers({ now: 1_000 });
+    const t = convexTest(schema, componentModules);
+    const members = Array.from({ length: 150 }, (_, i) => `user${i}`);
+    const wide: ControlPlaneFixture = {
+      tenants: [{ id: "acme" }],
+      roles: [{ key: "editor", permissions: ["doc:read", "doc:edit"] }],
+      memberships: members.map((user) => ({ tenant: "acme", user, roles: ["editor"] })),
+    };
+    const controlPlane = createFakeControlPlane(wide);
+    const decide = (user: string, permissionKey: string) =>
+      t.run((ctx) =>
+        evaluateAccess(ctx, { tokenIdentifier: `${controlPlane.issuer}|${user}`, permissionKey }),
+      );
+    await t.mutation(applyProjection, controlPlane.snapshot());
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(await t.run(grantRows)).toHaveLength(300);
+
+    await t.mutation(
+      applyProjection,
+      controlPlane.update({
+        ...wide,
+        roles: [{ key: "editor", permissions: ["doc:read"] }],
+        permissions: ["doc:edit"],
+      }),
+    );
+    // The stale rows are still there, but no longer trusted.
+    expect(await t.run(grantRows)).toContain("user149 doc:edit direct");
+    expect(await decide("user149", "doc:edit")).toMatchObject({ allowed: false });
+    expect(await decide("user149", "doc:read")).toMatchObject({ allowed: true });
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(await t.run(grantRows)).toEqual(members.map((user) => `${user} doc:read direct`).sort());
+    const { epochs, current } = await t.run(async (ctx) => ({
+      epochs: (await ctx.db.query("effective_grants").collect()).map((row) => row.epoch),
+      current: (await ctx.db.query("effective_grants_epoch").unique())?.epoch,
+    }));
+    expect(new Set(epochs)).toEqual(new Set([current]));
+  });
+
+  test("a reset snapshot retires the rows by epoch until the rebuild replaces them", async () => {
+    vi.useFakeTimers({ now: 1_000 });
+    const t = convexTest(schema, componentModules);
+    const controlPlane = createFakeControlPlane(fixture);
+    await t.mutation(applyProjection, controlPlane.snapshot());
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    const before = await t.run(grantRows);
+
+    await t.mutation(applyProjection, controlPlane.reset());
+    // Still on record until the rebuild sweeps them, but no longer in use.
+    expect(await t.run(grantRows)).toEqual(before);
+    const { materialized, walked } = await t.run((ctx) => decisions(ctx, controlPlane.issuer));
+    expect(materialized).toEqual(walked);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(await t.run(grantRows)).toEqual(before);
+  });
+
+  test("a row the mirror no longer backs does not grant", async () => {
+    vi.useFakeTimers({ now: 1_000 });
+    const t = convexTest(schema, componentModules);
+    const controlPlane = createFakeControlPlane({
+      tenants: [{ id: "acme" }],
+      roles: [{ key: "editor", permissions: ["doc:edit"] }],
+      memberships: [
+        { tenant: "acme", user: "alice", roles: ["editor"] },
+        { tenant: "acme", user: "bob" },
+      ],
+    });
+    await t.mutation(applyProjection, controlPlane.snapshot());
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    const decide = (user: string) =>
+      t.run((ctx) =>
+        evaluateAccess(ctx, {
+          tokenIdentifier: `${controlPlane.issuer}|${user}`,
+          permissionKey: "doc:edit",
+        }),
+      );
+    expect(await decide("alice")).toMatchObject({ allowed: true });
+
+    // A missed refresh: alice's assignment goes, her row stays; and a row is
+    // copied onto bob, who holds nothing.
+    await t.run(async (ctx) => {
+      const row = (await ctx.db.query("effective_grants").collect())[0]!;
+      const bob = await ctx.db
+        .query("tenant_memberships")
+        .withIndex("by_tenant_user", (q) =>
+          q.eq("generation", undefined).eq("tenantId", row.tenantId).eq("userId", "bob"),
+        )
+        .unique();
+      const { _id, _creationTime, ...copy } = row;
+      await ctx.db.insert("effective_grants", { ...copy, membershipId: bob!.id });
+      for (const assignment of await ctx.db.query("user_role_assignments").collect()) {
+        await ctx.db.delete(assignment._id);
+      }
+    });
+    expect(await decide("alice")).toMatchObject({ allowed: false });
+    expect(await decide("bob")).toMatchObject({ allowed: false });
+  });
+
+  test("an expired row is not trusted before its assignment lapses", async () => {
+    vi.useFakeTimers({ now: 1_000 });
+    const t = convexTest(schema, componentModules);
+    const controlPlane = createFakeControlPlane({
+      tenants: [{ id: "acme" }],
+      roles: [{ key: "editor", permissions: ["doc:edit"] }],
+      memberships: [{ tenant: "acme", user: "alice" }],
+      assignments: [{ tenant: "acme", user: "alice", role: "editor", expiresAt: 50_000 }],
+    });
+    await t.mutation(applyProjection, controlPlane.snapshot());
+    vi.advanceTimersByTime(0);
+    await t.finishInProgressScheduledFunctions();
+
+    // Past expiresAt, but the scheduled expiry has not run yet.
+    vi.setSystemTime(60_000);
+    const decision = await t.run((ctx) =>
+      evaluateAccess(ctx, {
+        tokenIdentifier: `${controlPlane.issuer}|alice`,
+        permissionKey: "doc:edit",
+      }),
+    );
+    expect(decision).toMatchObject({ allowed: false, reasonCode: "permission_denied" });
+  });
+});
@@ -0,0 +1,254 @@
+import {
+  internalMutationGeneric,
+  makeFunctionReference,
+  type DataModelFromSchemaDefinition,
+  type GenericMutationCtx,
+  type MutationBuilder,
+} from "convex/server";
+import { v } from "convex/values";
+import {
+  atGeneration,
+  computeEffectiveGrants,
+  loadGeneration,
+  loadGrantsEpoch,
+  type EffectiveGrant,
+  type Generation,
+} from "./access";
+import schema from "./schema";
+
+type DataModel = DataModelFromSchemaDefinition<typeof schema>;
+type MutationCtx = GenericMutationCtx<DataModel>;
+type MirrorMutationCtx = MutationCtx & { generation: Generation };
+type MembershipRow = DataModel["tenant_memberships"]["document"];
+
+const internalMutation = internalMutationGeneric as MutationBuilder<DataModel, "internal">;
+
+// Maintenance of the materialized `effective_grants` table. The access engine
+// uses a row at the current epoch only once its assignment is confirmed live,
+// so a stale row never grants; it just sends the check down the walk. To keep
+// rows useful, every mirror write that can move a grant either refreshes the
+// memberships it touches in the same transaction or - when they are too many
+// for one transaction - bumps the epoch: sync.ts does so for each applied
+// change and each lapsed assignment. Rows are only ever derived from the
+// mirror (computeEffectiveGrants), never written directly.
+
+// Memberships recomputed per background rebuild transaction, and the most one
+// sync transaction refreshes in place before invalidating instead.
+const REBUILD_BATCH = 100;
+export const INLINE_REFRESH_LIMIT = REBUILD_BATCH;
+
+// Rows of a retired epoch deleted per sweep transaction.
+const SWEEP_BATCH = 1_000;
+
+const rebuildEffectiveGrantsReference = makeFunctionReference<
+  "mutation",
+  { cursor: string | null; epoch: number }
+>("grants:rebuildEffectiveGrants");
+const sweepEffectiveGrantsReference = makeFunctionReference<"mutation", { epoch: number }>(
+  "grants:sweepEffectiveGrants",
+);
+
+// Recompute the grants of each membership, writing only the rows that differ.
+// A membership that no longer exists loses all its rows. `null` (holders too
+// many to list) or more than INLINE_REFRESH_LIMIT memberships invalidate the
+// table instead, leaving the recompute to the background rebuild.
+export async function refreshEffectiveGrants(
+  ctx: MirrorMutationCtx,
+  membershipIds: Iterable<string> | null,
+  now: number,
+): Promise<void> {
+  const ids = membershipIds === null ? null : new Set(membershipIds);
+  if (ids === null || ids.size > INLINE_REFRESH_LIMIT) {
+    await invalidateEffectiveGrants(ctx, now);
+    return;
+  }
+  const epoch = await loadGrantsEpoch(ctx);
+  for (const membershipId of ids) {
+    const membership = await ctx.db
+      .query("tenant_memberships")
+      .withIndex("by_membership_id", (q) =>
+        q.eq("generation", ctx.generation).eq("id", membershipId),
+      )
+      .unique();
+    await writeMembershipGrants(ctx, membershipId, membership, now, epoch);
+  }
+}
+
+// Retire every row at once by moving to a new epoch, and rebuild at it. Checks
+// take the walk until a membership's rows are rewritten; the retired rows are
+// swept once the rebuild finishes.
+export async function invalidateEffectiveGrants(ctx: MutationCtx, now: number): Promise<void> {
+  const current = await ctx.db.query("effective_grants_epoch").unique();
+  const epoch = (current?.epoch ?? 0) + 1;
+  if (current) {
+    await ctx.db.patch(current._id, { epoch, invalidatedAt: now });
+  } else {
+    await ctx.db.insert("effective_grants_epoch", { epoch, invalidatedAt: now });
+  }
+  await ctx.scheduler.runAfter(0, rebuildEffectiveGrantsReference, { cursor: null, epoch });
+}
+
+async function writeMembershipGrants(
+  ctx: MirrorMutationCtx,
+  membershipId: string,
+  membership: MembershipRow | null,
+  now: number,
+  epoch: number,
+): Promise<void> {
+  const next = membership
+    ? await computeEffectiveGrants(ctx, membership, now)
+    : new Map<string, EffectiveGrant>();
+  const existing = await ctx.db
+    .query("effective_grants")
+    .withIndex("by_membership_permission", (q) => q.eq("membershipId", membershipId))
+    .collect();
+  for (const row of existing) {
+    const grant = next.get(row.permissionId);
+    next.delete(row.permissionId);
+    if (!membership || !grant) {
+      await ctx.db.delete(row._id);
+    } else if (
+      grant.source !== row.source ||
+      grant.assignmentId !== row.assignmentId ||
+      grant.expiresAt !== row.expiresAt ||
+      membership.tenantId !== row.tenantId ||
+      epoch !== row.epoch
+    ) {
+      await ctx.db.replace(row._id, grantRow(membership, row.permissionId, grant, epoch));
+    }
+  }
+  if (!membership) return;
+  for (const [permissionId, grant] of next) {
+    await ctx.db.insert("effective_grants", grantRow(membership, permissionId, grant, epoch));
+  }
+}
+
+function grantRow(
+  membership: MembershipRow,
+  permissionId: string,
+  grant: EffectiveGrant,
+  epoch: number,
+) {
+  return {
+    membershipId: membership.id,
+    tenantId: membership.tenantId,
+    permissionId,
+    source: grant.source,
+    assignmentId: grant.assignmentId,
+    ...(grant.expiresAt === undefined ? {} : { expiresAt: grant.expiresAt }),
+    epoch,
+  };
+}
+
+// The holder lookups below read at most `limit` memberships (plus one to
+// notice more) and return null past it, so a large group or a widely held role
+// never drags its whole membership into a sync transaction.
+
+// Members of a group, whose group-held grants follow its status and roles.
+export async function membershipsInGroup(
+  ctx: MirrorMutationCtx,
+  groupId: string,
+  limit = INLINE_REFRESH_LIMIT,
+): Promise<string[] | null> {
+  const rows = await ctx.db
+    .query("group_memberships")
+    .withIndex("by_group", (q) => q.eq("generation", ctx.generation).eq("groupId", groupId))
+    .take(limit + 1);
+  return rows.length > limit ? null : rows.map((row) => row.membershipId);
+}
+
+// Every membership holding a role tenant-wide, directly or through a group.
+export async function membershipsHoldingRole(
+  ctx: MirrorMutationCtx,
+  roleId: string,
+): Promise<string[] | null> {
+  const limit = INLINE_REFRESH_LIMIT;
+  const membershipIds = new Set<string>();
+  const direct = await ctx.db
+    .query("user_role_assignments")
+    .withIndex("by_role_id", (q) => q.eq("generation", ctx.generation).eq("roleId", roleId))
+    .take(limit + 1);
+  for (const assignment of direct) membershipIds.add(assignment.membershipId);
+  const viaGroups = await ctx.db
+    .query("group_role_assignments")
+    .withIndex("by_role_id", (q) => q.eq("generation", ctx.generation).eq("roleId", roleId))
+    .take(limit + 1);
+  if (direct.length > limit || viaGroups.length > limit) return null;
+  for (const groupId of new Set(viaGroups.map((assignment) => assignment.groupId))) {
+    const members = await membershipsInGroup(ctx, groupId, limit - membershipIds.size);
+    if (members === null) return null;
+    for (const membershipId of members) membershipIds.add(membershipId);
+  }
+  return [...membershipIds];
+}
+
+// The memberships of a tenant, whose grants all go when it is deleted.
+export async function membershipsInTenant(
+  ctx: MirrorMutationCtx,
+  tenantId: string,
+): Promise<string[] | null> {
+  const memberships = await ctx.db
+    .query("tenant_memberships")
+    .withIndex("by_tenant", (q) => q.eq("generation", ctx.generation).eq("tenantId", tenantId))
+    .take(INLINE_REFRESH_LIMIT + 1);
+  return memberships.length > INLINE_REFRESH_LIMIT
+    ? null
+    : memberships.map((membership) => membership.id);
+}
+
+// A deleted permission can never be checked again; drop its rows outright, or
+// invalidate them all when there are more than one sweep batch.
+export async function dropPermissionGrants(ctx: MutationCtx, permissionId: string): Promise<void> {
+  const rows = await ctx.db
+    .query("effective_grants")
+    .withIndex("by_permission", (q) => q.eq("permissionId", permissionId))
+    .take(SWEEP_BATCH + 1);
+  if (rows.length > SWEEP_BATCH) {
+    await invalidateEffectiveGrants(ctx, Date.now());
+    return;
+  }
+  for (const row of rows) await ctx.db.delete(row._id);
+}
+
+// A rebuild belongs to one epoch and stops once a newer one supersedes it.
+// After an invalidation it ends by sweeping the retired rows, which include
+// those of memberships deleted since.
+export const rebuildEffectiveGrants = internalMutation({
+  args: { cursor: v.union(v.string(), v.null()), epoch: v.number() },
+  handler: async (ctx, { cursor, epoch }) => {
+    if ((await loadGrantsEpoch(ctx)) !== epoch) return;
+    // A generation flip bumps the epoch, so the cursor never outlives it.
+    const mirror = atGeneration(ctx, await loadGeneration(ctx));
+    const page = await mirror.db
+      .query("tenant_memberships")
+      .withIndex("by_generation", (q) => q.eq("generation", mirror.generation))
+      .paginate({ cursor, numItems: REBUILD_BATCH });
+    const now = Date.now();
+    for (const membership of page.page) {
+      await writeMembershipGrants(mirror, membership.id, membership, now, epoch);
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, rebuildEffectiveGrantsReference, {
+        cursor: page.continueCursor,
+        epoch,
+      });
+    } else if (epoch > 0) {
+      await ctx.scheduler.runAfter(0, sweepEffectiveGrantsReference, { epoch });
+    }
+  },
+});
+
+export const sweepEffectiveGrants = internalMutation({
+  args: { epoch: v.number() },
+  handler: async (ctx, { epoch }) => {
+    if ((await loadGrantsEpoch(ctx)) !== epoch) return;
+    const rows = await ctx.db
+      .query("effective_grants")
+      .withIndex("by_epoch", (q) => q.lt("epoch", epoch))
+      .take(SWEEP_BATCH);
+    for (const row of rows) await ctx.db.delete(row._id);
+    if (rows.length === SWEEP_BATCH) {
+      await ctx.scheduler.runAfter(0, sweepEffectiveGrantsReference, { epoch });
+    }
+  },
+});
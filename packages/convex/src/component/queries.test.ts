@@ -456,3 +456,360 @@ describe("members directory (composed, trusted)", () => {
     expect(await t.query(q("membersGet"), { tenantId: "T-other", membershipId: "m1" })).toBeNull();
   });
 });
+
+describe("membersWithPermission (reverse lookup)", () => {
+  // Primary tenant P and tenant T. In T: u1 holds the permission directly, u2
+  // via a group, u3 only on project p1 (the parent of document d1), u5 not at
+  // all. u4 is a P-only member holding an APP-SCOPED role.
+  async function seed(ctx: SeedCtx): Promise<void> {
+    await addSyncState(ctx);
+    for (const [id, isPrimaryTenant] of [
+      ["P", true],
+      ["T", false],
+    ] as const) {
+      await ctx.db.insert("tenants", {
+        id,
+        name: id,
+        isPrimaryTenant,
+        status: "active",
+        accessMode: "open",
+        defaultRoleId: null,
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+    }
+    for (const [membershipId, tenantId, userId] of [
+      ["m1", "T", "u1"],
+      ["m2", "T", "u2"],
+      ["m3", "T", "u3"],
+      ["m4", "P", "u4"],
+      ["m5", "T", "u5"],
+    ] as const) {
+      await ctx.db.insert("users", {
+        id: userId,
+        name: userId,
+        email: `${userId}@example.com`,
+        emailVerified: true,
+        phoneVerified: false,
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+      await ctx.db.insert("tenant_memberships", {
+        id: membershipId,
+        tenantId,
+        userId,
+        status: "active",
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+    }
+    await ctx.db.insert("permissions", {
+      id: "perm-edit",
+      key: "app.document:edit",
+      isAppScope: false,
+      updatedAt: 0,
+      sourceVersion: 1,
+    });
+    for (const [id, isAppScope] of [
+      ["r-editor", false],
+      ["r-app", true],
+    ] as const) {
+      await ctx.db.insert("roles", {
+        id,
+        key: id,
+        name: id,
+        description: null,
+        tenantId: null,
+        isAppScope,
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+      await ctx.db.insert("role_permissions", {
+        roleId: id,
+        permissionId: "perm-edit",
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+    }
+    for (const [id, tenantId, membershipId, roleId] of [
+      ["a1", "T", "m1", "r-editor"],
+      ["a4", "P", "m4", "r-app"],
+    ] as const) {
+      await ctx.db.insert("user_role_assignments", {
+        id,
+        tenantId,
+        membershipId,
+        roleId,
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+    }
+    await ctx.db.insert("groups", {
+      id: "g1",
+      tenantId: "T",
+      name: "Editors",
+      status: "active",
+      updatedAt: 0,
+      sourceVersion: 1,
+    });
+    await ctx.db.insert("group_memberships", {
+      groupId: "g1",
+      membershipId: "m2",
+      tenantId: "T",
+      updatedAt: 0,
+      sourceVersion: 1,
+    });
+    await ctx.db.insert("group_role_assignments", {
+      id: "ga1",
+      tenantId: "T",
+      groupId: "g1",
+      roleId: "r-editor",
+      updatedAt: 0,
+      sourceVersion: 1,
+    });
+    for (const [id, key] of [
+      ["rt-project", "app.project"],
+      ["rt-document", "app.document"],
+    ] as const) {
+      await ctx.db.insert("resource_types", {
+        id,
+        key,
+        name: key,
+        parentResourceTypeId: null,
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+    }
+    await ctx.db.insert("resources", {
+      id: "node-p1",
+      tenantId: "T",
+      resourceTypeId: "rt-project",
+      externalId: "p1",
+      updatedAt: 0,
+    });
+    await ctx.db.insert("resources", {
+      id: "node-d1",
+      tenantId: "T",
+      resourceTypeId: "rt-document",
+      externalId: "d1",
+      parentId: "node-p1",
+      updatedAt: 0,
+    });
+    await ctx.db.insert("user_resource_role_assignments", {
+      id: "ra3",
+      tenantId: "T",
+      membershipId: "m3",
+      roleId: "r-editor",
+      resourceTypeId: "rt-project",
+      externalId: "p1",
+      updatedAt: 0,
+      sourceVersion: 1,
+    });
+  }
+
+  type Holder = { membershipId: string; tenantId: string; heldVia: string };
+
+  async function allHolders(
+    t: ReturnType<typeof harness>,
+    args: Record<string, unknown>,
+  ): Promise<Array<[string, string, string]>> {
+    const holders: Array<[string, string, string]> = [];
+    let cursor: string | undefined;
+    do {
+      const page = await t.query(q("membersWithPermission"), {
+        ...args,
+        limit: 2,
+        ...(cursor === undefined ? {} : { cursor }),
+      });
+      for (const holder of page.items as Holder[]) {
+        holders.push([holder.membershipId, holder.tenantId, holder.heldVia]);
+      }
+      cursor = page.cursor;
+    } while (cursor !== undefined);
+    return holders.sort(([a], [b]) => a.localeCompare(b));
+  }
+
+  test("tenant-wide: direct, group, and app-scoped holders across both phases", async () => {
+    const t = harness();
+    await t.run(seed);
+    expect(await allHolders(t, { tenantId: "T", permission: "app.document:edit" })).toEqual([
+      ["m1", "T", "direct"],
+      ["m2", "T", "group"],
+      ["m4", "P", "app_scope"],
+    ]);
+  });
+
+  test("resource-scoped: an assignment on an ancestor adds the holder", async () => {
+    const t = harness();
+    await t.run(seed);
+    expect(
+      await allHolders(t, {
+        tenantId: "T",
+        permission: "app.document:edit",
+        resource: { type: "app.document", externalId: "d1" },
+      }),
+    ).toEqual([
+      ["m1", "T", "direct"],
+      ["m2", "T", "group"],
+      ["m3", "T", "ancestor"],
+      ["m4", "P", "app_scope"],
+    ]);
+  });
+
+  test("an unknown permission has no holders", async () => {
+    const t = harness();
+    await t.run(seed);
+    const page = await t.query(q("membersWithPermission"), {
+      tenantId: "T",
+      permission: "app.unknown:do",
+    });
+    expect(page).toEqual({ items: [] });
+  });
+});
+
+describe("listMyPermissions (caller-centric, gated)", () => {
+  // u1 is a member of T (reader tenant-wide, editor on project p1, the parent
+  // of document d1) and of the primary tenant P (an APP-SCOPED admin role).
+  async function seed(ctx: SeedCtx, tenantStatus: "active" | "archived" = "active") {
+    await addSyncState(ctx);
+    for (const [id, isPrimaryTenant] of [
+      ["P", true],
+      ["T", false],
+    ] as const) {
+      await ctx.db.insert("tenants", {
+        id,
+        name: id,
+        isPrimaryTenant,
+        status: id === "T" ? tenantStatus : "active",
+        accessMode: "open",
+        defaultRoleId: null,
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+      await ctx.db.insert("tenant_memberships", {
+        id: `m-${id}`,
+        tenantId: id,
+        userId: "u1",
+        status: "active",
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+    }
+    for (const [roleId, permissionId, key, isAppScope] of [
+      ["r-reader", "perm-read", "app.doc:read", false],
+      ["r-editor", "perm-edit", "app.doc:edit", false],
+      ["r-app", "perm-admin", "app.admin:manage", true],
+    ] as const) {
+      await ctx.db.insert("roles", {
+        id: roleId,
+        key: roleId,
+        name: roleId,
+        description: null,
+        tenantId: null,
+        isAppScope,
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+      await ctx.db.insert("permissions", {
+        id: permissionId,
+        key,
+        isAppScope: false,
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+      await ctx.db.insert("role_permissions", {
+        roleId,
+        permissionId,
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+    }
+    // The editor role also carries doc:read, so that key is reached twice.
+    await ctx.db.insert("role_permissions", {
+      roleId: "r-editor",
+      permissionId: "perm-read",
+      updatedAt: 0,
+      sourceVersion: 1,
+    });
+    for (const [id, tenantId, roleId] of [
+      ["a-read", "T", "r-reader"],
+      ["a-app", "P", "r-app"],
+    ] as const) {
+      await ctx.db.insert("user_role_assignments", {
+        id,
+        tenantId,
+        membershipId: `m-${tenantId}`,
+        roleId,
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+    }
+    for (const [id, key] of [
+      ["rt-project", "app.project"],
+      ["rt-document", "app.document"],
+    ] as const) {
+      await ctx.db.insert("resource_types", {
+        id,
+        key,
+        name: key,
+        parentResourceTypeId: null,
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+    }
+    await ctx.db.insert("resources", {
+      id: "node-p1",
+      tenantId: "T",
+      resourceTypeId: "rt-project",
+      externalId: "p1",
+      updatedAt: 0,
+    });
+    await ctx.db.insert("resources", {
+      id: "node-d1",
+      tenantId: "T",
+      resourceTypeId: "rt-document",
+      externalId: "d1",
+      parentId: "node-p1",
+      updatedAt: 0,
+    });
+    await ctx.db.insert("user_resource_role_assignments", {
+      id: "ra-edit",
+      tenantId: "T",
+      membershipId: "m-T",
+      roleId: "r-editor",
+      resourceTypeId: "rt-project",
+      externalId: "p1",
+      updatedAt: 0,
+      sourceVersion: 1,
+    });
+  }
+
+  test("tenant-wide keys include app-scoped roles held via the primary tenant", async () => {
+    const t = harness();
+    await t.run((ctx) => seed(ctx));
+    expect(
+      await t.query(q("listMyPermissions"), { tokenIdentifier: token("u1"), tenantId: "T" }),
+    ).toEqual(["app.admin:manage", "app.doc:read"]);
+  });
+
+  test("a resource adds keys granted on its ancestors, de-duplicated", async () => {
+    const t = harness();
+    await t.run((ctx) => seed(ctx));
+    expect(
+      await t.query(q("listMyPermissions"), {
+        tokenIdentifier: token("u1"),
+        tenantId: "T",
+        resource: { type: "app.document", externalId: "d1" },
+      }),
+    ).toEqual(["app.admin:manage", "app.doc:edit", "app.doc:read"]);
+  });
+
+  test("empty without identity or when the tenant is archived", async () => {
+    const t = harness();
+    await t.run((ctx) => seed(ctx, "archived"));
+    expect(await t.query(q("listMyPermissions"), { tenantId: "T" })).toEqual([]);
+    expect(
+      await t.query(q("listMyPermissions"), { tokenIdentifier: token("u1"), tenantId: "T" }),
+    ).toEqual([]);
+  });
+});
@@ -1,21 +1,32 @@
-import {
-  queryGeneric,
-  type DataModelFromSchemaDefinition,
-  type GenericQueryCtx,
-  type QueryBuilder,
-} from "convex/server";
+import { queryGeneric, type DataModelFromSchemaDefinition, type QueryBuilder } from "convex/server";
+import { customCtx, customQuery } from "convex-helpers/server/customFunctions";
 import { paginator } from "convex-helpers/server/pagination";
 import { v } from "convex/values";
-import { collectMembershipRoleIds, resolveTenantRow } from "./access";
+import {
+  buildResourceChain,
+  collectGrantedRoleIds,
+  createAccessCache,
+  collectMembershipRoleIds,
+  findGrantSource,
+  loadGeneration,
+  resolveMembership,
+  resolvePrimaryTenant,
+  resolveTenantRow,
+  type GrantSource,
+  type MirrorCtx,
+} from "./access";
 import { parseTokenIdentifier } from "../shared/token";
 import schema from "./schema";
 
 type DataModel = DataModelFromSchemaDefinition<typeof schema>;
-type QueryCtx = GenericQueryCtx<DataModel>;
 type RoleRow = DataModel["roles"]["document"];
 type MembershipRow = DataModel["tenant_memberships"]["document"];
 
-const query = queryGeneric as QueryBuilder<DataModel, "public">;
+// Every read here addresses the mirror generation sync_state points at.
+const query = customQuery(
+  queryGeneric as QueryBuilder<DataModel, "public">,
+  customCtx(async (ctx) => ({ generation: await loadGeneration(ctx) })),
+);
 
 const PAGE_LIMIT = 100;
 function pageLimit(limit: number | undefined): number {
@@ -80,7 +91,9 @@ export type TenantAccessStatus =
       stateVersion?: number;
     };
 
-export type TargetTenantSyncStatus =
+// `needsResync`: the mirror rejected a delivery (version gap or required reset)
+// and stays stale until the control plane sends a snapshot.
+export type TargetTenantSyncStatus = (
   | { state: "syncing"; currentSourceVersion?: number; targetSourceVersion: number }
   | {
       state: "ready";
@@ -102,7 +115,8 @@ export type TargetTenantSyncStatus =
       reasonCode: string;
       currentSourceVersion?: number;
       targetSourceVersion: number;
-    };
+    }
+) & { needsResync?: boolean };
 
 function roleSummary(role: RoleRow): RoleSummary {
   return {
@@ -114,14 +128,14 @@ function roleSummary(role: RoleRow): RoleSummary {
   };
 }
 
-async function resolveRole(ctx: QueryCtx, roleId: string): Promise<RoleRow | null> {
+async function resolveRole(ctx: MirrorCtx, roleId: string): Promise<RoleRow | null> {
   return await ctx.db
     .query("roles")
-    .withIndex("by_role_id", (q) => q.eq("id", roleId))
+    .withIndex("by_role_id", (q) => q.eq("generation", ctx.generation).eq("id", roleId))
     .unique();
 }
 
-async function membershipRoles(ctx: QueryCtx, membership: MembershipRow): Promise<RoleSummary[]> {
+async function membershipRoles(ctx: MirrorCtx, membership: MembershipRow): Promise<RoleSummary[]> {
   const roleIds = await collectMembershipRoleIds(ctx, membership, Date.now());
   const roles: RoleSummary[] = [];
   for (const roleId of roleIds) {
@@ -156,7 +170,7 @@ export const listMyTenants = query({
     const limit = pageLimit(args.limit);
     const page = await paginator(ctx.db, schema)
       .query("tenant_memberships")
-      .withIndex("by_user", (q) => q.eq("userId", token.subject))
+      .withIndex("by_user", (q) => q.eq("generation", ctx.generation).eq("userId", token.subject))
       .paginate({ cursor: args.cursor ?? null, numItems: limit });
 
     const items = (
@@ -165,7 +179,9 @@ export const listMyTenants = query({
           if (args.status === "active" && membership.status !== "active") return null;
           const tenant = await ctx.db
             .query("tenants")
-            .withIndex("by_tenant_id", (q) => q.eq("id", membership.tenantId))
+            .withIndex("by_tenant_id", (q) =>
+              q.eq("generation", ctx.generation).eq("id", membership.tenantId),
+            )
             .unique();
           if (!tenant) return null;
           if (args.status === "active" && tenant.status !== "active") return null;
@@ -197,7 +213,9 @@ export const listMyRoles = query({
     if (!tenant) return [];
     const membership = await ctx.db
       .query("tenant_memberships")
-      .withIndex("by_tenant_user", (q) => q.eq("tenantId", tenant.id).eq("userId", token.subject))
+      .withIndex("by_tenant_user", (q) =>
+        q.eq("generation", ctx.generation).eq("tenantId", tenant.id).eq("userId", token.subject),
+      )
       .unique();
     if (!membership) return [];
     return membershipRoles(ctx, membership);
@@ -219,20 +237,26 @@ export const listMyGroups = query({
     if (!tenant) return [];
     const membership = await ctx.db
       .query("tenant_memberships")
-      .withIndex("by_tenant_user", (q) => q.eq("tenantId", tenant.id).eq("userId", token.subject))
+      .withIndex("by_tenant_user", (q) =>
+        q.eq("generation", ctx.generation).eq("tenantId", tenant.id).eq("userId", token.subject),
+      )
       .unique();
     if (!membership || membership.status !== "active") return [];
 
     const groupMemberships = await ctx.db
       .query("group_memberships")
-      .withIndex("by_membership", (q) => q.eq("membershipId", membership.id))
+      .withIndex("by_membership", (q) =>
+        q.eq("generation", ctx.generation).eq("membershipId", membership.id),
+      )
       .collect();
     const groups: GroupSummary[] = [];
     for (const groupMembership of groupMemberships) {
       if (groupMembership.tenantId !== tenant.id) continue;
       const group = await ctx.db
         .query("groups")
-        .withIndex("by_group_id", (q) => q.eq("id", groupMembership.groupId))
+        .withIndex("by_group_id", (q) =>
+          q.eq("generation", ctx.generation).eq("id", groupMembership.groupId),
+        )
         .unique();
       if (group) groups.push({ id: group.id, name: group.name, status: group.status });
     }
@@ -240,6 +264,66 @@ export const listMyGroups = query({
   },
 });
 
+// The de-duplicated permission keys the caller effectively holds in the resolved
+// tenant (and on `resource`, when given, through its ancestor chain): every
+// role any evaluateAccess path would consult, expanded through
+// role_permissions. Gated exactly like the check, so an archived tenant, a
+// stale issuer, or no active membership yields no permissions. For UI
+// capability maps; enforcement still goes through the check.
+export const listMyPermissions = query({
+  args: {
+    tokenIdentifier: v.optional(v.string()),
+    tenantId: v.optional(v.string()),
+    resource: v.optional(v.object({ type: v.string(), externalId: v.string() })),
+  },
+  handler: async (ctx, args): Promise<string[]> => {
+    if (!args.tokenIdentifier) return [];
+    const state = await ctx.db.query("sync_state").unique();
+    if (!state) return [];
+    const token = parseTokenIdentifier(args.tokenIdentifier);
+    if (!token || token.issuer !== state.expectedIssuer) return [];
+    const tenant = await resolveTenantRow(ctx, args.tenantId);
+    if (!tenant || tenant.status !== "active") return [];
+    const primary = await resolvePrimaryTenant(ctx);
+    const membership = await resolveMembership(ctx, tenant.id, token.subject);
+    const appScopeMembership =
+      primary && primary.id !== tenant.id
+        ? await resolveMembership(ctx, primary.id, token.subject)
+        : null;
+
+    const resource = args.resource;
+    const roleIds = await collectGrantedRoleIds(ctx, {
+      tenantId: tenant.id,
+      membership,
+      appScopeMembership,
+      ...(resource === undefined
+        ? {}
+        : { resourceChain: () => buildResourceChain(ctx, tenant.id, resource) }),
+      now: Date.now(),
+    });
+
+    const permissionIds = new Set<string>();
+    for (const roleId of roleIds) {
+      const rows = await ctx.db
+        .query("role_permissions")
+        .withIndex("by_role", (q) => q.eq("generation", ctx.generation).eq("roleId", roleId))
+        .collect();
+      for (const row of rows) permissionIds.add(row.permissionId);
+    }
+    const keys: string[] = [];
+    for (const permissionId of permissionIds) {
+      const permission = await ctx.db
+        .query("permissions")
+        .withIndex("by_permission_id", (q) =>
+          q.eq("generation", ctx.generation).eq("id", permissionId),
+        )
+        .unique();
+      if (permission) keys.push(permission.key);
+    }
+    return keys.sort();
+  },
+});
+
 // ── members directory (members.*) ─────────────────────────────────────────────
 // Joined, admin-facing reads over the mirror: memberships + user info + roles
 // (and, on the single-member get, resource role assignments). TRUSTED like the
@@ -289,7 +373,7 @@ function memberUser(user: UserRow): MemberUser {
 // `direct` wins when a role is held both ways, because reconciling write
 // paths operate on direct assignments only.
 async function memberRoles(
-  ctx: QueryCtx,
+  ctx: MirrorCtx,
   membership: MembershipRow,
   now: number,
 ): Promise<MemberRoleSummary[]> {
@@ -297,7 +381,9 @@ async function memberRoles(
 
   const directAssignments = await ctx.db
     .query("user_role_assignments")
-    .withIndex("by_membership", (q) => q.eq("membershipId", membership.id))
+    .withIndex("by_membership", (q) =>
+      q.eq("generation", ctx.generation).eq("membershipId", membership.id),
+    )
     .collect();
   for (const assignment of directAssignments) {
     if (assignment.tenantId !== membership.tenantId) continue;
@@ -308,7 +394,7 @@ async function memberRoles(
   for (const groupId of await activeMembershipGroupIds(ctx, membership)) {
     const groupAssignments = await ctx.db
       .query("group_role_assignments")
-      .withIndex("by_group", (q) => q.eq("groupId", groupId))
+      .withIndex("by_group", (q) => q.eq("generation", ctx.generation).eq("groupId", groupId))
       .collect();
     for (const assignment of groupAssignments) {
       if (assignment.tenantId !== membership.tenantId) continue;
@@ -326,19 +412,23 @@ async function memberRoles(
 }
 
 async function activeMembershipGroupIds(
-  ctx: QueryCtx,
+  ctx: MirrorCtx,
   membership: MembershipRow,
 ): Promise<string[]> {
   const groupMemberships = await ctx.db
     .query("group_memberships")
-    .withIndex("by_membership", (q) => q.eq("membershipId", membership.id))
+    .withIndex("by_membership", (q) =>
+      q.eq("generation", ctx.generation).eq("membershipId", membership.id),
+    )
     .collect();
   const groupIds: string[] = [];
   for (const groupMembership of groupMemberships) {
     if (groupMembership.tenantId !== membership.tenantId) continue;
     const group = await ctx.db
       .query("groups")
-      .withIndex("by_group_id", (q) => q.eq("id", groupMembership.groupId))
+      .withIndex("by_group_id", (q) =>
+        q.eq("generation", ctx.generation).eq("id", groupMembership.groupId),
+      )
       .unique();
     if (group && group.status === "active") groupIds.push(group.id);
   }
@@ -350,7 +440,7 @@ async function activeMembershipGroupIds(
 // Assignments whose role or resource type row is missing from the mirror are
 // skipped rather than surfaced half-joined.
 async function memberResourceRoleAssignments(
-  ctx: QueryCtx,
+  ctx: MirrorCtx,
   membership: MembershipRow,
   now: number,
 ): Promise<MemberResourceRoleAssignment[]> {
@@ -365,14 +455,16 @@ async function memberResourceRoleAssignments(
 
   const direct = await ctx.db
     .query("user_resource_role_assignments")
-    .withIndex("by_membership", (q) => q.eq("membershipId", membership.id))
+    .withIndex("by_membership", (q) =>
+      q.eq("generation", ctx.generation).eq("membershipId", membership.id),
+    )
     .collect();
   for (const assignment of direct) tagged.push({ assignment, heldVia: "direct" });
 
   for (const groupId of await activeMembershipGroupIds(ctx, membership)) {
     const fromGroup = await ctx.db
       .query("group_resource_role_assignments")
-      .withIndex("by_group", (q) => q.eq("groupId", groupId))
+      .withIndex("by_group", (q) => q.eq("generation", ctx.generation).eq("groupId", groupId))
       .collect();
     for (const assignment of fromGroup) tagged.push({ assignment, heldVia: "group" });
   }
@@ -385,7 +477,9 @@ async function memberResourceRoleAssignments(
     if (!role) continue;
     const resourceType = await ctx.db
       .query("resource_types")
-      .withIndex("by_resource_type_id", (q) => q.eq("id", assignment.resourceTypeId))
+      .withIndex("by_resource_type_id", (q) =>
+        q.eq("generation", ctx.generation).eq("id", assignment.resourceTypeId),
+      )
       .unique();
     if (!resourceType) continue;
     assignments.push({
@@ -419,7 +513,9 @@ export const membersList = query({
     const limit = pageLimit(args.limit);
     const page = await paginator(ctx.db, schema)
       .query("tenant_memberships")
-      .withIndex("by_tenant_status", (q) => q.eq("tenantId", tenant.id).eq("status", status))
+      .withIndex("by_tenant_status", (q) =>
+        q.eq("generation", ctx.generation).eq("tenantId", tenant.id).eq("status", status),
+      )
       .paginate({ cursor: args.cursor ?? null, numItems: limit });
 
     const now = Date.now();
@@ -427,7 +523,9 @@ export const membersList = query({
     for (const membership of page.page) {
       const user = await ctx.db
         .query("users")
-        .withIndex("by_user_id", (q) => q.eq("id", membership.userId))
+        .withIndex("by_user_id", (q) =>
+          q.eq("generation", ctx.generation).eq("id", membership.userId),
+        )
         .unique();
       if (!user) continue;
       items.push({
@@ -450,12 +548,16 @@ export const membersGet = query({
     if (!tenant) return null;
     const membership = await ctx.db
       .query("tenant_memberships")
-      .withIndex("by_membership_id", (q) => q.eq("id", args.membershipId))
+      .withIndex("by_membership_id", (q) =>
+        q.eq("generation", ctx.generation).eq("id", args.membershipId),
+      )
       .unique();
     if (!membership || membership.tenantId !== tenant.id) return null;
     const user = await ctx.db
       .query("users")
-      .withIndex("by_user_id", (q) => q.eq("id", membership.userId))
+      .withIndex("by_user_id", (q) =>
+        q.eq("generation", ctx.generation).eq("id", membership.userId),
+      )
       .unique();
     if (!user) return null;
 
@@ -470,6 +572,137 @@ export const membersGet = query({
   },
 });
 
+// A membership that passes evaluateAccess for a permission, and the first path
+// that grants it (see findGrantSource).
+export type PermissionHolder = {
+  membershipId: string;
+  // The membership's own tenant: the target tenant, or the primary tenant for
+  // a holder whose only path in is an app-scoped role.
+  tenantId: string;
+  status: MembershipStatus;
+  user: MemberUser;
+  heldVia: GrantSource;
+};
+
+export type PermissionHoldersPage = { items: PermissionHolder[]; cursor?: string };
+
+// membersWithPermission pages the target tenant's active members first, then
+// (when the target is not the primary tenant) the primary tenant's active
+// members, for holders reaching the target only through an app-scoped role.
+// The phase rides as a prefix on the underlying index cursor.
+type HoldersPhase = "tenant" | "primary";
+
+function parseHoldersCursor(cursor: string | undefined): {
+  phase: HoldersPhase;
+  cursor: string | null;
+} {
+  for (const phase of ["tenant", "primary"] as const) {
+    if (cursor?.startsWith(`${phase}:`)) {
+      return { phase, cursor: cursor.slice(phase.length + 1) || null };
+    }
+  }
+  return { phase: "tenant", cursor: null };
+}
+
+// Reverse lookup: one page of the memberships that would pass evaluateAccess
+// for `permission` (on `resource` when given). Runs the same grant rules as
+// the check, per membership, so it cannot drift from enforcement. Like the
+// other filtered reads, a page may come back short; follow the cursor.
+export const membersWithPermission = query({
+  args: {
+    tenantId: v.optional(v.string()),
+    permission: v.string(),
+    resource: v.optional(v.object({ type: v.string(), externalId: v.string() })),
+    cursor: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<PermissionHoldersPage> => {
+    // Without a mirror, an active tenant, or a known permission, nobody passes.
+    const state = await ctx.db.query("sync_state").unique();
+    const tenant = await resolveTenantRow(ctx, args.tenantId);
+    if (!state || !tenant || tenant.status !== "active") return { items: [] };
+    const permission = await ctx.db
+      .query("permissions")
+      .withIndex("by_key", (q) => q.eq("generation", ctx.generation).eq("key", args.permission))
+      .unique();
+    if (!permission) return { items: [] };
+    const primary = await resolvePrimaryTenant(ctx);
+    const appScopeTenant = primary && primary.id !== tenant.id ? primary : null;
+
+    const { phase, cursor } = parseHoldersCursor(args.cursor);
+    const phaseTenantId = phase === "tenant" ? tenant.id : appScopeTenant?.id;
+    if (phaseTenantId === undefined) return { items: [] };
+
+    const now = Date.now();
+    const resource = args.resource;
+    // The chain is the same for every member: walk it once, on first need.
+    let chain: Promise<Set<string>> | undefined;
+    // Role permission sets (and the app-scope memberships' expansions) repeat
+    // across the page.
+    const accessCache = createAccessCache();
+    const grantSource = (
+      membership: MembershipRow | null,
+      appScopeMembership: MembershipRow | null,
+    ) =>
+      findGrantSource(
+        ctx,
+        {
+          tenantId: tenant.id,
+          permissionId: permission.id,
+          membership,
+          appScopeMembership,
+          ...(resource === undefined
+            ? {}
+            : { resourceChain: () => (chain ??= buildResourceChain(ctx, tenant.id, resource)) }),
+          now,
+        },
+        accessCache,
+      );
+
+    const page = await paginator(ctx.db, schema)
+      .query("tenant_memberships")
+      .withIndex("by_tenant_status", (q) =>
+        q.eq("generation", ctx.generation).eq("tenantId", phaseTenantId).eq("status", "active"),
+      )
+      .paginate({ cursor, numItems: pageLimit(args.limit) });
+
+    const items: PermissionHolder[] = [];
+    for (const membership of page.page) {
+      let heldVia: GrantSource | null;
+      if (phase === "tenant") {
+        const appScopeMembership = appScopeTenant
+          ? await resolveMembership(ctx, appScopeTenant.id, membership.userId)
+          : null;
+        heldVia = await grantSource(membership, appScopeMembership);
+      } else {
+        // Members with an active target membership were listed in the tenant phase.
+        const target = await resolveMembership(ctx, tenant.id, membership.userId);
+        if (target && target.status === "active") continue;
+        heldVia = await grantSource(target, membership);
+      }
+      if (heldVia === null) continue;
+      const user = await ctx.db
+        .query("users")
+        .withIndex("by_user_id", (q) =>
+          q.eq("generation", ctx.generation).eq("id", membership.userId),
+        )
+        .unique();
+      if (!user) continue;
+      items.push({
+        membershipId: membership.id,
+        tenantId: membership.tenantId,
+        status: membership.status,
+        user: memberUser(user),
+        heldVia,
+      });
+    }
+
+    if (!page.isDone) return { items, cursor: `${phase}:${page.continueCursor}` };
+    if (phase === "tenant" && appScopeTenant) return { items, cursor: "primary:" };
+    return { items };
+  },
+});
+
 export const getTargetTenantSyncStatus = query({
   args: {
     tokenIdentifier: v.optional(v.string()),
@@ -480,11 +713,14 @@ export const getTargetTenantSyncStatus = query({
     const targetSourceVersion = args.sourceVersion;
     const state = await ctx.db.query("sync_state").unique();
     if (!state) return { state: "syncing", targetSourceVersion };
+    // The mirror rejected a delivery and is waiting on a snapshot (gap recovery).
+    const resync = state.resync ? { needsResync: true } : {};
     if (state.sourceVersion < targetSourceVersion) {
       return {
         state: "syncing",
         currentSourceVersion: state.sourceVersion,
         targetSourceVersion,
+        ...resync,
       };
     }
     const tenant = await resolveTenantRow(ctx, args.tenantId);
@@ -496,6 +732,7 @@ export const getTargetTenantSyncStatus = query({
         targetSourceVersion,
         tenantId: tenant.id,
         membershipId: status.membershipId,
+        ...resync,
       };
     }
     if (status.kind === "principal") {
@@ -506,6 +743,7 @@ export const getTargetTenantSyncStatus = query({
         targetSourceVersion,
         ...(tenant ? { tenantId: tenant.id } : {}),
         membershipId: status.membershipId,
+        ...resync,
       };
     }
     return {
@@ -513,13 +751,14 @@ export const getTargetTenantSyncStatus = query({
       reasonCode: status.reason,
       currentSourceVersion: state.sourceVersion,
       targetSourceVersion,
+      ...resync,
     };
   },
 });
 
 // Reusable form of getTenantAccessStatus for internal composition.
 async function getTenantAccessStatusInline(
-  ctx: QueryCtx,
+  ctx: MirrorCtx,
   tokenIdentifier: string | undefined,
   tenantId: string | undefined,
 ): Promise<TenantAccessStatus> {
@@ -539,7 +778,9 @@ async function getTenantAccessStatusInline(
   }
   const membership = await ctx.db
     .query("tenant_memberships")
-    .withIndex("by_tenant_user", (q) => q.eq("tenantId", tenant.id).eq("userId", token.subject))
+    .withIndex("by_tenant_user", (q) =>
+      q.eq("generation", ctx.generation).eq("tenantId", tenant.id).eq("userId", token.subject),
+    )
     .unique();
   if (!membership) {
     return { kind: "fallback", reason: "membership_missing", stateVersion: state.sourceVersion };
@@ -552,17 +793,76 @@ async function getTenantAccessStatusInline(
   };
 }
 
+// ── sync health ───────────────────────────────────────────────────────────────
+// Operator view of the mirror: where it is, how old it is, what the sync
+// channel has rejected, and how many assignment expiries are still scheduled.
+// `ageMs` is as of the read (a reactive subscription does not tick). Pending
+// expiries are the count sync.ts keeps as it schedules and runs expiry jobs, so
+// the report never scans _scheduled_functions. Signing keys are the
+// fingerprints recorded by sync.ts recordSigningKey.
+
+export type SyncRejectionCount = { status: string; count: number; lastRejectedAt: number };
+
+export type SigningKeyUsage = { fingerprint: string; lastVerifiedAt: number };
+
+export type SyncHealth = {
+  ready: boolean;
+  sourceVersion?: number;
+  lastEventId?: string;
+  lastSyncedAt?: number;
+  ageMs?: number;
+  needsResync?: boolean;
+  lastError?: { status: string; at: number };
+  rejections: SyncRejectionCount[];
+  pendingExpiries: number;
+  signingKeys: SigningKeyUsage[];
+};
+
+export const getSyncHealth = query({
+  args: {},
+  handler: async (ctx): Promise<SyncHealth> => {
+    const state = await ctx.db.query("sync_state").unique();
+    const rejections = (await ctx.db.query("sync_rejections").collect())
+      .map(({ status, count, lastRejectedAt }) => ({ status, count, lastRejectedAt }))
+      .sort((a, b) => b.lastRejectedAt - a.lastRejectedAt);
+    const pending = await ctx.db.query("pending_expiries").unique();
+    const latest = rejections[0];
+    return {
+      ready: state !== null,
+      ...(state
+        ? {
+            sourceVersion: state.sourceVersion,
+            ...(state.lastEventId === undefined ? {} : { lastEventId: state.lastEventId }),
+            lastSyncedAt: state.lastSyncedAt,
+            ageMs: Math.max(0, Date.now() - state.lastSyncedAt),
+            ...(state.resync ? { needsResync: true } : {}),
+          }
+        : {}),
+      ...(latest ? { lastError: { status: latest.status, at: latest.lastRejectedAt } } : {}),
+      rejections,
+      pendingExpiries: pending?.count ?? 0,
+      signingKeys: state?.signingKeys ?? [],
+    };
+  },
+});
+
 // ── generic per-table reads (TRUSTED / UNGATED) ───────────────────────────────
 //
 // Plain ctx.db reads over the mirror tables: index-based scans plus unique-key
 // lookups, with NO identity check and NO membership gate. The installing app is
 // responsible for authorizing them (wrap the calling function in protectedQuery
 // and/or call requirePermissions). Every returned record drops the Convex system
-// fields (_id, _creationTime) and the internal sourceVersion bookkeeping.
+// fields (_id, _creationTime) and the internal sourceVersion and generation
+// bookkeeping.
 
-type StripSystem<T> = Omit<T, "_id" | "_creationTime" | "sourceVersion">;
+type StripSystem<T> = Omit<T, "_id" | "_creationTime" | "sourceVersion" | "generation">;
 
-type SystemRow = { _id: unknown; _creationTime: number; sourceVersion: number };
+type SystemRow = {
+  _id: unknown;
+  _creationTime: number;
+  sourceVersion: number;
+  generation?: number;
+};
 
 export type TenantRecord = StripSystem<DataModel["tenants"]["document"]>;
 // The stored column is `image` (Better Auth's convention); the app-facing
@@ -588,11 +888,14 @@ export type GroupResourceRoleAssignmentRecord = StripSystem<
   DataModel["group_resource_role_assignments"]["document"]
 >;
 
+// Sync log entries keep their sourceVersion: it is the point of the record.
+export type SyncLogRecord = Omit<DataModel["sync_log"]["document"], "_id" | "_creationTime">;
+
 export type ItemsPage<V> = { items: V[]; cursor?: string };
 
-// Drop Convex system fields + the internal sync version.
+// Drop Convex system fields + the internal sync version and generation.
 function record<Row extends SystemRow>(row: Row): StripSystem<Row> {
-  const { _id, _creationTime, sourceVersion, ...rest } = row;
+  const { _id, _creationTime, sourceVersion, generation, ...rest } = row;
   return rest as StripSystem<Row>;
 }
 
@@ -635,8 +938,10 @@ export const tenantsList = query({
     const base = paginator(ctx.db, schema).query("tenants");
     const q =
       isPrimaryTenant === undefined
-        ? base.withIndex("by_tenant_id")
-        : base.withIndex("by_primary", (i) => i.eq("isPrimaryTenant", isPrimaryTenant));
+        ? base.withIndex("by_tenant_id", (i) => i.eq("generation", ctx.generation))
+        : base.withIndex("by_primary", (i) =>
+            i.eq("generation", ctx.generation).eq("isPrimaryTenant", isPrimaryTenant),
+          );
     return paginate(q, args, (row) => status === undefined || row.status === status);
   },
 });
@@ -649,7 +954,7 @@ export const tenantsGet = query({
       return got(
         await ctx.db
           .query("tenants")
-          .withIndex("by_tenant_id", (q) => q.eq("id", id))
+          .withIndex("by_tenant_id", (q) => q.eq("generation", ctx.generation).eq("id", id))
           .unique(),
       );
     }
@@ -657,7 +962,9 @@ export const tenantsGet = query({
       return got(
         await ctx.db
           .query("tenants")
-          .withIndex("by_primary", (q) => q.eq("isPrimaryTenant", true))
+          .withIndex("by_primary", (q) =>
+            q.eq("generation", ctx.generation).eq("isPrimaryTenant", true),
+          )
           .first(),
       );
     }
@@ -678,8 +985,8 @@ export const usersList = query({
     const base = paginator(ctx.db, schema).query("users");
     const q =
       email === undefined
-        ? base.withIndex("by_user_id")
-        : base.withIndex("by_email", (i) => i.eq("email", email));
+        ? base.withIndex("by_user_id", (i) => i.eq("generation", ctx.generation))
+        : base.withIndex("by_email", (i) => i.eq("generation", ctx.generation).eq("email", email));
     const page = await paginate(q, args, () => true);
     return { ...page, items: page.items.map(toUserRecord) };
   },
@@ -693,7 +1000,7 @@ export const usersGet = query({
       const row = got(
         await ctx.db
           .query("users")
-          .withIndex("by_user_id", (q) => q.eq("id", id))
+          .withIndex("by_user_id", (q) => q.eq("generation", ctx.generation).eq("id", id))
           .unique(),
       );
       return row ? toUserRecord(row) : null;
@@ -702,7 +1009,7 @@ export const usersGet = query({
       const row = got(
         await ctx.db
           .query("users")
-          .withIndex("by_email", (q) => q.eq("email", email))
+          .withIndex("by_email", (q) => q.eq("generation", ctx.generation).eq("email", email))
           .unique(),
       );
       return row ? toUserRecord(row) : null;
@@ -723,8 +1030,10 @@ export const groupsList = query({
     const base = paginator(ctx.db, schema).query("groups");
     const q =
       tenantId === undefined
-        ? base.withIndex("by_group_id")
-        : base.withIndex("by_tenant", (i) => i.eq("tenantId", tenantId));
+        ? base.withIndex("by_group_id", (i) => i.eq("generation", ctx.generation))
+        : base.withIndex("by_tenant", (i) =>
+            i.eq("generation", ctx.generation).eq("tenantId", tenantId),
+          );
     return paginate(q, args, (row) => status === undefined || row.status === status);
   },
 });
@@ -735,7 +1044,7 @@ export const groupsGet = query({
     return got(
       await ctx.db
         .query("groups")
-        .withIndex("by_group_id", (q) => q.eq("id", args.id))
+        .withIndex("by_group_id", (q) => q.eq("generation", ctx.generation).eq("id", args.id))
         .unique(),
     );
   },
@@ -753,8 +1062,10 @@ export const rolesList = query({
     const base = paginator(ctx.db, schema).query("roles");
     const q =
       tenantId === undefined
-        ? base.withIndex("by_role_id")
-        : base.withIndex("by_tenant", (i) => i.eq("tenantId", tenantId));
+        ? base.withIndex("by_role_id", (i) => i.eq("generation", ctx.generation))
+        : base.withIndex("by_tenant", (i) =>
+            i.eq("generation", ctx.generation).eq("tenantId", tenantId),
+          );
     return paginate(q, args, (row) => isAppScope === undefined || row.isAppScope === isAppScope);
   },
 });
@@ -771,7 +1082,7 @@ export const rolesGet = query({
       return got(
         await ctx.db
           .query("roles")
-          .withIndex("by_role_id", (q) => q.eq("id", id))
+          .withIndex("by_role_id", (q) => q.eq("generation", ctx.generation).eq("id", id))
           .unique(),
       );
     }
@@ -780,7 +1091,7 @@ export const rolesGet = query({
       // share a key), so narrow by tenantId when supplied, else take the first.
       const rows = await ctx.db
         .query("roles")
-        .withIndex("by_key", (q) => q.eq("key", key))
+        .withIndex("by_key", (q) => q.eq("generation", ctx.generation).eq("key", key))
         .collect();
       const match = tenantId !== undefined ? rows.find((r) => r.tenantId === tenantId) : rows[0];
       return match ? record(match) : null;
@@ -794,7 +1105,9 @@ export const permissionsList = query({
   args: { isAppScope: v.optional(v.boolean()), ...pageArgs },
   handler: async (ctx, args): Promise<ItemsPage<PermissionRecord>> => {
     const { isAppScope } = args;
-    const q = paginator(ctx.db, schema).query("permissions").withIndex("by_permission_id");
+    const q = paginator(ctx.db, schema)
+      .query("permissions")
+      .withIndex("by_permission_id", (i) => i.eq("generation", ctx.generation));
     return paginate(q, args, (row) => isAppScope === undefined || row.isAppScope === isAppScope);
   },
 });
@@ -807,7 +1120,7 @@ export const permissionsGet = query({
       return got(
         await ctx.db
           .query("permissions")
-          .withIndex("by_permission_id", (q) => q.eq("id", id))
+          .withIndex("by_permission_id", (q) => q.eq("generation", ctx.generation).eq("id", id))
           .unique(),
       );
     }
@@ -815,7 +1128,7 @@ export const permissionsGet = query({
       return got(
         await ctx.db
           .query("permissions")
-          .withIndex("by_key", (q) => q.eq("key", key))
+          .withIndex("by_key", (q) => q.eq("generation", ctx.generation).eq("key", key))
           .unique(),
       );
     }
@@ -828,7 +1141,9 @@ export const resourceTypesList = query({
   args: { parentResourceTypeId: v.optional(nullableString), ...pageArgs },
   handler: async (ctx, args): Promise<ItemsPage<ResourceTypeRecord>> => {
     const { parentResourceTypeId } = args;
-    const q = paginator(ctx.db, schema).query("resource_types").withIndex("by_resource_type_id");
+    const q = paginator(ctx.db, schema)
+      .query("resource_types")
+      .withIndex("by_resource_type_id", (i) => i.eq("generation", ctx.generation));
     return paginate(
       q,
       args,
@@ -846,7 +1161,7 @@ export const resourceTypesGet = query({
       return got(
         await ctx.db
           .query("resource_types")
-          .withIndex("by_resource_type_id", (q) => q.eq("id", id))
+          .withIndex("by_resource_type_id", (q) => q.eq("generation", ctx.generation).eq("id", id))
           .unique(),
       );
     }
@@ -854,7 +1169,7 @@ export const resourceTypesGet = query({
       return got(
         await ctx.db
           .query("resource_types")
-          .withIndex("by_key", (q) => q.eq("key", key))
+          .withIndex("by_key", (q) => q.eq("generation", ctx.generation).eq("key", key))
           .unique(),
       );
     }
@@ -875,12 +1190,18 @@ export const tenantMembershipsList = query({
     const base = paginator(ctx.db, schema).query("tenant_memberships");
     const q =
       tenantId !== undefined && status !== undefined
-        ? base.withIndex("by_tenant_status", (i) => i.eq("tenantId", tenantId).eq("status", status))
+        ? base.withIndex("by_tenant_status", (i) =>
+            i.eq("generation", ctx.generation).eq("tenantId", tenantId).eq("status", status),
+          )
         : tenantId !== undefined
-          ? base.withIndex("by_tenant", (i) => i.eq("tenantId", tenantId))
+          ? base.withIndex("by_tenant", (i) =>
+              i.eq("generation", ctx.generation).eq("tenantId", tenantId),
+            )
           : userId !== undefined
-            ? base.withIndex("by_user", (i) => i.eq("userId", userId))
-            : base.withIndex("by_membership_id");
+            ? base.withIndex("by_user", (i) =>
+                i.eq("generation", ctx.generation).eq("userId", userId),
+              )
+            : base.withIndex("by_membership_id", (i) => i.eq("generation", ctx.generation));
     return paginate(
       q,
       args,
@@ -904,7 +1225,7 @@ export const tenantMembershipsGet = query({
       return got(
         await ctx.db
           .query("tenant_memberships")
-          .withIndex("by_membership_id", (q) => q.eq("id", id))
+          .withIndex("by_membership_id", (q) => q.eq("generation", ctx.generation).eq("id", id))
           .unique(),
       );
     }
@@ -912,7 +1233,9 @@ export const tenantMembershipsGet = query({
       return got(
         await ctx.db
           .query("tenant_memberships")
-          .withIndex("by_tenant_user", (q) => q.eq("tenantId", tenantId).eq("userId", userId))
+          .withIndex("by_tenant_user", (q) =>
+            q.eq("generation", ctx.generation).eq("tenantId", tenantId).eq("userId", userId),
+          )
           .unique(),
       );
     }
@@ -933,10 +1256,14 @@ export const userRoleAssignmentsList = query({
     const base = paginator(ctx.db, schema).query("user_role_assignments");
     const q =
       membershipId !== undefined
-        ? base.withIndex("by_membership", (i) => i.eq("membershipId", membershipId))
+        ? base.withIndex("by_membership", (i) =>
+            i.eq("generation", ctx.generation).eq("membershipId", membershipId),
+          )
         : roleId !== undefined
-          ? base.withIndex("by_role_id", (i) => i.eq("roleId", roleId))
-          : base.withIndex("by_assignment_id");
+          ? base.withIndex("by_role_id", (i) =>
+              i.eq("generation", ctx.generation).eq("roleId", roleId),
+            )
+          : base.withIndex("by_assignment_id", (i) => i.eq("generation", ctx.generation));
     return paginate(
       q,
       args,
@@ -954,7 +1281,7 @@ export const userRoleAssignmentsGet = query({
     return got(
       await ctx.db
         .query("user_role_assignments")
-        .withIndex("by_assignment_id", (q) => q.eq("id", args.id))
+        .withIndex("by_assignment_id", (q) => q.eq("generation", ctx.generation).eq("id", args.id))
         .unique(),
     );
   },
@@ -973,10 +1300,14 @@ export const groupRoleAssignmentsList = query({
     const base = paginator(ctx.db, schema).query("group_role_assignments");
     const q =
       groupId !== undefined
-        ? base.withIndex("by_group", (i) => i.eq("groupId", groupId))
+        ? base.withIndex("by_group", (i) =>
+            i.eq("generation", ctx.generation).eq("groupId", groupId),
+          )
         : roleId !== undefined
-          ? base.withIndex("by_role_id", (i) => i.eq("roleId", roleId))
-          : base.withIndex("by_assignment_id");
+          ? base.withIndex("by_role_id", (i) =>
+              i.eq("generation", ctx.generation).eq("roleId", roleId),
+            )
+          : base.withIndex("by_assignment_id", (i) => i.eq("generation", ctx.generation));
     return paginate(
       q,
       args,
@@ -994,7 +1325,7 @@ export const groupRoleAssignmentsGet = query({
     return got(
       await ctx.db
         .query("group_role_assignments")
-        .withIndex("by_assignment_id", (q) => q.eq("id", args.id))
+        .withIndex("by_assignment_id", (q) => q.eq("generation", ctx.generation).eq("id", args.id))
         .unique(),
     );
   },
@@ -1015,8 +1346,10 @@ export const userResourceRoleAssignmentsList = query({
     const base = paginator(ctx.db, schema).query("user_resource_role_assignments");
     const q =
       membershipId !== undefined
-        ? base.withIndex("by_membership", (i) => i.eq("membershipId", membershipId))
-        : base.withIndex("by_assignment_id");
+        ? base.withIndex("by_membership", (i) =>
+            i.eq("generation", ctx.generation).eq("membershipId", membershipId),
+          )
+        : base.withIndex("by_assignment_id", (i) => i.eq("generation", ctx.generation));
     return paginate(
       q,
       args,
@@ -1036,7 +1369,7 @@ export const userResourceRoleAssignmentsGet = query({
     return got(
       await ctx.db
         .query("user_resource_role_assignments")
-        .withIndex("by_assignment_id", (q) => q.eq("id", args.id))
+        .withIndex("by_assignment_id", (q) => q.eq("generation", ctx.generation).eq("id", args.id))
         .unique(),
     );
   },
@@ -1057,8 +1390,10 @@ export const groupResourceRoleAssignmentsList = query({
     const base = paginator(ctx.db, schema).query("group_resource_role_assignments");
     const q =
       groupId !== undefined
-        ? base.withIndex("by_group", (i) => i.eq("groupId", groupId))
-        : base.withIndex("by_assignment_id");
+        ? base.withIndex("by_group", (i) =>
+            i.eq("generation", ctx.generation).eq("groupId", groupId),
+          )
+        : base.withIndex("by_assignment_id", (i) => i.eq("generation", ctx.generation));
     return paginate(
       q,
       args,
@@ -1078,7 +1413,7 @@ export const groupResourceRoleAssignmentsGet = query({
     return got(
       await ctx.db
         .query("group_resource_role_assignments")
-        .withIndex("by_assignment_id", (q) => q.eq("id", args.id))
+        .withIndex("by_assignment_id", (q) => q.eq("generation", ctx.generation).eq("id", args.id))
         .unique(),
     );
   },
@@ -1095,14 +1430,18 @@ export const groupMembershipsList = query({
   handler: async (ctx, args): Promise<ItemsPage<GroupMembershipRecord>> => {
     const { groupId, membershipId, tenantId } = args;
     const base = paginator(ctx.db, schema).query("group_memberships");
-    // group_memberships has no own-id index; by_group with no range is the
-    // full-table scan.
+    // group_memberships has no own-id index; by_group over the generation alone
+    // is the full scan.
     const q =
       groupId !== undefined
-        ? base.withIndex("by_group", (i) => i.eq("groupId", groupId))
+        ? base.withIndex("by_group", (i) =>
+            i.eq("generation", ctx.generation).eq("groupId", groupId),
+          )
         : membershipId !== undefined
-          ? base.withIndex("by_membership", (i) => i.eq("membershipId", membershipId))
-          : base.withIndex("by_group");
+          ? base.withIndex("by_membership", (i) =>
+              i.eq("generation", ctx.generation).eq("membershipId", membershipId),
+            )
+          : base.withIndex("by_group", (i) => i.eq("generation", ctx.generation));
     return paginate(
       q,
       args,
@@ -1121,7 +1460,10 @@ export const groupMembershipsGet = query({
       await ctx.db
         .query("group_memberships")
         .withIndex("by_group_membership", (q) =>
-          q.eq("groupId", args.groupId).eq("membershipId", args.membershipId),
+          q
+            .eq("generation", ctx.generation)
+            .eq("groupId", args.groupId)
+            .eq("membershipId", args.membershipId),
         )
         .unique(),
     );
@@ -1138,12 +1480,12 @@ export const rolePermissionsList = query({
   handler: async (ctx, args): Promise<ItemsPage<RolePermissionRecord>> => {
     const { roleId, permissionId } = args;
     const base = paginator(ctx.db, schema).query("role_permissions");
-    // role_permissions has no own-id index; by_role with no range is the
-    // full-table scan.
+    // role_permissions has no own-id index; by_role over the generation alone
+    // is the full scan.
     const q =
       roleId !== undefined
-        ? base.withIndex("by_role", (i) => i.eq("roleId", roleId))
-        : base.withIndex("by_role");
+        ? base.withIndex("by_role", (i) => i.eq("generation", ctx.generation).eq("roleId", roleId))
+        : base.withIndex("by_role", (i) => i.eq("generation", ctx.generation));
     return paginate(
       q,
       args,
@@ -1161,9 +1503,53 @@ export const rolePermissionsGet = query({
       await ctx.db
         .query("role_permissions")
         .withIndex("by_role_permission", (q) =>
-          q.eq("roleId", args.roleId).eq("permissionId", args.permissionId),
+          q
+            .eq("generation", ctx.generation)
+            .eq("roleId", args.roleId)
+            .eq("permissionId", args.permissionId),
         )
         .unique(),
     );
   },
 });
+
+// ── sync log ──────────────────────────────────────────────────────────────────
+// Newest first. Every filter combination rides an index: by_entity for type
+// and id, by_entity_id for an id alone, so a page is never thinned after the
+// read.
+export const syncLogList = query({
+  args: {
+    entityType: v.optional(schema.tables.sync_log.validator.fields.entityType),
+    entityId: v.optional(v.string()),
+    since: v.optional(v.number()),
+    ...pageArgs,
+  },
+  handler: async (ctx, args): Promise<ItemsPage<SyncLogRecord>> => {
+    const { entityType, entityId, since } = args;
+    const base = paginator(ctx.db, schema).query("sync_log");
+    const q =
+      entityType === undefined
+        ? entityId === undefined
+          ? base.withIndex("by_applied_at", (i) =>
+              since === undefined ? i : i.gte("appliedAt", since),
+            )
+          : base.withIndex("by_entity_id", (i) => {
+              const eq = i.eq("entityId", entityId);
+              return since === undefined ? eq : eq.gte("appliedAt", since);
+            })
+        : entityId === undefined
+          ? base.withIndex("by_entity_type", (i) => {
+              const eq = i.eq("entityType", entityType);
+              return since === undefined ? eq : eq.gte("appliedAt", since);
+            })
+          : base.withIndex("by_entity", (i) => {
+              const eq = i.eq("entityType", entityType).eq("entityId", entityId);
+              return since === undefined ? eq : eq.gte("appliedAt", since);
+            });
+    const page = await q
+      .order("desc")
+      .paginate({ cursor: args.cursor ?? null, numItems: pageLimit(args.limit) });
+    const items = page.page.map(({ _id, _creationTime, ...entry }) => entry);
+    return { items, ...(page.isDone ? {} : { cursor: page.continueCursor }) };
+  },
+});
@@ -1,11 +1,18 @@
 import type { DataModelFromSchemaDefinition, GenericMutationCtx } from "convex/server";
 import { convexTest } from "convex-test";
 import { makeFunctionReference } from "convex/server";
-import { describe, expect, test } from "vitest";
+import { afterEach, describe, expect, test, vi } from "vitest";
 import schema from "./schema";
 import { componentModules } from "../../test/component-modules";
 
 const write = makeFunctionReference<"mutation">("resources:write");
+const list = makeFunctionReference<"query">("resources:list");
+const writeMany = makeFunctionReference<"mutation">("resources:writeMany");
+const move = makeFunctionReference<"mutation">("resources:move");
+const remove = makeFunctionReference<"mutation">("resources:remove");
+const ancestors = makeFunctionReference<"query">("resources:ancestors");
+const descendants = makeFunctionReference<"query">("resources:descendants");
+const sweep = makeFunctionReference<"mutation">("resources:sweep");
 
 type DataModel = DataModelFromSchemaDefinition<typeof schema>;
 type SeedCtx = GenericMutationCtx<DataModel>;
@@ -107,3 +114,600 @@ describe("resources.write (fails loud, never a silent no-op)", () => {
     );
   });
 });
+
+const ISSUER = "https://issuer.example";
+const TOKEN = `${ISSUER}|u1`;
+
+// `seed` plus a synced mirror, an active member m1 (user u1), and `count`
+// projects p000..p{count-1} in the primary tenant. `role-editor` carries
+// app.project:edit; who holds it (and where) is up to each test.
+async function seedProjects(ctx: SeedCtx, count: number): Promise<void> {
+  await seed(ctx);
+  await ctx.db.insert("sync_state", { sourceVersion: 1, expectedIssuer: ISSUER, lastSyncedAt: 0 });
+  await ctx.db.insert("tenant_memberships", {
+    id: "m1",
+    tenantId: "P",
+    userId: "u1",
+    status: "active",
+    updatedAt: 0,
+    sourceVersion: 1,
+  });
+  await ctx.db.insert("permissions", {
+    id: "perm-edit",
+    key: "app.project:edit",
+    isAppScope: false,
+    updatedAt: 0,
+    sourceVersion: 1,
+  });
+  await ctx.db.insert("roles", {
+    id: "role-editor",
+    key: "editor",
+    name: "Editor",
+    description: null,
+    tenantId: null,
+    isAppScope: false,
+    updatedAt: 0,
+    sourceVersion: 1,
+  });
+  await ctx.db.insert("role_permissions", {
+    roleId: "role-editor",
+    permissionId: "perm-edit",
+    updatedAt: 0,
+    sourceVersion: 1,
+  });
+  for (let index = 0; index < count; index++) {
+    const externalId = `p${String(index).padStart(3, "0")}`;
+    await ctx.db.insert("resources", {
+      id: `node-${externalId}`,
+      tenantId: "P",
+      resourceTypeId: "rt-project",
+      externalId,
+      updatedAt: 0,
+    });
+  }
+}
+
+async function grantOn(ctx: SeedCtx, externalId: string): Promise<void> {
+  await ctx.db.insert("user_resource_role_assignments", {
+    id: `urra-${externalId}`,
+    tenantId: "P",
+    membershipId: "m1",
+    roleId: "role-editor",
+    resourceTypeId: "rt-project",
+    externalId,
+    updatedAt: 0,
+    sourceVersion: 1,
+  });
+}
+
+type ListResult = {
+  items: { externalId: string }[];
+  cursor?: string;
+  scannedUntil?: string;
+};
+
+describe("resources.list (access-scoped)", () => {
+  test("fills each page with allowed nodes instead of filtering one page", async () => {
+    const t = harness();
+    await t.run(async (ctx) => {
+      await seedProjects(ctx, 12);
+      for (const externalId of ["p003", "p007", "p011"]) await grantOn(ctx, externalId);
+    });
+    const args = { tokenIdentifier: TOKEN, type: "app.project", permission: "app.project:edit" };
+
+    const first: ListResult = await t.query(list, { ...args, limit: 2 });
+    expect(first.items.map((node) => node.externalId)).toEqual(["p003", "p007"]);
+    expect(first.cursor).toBeDefined();
+    expect(first.scannedUntil).toBeUndefined();
+
+    const second: ListResult = await t.query(list, { ...args, limit: 2, cursor: first.cursor });
+    expect(second.items.map((node) => node.externalId)).toEqual(["p011"]);
+    expect(second.cursor).toBeUndefined();
+  });
+
+  test("a tenant-wide grant lists every node", async () => {
+    const t = harness();
+    await t.run(async (ctx) => {
+      await seedProjects(ctx, 12);
+      await ctx.db.insert("user_role_assignments", {
+        id: "ura1",
+        tenantId: "P",
+        membershipId: "m1",
+        roleId: "role-editor",
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+    });
+
+    const page: ListResult = await t.query(list, {
+      tokenIdentifier: TOKEN,
+      permission: "app.project:edit",
+      limit: 5,
+    });
+    expect(page.items.map((node) => node.externalId)).toEqual([
+      "p000",
+      "p001",
+      "p002",
+      "p003",
+      "p004",
+    ]);
+    expect(page.cursor).toBeDefined();
+  });
+
+  test("a deny that holds for every node returns an empty page without scanning", async () => {
+    const t = harness();
+    await t.run(async (ctx) => {
+      await seedProjects(ctx, 3);
+      await grantOn(ctx, "p001");
+    });
+
+    const page: ListResult = await t.query(list, { permission: "app.project:edit" });
+    expect(page).toEqual({ items: [] });
+  });
+
+  test("stops at the scan budget with a short page and scannedUntil", async () => {
+    const t = harness();
+    await t.run(async (ctx) => {
+      await seedProjects(ctx, 510);
+      await grantOn(ctx, "p505");
+    });
+    const args = { tokenIdentifier: TOKEN, permission: "app.project:edit" };
+
+    const first: ListResult = await t.query(list, args);
+    expect(first.items).toEqual([]);
+    expect(first.scannedUntil).toBeDefined();
+    expect(first.cursor).toBe(first.scannedUntil);
+
+    const second: ListResult = await t.query(list, { ...args, cursor: first.cursor });
+    expect(second.items.map((node) => node.externalId)).toEqual(["p505"]);
+    expect(second.cursor).toBeUndefined();
+  });
+});
+
+// A folder type nested under itself (app.folder in app.folder) on top of the
+// project/document catalog, so subtrees can be arbitrarily deep.
+async function seedFolders(ctx: SeedCtx): Promise<void> {
+  await seed(ctx);
+  await ctx.db.insert("resource_types", {
+    id: "rt-folder",
+    key: "app.folder",
+    name: "Folder",
+    parentResourceTypeId: "rt-folder",
+    updatedAt: 0,
+    sourceVersion: 1,
+  });
+}
+
+async function countNodes(t: ReturnType<typeof harness>): Promise<number> {
+  return await t.run(async (ctx) => (await ctx.db.query("resources").collect()).length);
+}
+
+describe("resources.writeMany", () => {
+  test("writes parents before children and reports bad items per index", async () => {
+    const t = harness();
+    await t.run(seed);
+
+    const results = await t.mutation(writeMany, {
+      nodes: [
+        {
+          type: "app.document",
+          externalId: "d1",
+          parent: { type: "app.project", externalId: "p1" },
+        },
+        { type: "app.task", externalId: "t1" },
+        { type: "app.project", externalId: "p1" },
+        {
+          type: "app.document",
+          externalId: "d2",
+          parent: { type: "app.document", externalId: "d1" },
+        },
+      ],
+    });
+
+    expect(results).toEqual([
+      {
+        status: "ok",
+        node: {
+          type: "app.document",
+          externalId: "d1",
+          parent: { type: "app.project", externalId: "p1" },
+        },
+      },
+      { status: "IAM_CONFIG", message: expect.stringMatching(/Unknown resource type "app.task"/) },
+      { status: "ok", node: { type: "app.project", externalId: "p1" } },
+      { status: "IAM_CONFIG", message: expect.stringMatching(/declares parent/) },
+    ]);
+    const written = await t.run(async (ctx) =>
+      (await ctx.db.query("resources").collect()).map((row) => row.externalId).sort(),
+    );
+    expect(written).toEqual(["d1", "p1"]);
+  });
+
+  test("reports mirror_not_ready for every item before the first sync", async () => {
+    const t = harness();
+
+    expect(
+      await t.mutation(writeMany, {
+        nodes: [
+          { type: "app.project", externalId: "p1" },
+          { type: "app.project", externalId: "p2" },
+        ],
+      }),
+    ).toEqual([
+      { status: "mirror_not_ready", message: expect.any(String) },
+      { status: "mirror_not_ready", message: expect.any(String) },
+    ]);
+  });
+});
+
+describe("resources.move", () => {
+  test("re-parents a node under a parent of the declared type", async () => {
+    const t = harness();
+    await t.run(seed);
+    await t.mutation(write, { type: "app.project", externalId: "p1" });
+    await t.mutation(write, { type: "app.project", externalId: "p2" });
+    await t.mutation(write, {
+      type: "app.document",
+      externalId: "d1",
+      parent: { type: "app.project", externalId: "p1" },
+    });
+
+    const moved = await t.mutation(move, {
+      type: "app.document",
+      externalId: "d1",
+      newParent: { type: "app.project", externalId: "p2" },
+    });
+    expect(moved).toEqual({
+      type: "app.document",
+      externalId: "d1",
+      parent: { type: "app.project", externalId: "p2" },
+    });
+
+    const detached = await t.mutation(move, {
+      type: "app.document",
+      externalId: "d1",
+      newParent: null,
+    });
+    expect(detached).toEqual({ type: "app.document", externalId: "d1" });
+  });
+
+  test("throws IAM_CONFIG when the new parent has the wrong type", async () => {
+    const t = harness();
+    await t.run(seedFolders);
+    await t.mutation(write, { type: "app.folder", externalId: "f1" });
+    await t.mutation(write, { type: "app.project", externalId: "p1" });
+
+    await expect(
+      t.mutation(move, {
+        type: "app.folder",
+        externalId: "f1",
+        newParent: { type: "app.project", externalId: "p1" },
+      }),
+    ).rejects.toThrow(/declares parent/);
+  });
+
+  test("rejects a missing new parent and a move into the node's own subtree", async () => {
+    const t = harness();
+    await t.run(seedFolders);
+    await t.mutation(write, { type: "app.folder", externalId: "f1" });
+    await t.mutation(write, {
+      type: "app.folder",
+      externalId: "f2",
+      parent: { type: "app.folder", externalId: "f1" },
+    });
+
+    await expect(
+      t.mutation(move, {
+        type: "app.folder",
+        externalId: "f1",
+        newParent: { type: "app.folder", externalId: "missing" },
+      }),
+    ).rejects.toThrow(/does not exist/);
+    await expect(
+      t.mutation(move, {
+        type: "app.folder",
+        externalId: "f1",
+        newParent: { type: "app.folder", externalId: "f2" },
+      }),
+    ).rejects.toThrow(/under itself or one of its descendants/);
+  });
+
+  test("returns null for a node that does not exist", async () => {
+    const t = harness();
+    await t.run(seed);
+
+    expect(
+      await t.mutation(move, { type: "app.project", externalId: "p1", newParent: null }),
+    ).toBeNull();
+  });
+});
+
+describe("resources.remove", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("without cascade leaves children in place", async () => {
+    const t = harness();
+    await t.run(seed);
+    await t.mutation(write, { type: "app.project", externalId: "p1" });
+    await t.mutation(write, {
+      type: "app.document",
+      externalId: "d1",
+      parent: { type: "app.project", externalId: "p1" },
+    });
+
+    expect(await t.mutation(remove, { type: "app.project", externalId: "p1" })).toEqual({
+      deleted: true,
+    });
+    expect(await countNodes(t)).toBe(1);
+  });
+
+  test("cascade removes a nested subtree and nothing outside it", async () => {
+    const t = harness();
+    await t.run(seedFolders);
+    await t.mutation(write, { type: "app.folder", externalId: "root" });
+    await t.mutation(write, { type: "app.folder", externalId: "other" });
+    let parent = "root";
+    for (const externalId of ["a", "b", "c"]) {
+      await t.mutation(write, {
+        type: "app.folder",
+        externalId,
+        parent: { type: "app.folder", externalId: parent },
+      });
+      await t.mutation(write, {
+        type: "app.folder",
+        externalId: `${externalId}-leaf`,
+        parent: { type: "app.folder", externalId: parent },
+      });
+      parent = externalId;
+    }
+
+    const result = await t.mutation(remove, {
+      type: "app.folder",
+      externalId: "root",
+      cascade: true,
+    });
+    expect(result).toEqual({ deleted: true, descendantsDeleted: 6, continuing: false });
+    const remaining = await t.run(async (ctx) =>
+      (await ctx.db.query("resources").collect()).map((row) => row.externalId),
+    );
+    expect(remaining).toEqual(["other"]);
+  });
+
+  test("cascade past one batch continues in scheduled mutations", async () => {
+    vi.useFakeTimers();
+    const t = harness();
+    await t.run(async (ctx) => {
+      await seedFolders(ctx);
+      await ctx.db.insert("resources", {
+        id: "node-root",
+        tenantId: "P",
+        resourceTypeId: "rt-folder",
+        externalId: "root",
+        updatedAt: 0,
+      });
+      for (let index = 0; index < 300; index++) {
+        await ctx.db.insert("resources", {
+          id: `node-${index}`,
+          tenantId: "P",
+          resourceTypeId: "rt-folder",
+          externalId: `f${index}`,
+          updatedAt: 0,
+          parentId: index < 150 ? "node-root" : `node-${index - 150}`,
+        });
+      }
+    });
+
+    const result = await t.mutation(remove, {
+      type: "app.folder",
+      externalId: "root",
+      cascade: true,
+    });
+    expect(result).toMatchObject({ deleted: true, continuing: true });
+    expect(result.descendantsDeleted).toBe(255);
+    expect(await countNodes(t)).toBe(45);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(await countNodes(t)).toBe(0);
+  });
+});
+
+describe("resources traversal", () => {
+  // project p1 > folder f1 > folder f2 > document d1, plus document d0 directly
+  // under f1. Seeded as raw rows: reads follow parentId edges whatever the
+  // catalog declares.
+  async function seedTree(t: ReturnType<typeof harness>): Promise<void> {
+    await t.run(async (ctx) => {
+      await seedFolders(ctx);
+      for (const [id, externalId, typeId, parentId] of [
+        ["n-p1", "p1", "rt-project", undefined],
+        ["n-f1", "f1", "rt-folder", "n-p1"],
+        ["n-f2", "f2", "rt-folder", "n-f1"],
+        ["n-d0", "d0", "rt-document", "n-f1"],
+        ["n-d1", "d1", "rt-document", "n-f2"],
+      ] as const) {
+        await ctx.db.insert("resources", {
+          id,
+          tenantId: "P",
+          resourceTypeId: typeId,
+          externalId,
+          updatedAt: 0,
+          ...(parentId === undefined ? {} : { parentId }),
+        });
+      }
+    });
+  }
+
+  test("ancestors returns the breadcrumb path root first", async () => {
+    const t = harness();
+    await seedTree(t);
+
+    expect(await t.query(ancestors, { type: "app.document", externalId: "d1" })).toEqual([
+      { type: "app.project", externalId: "p1" },
+      { type: "app.folder", externalId: "f1", parent: { type: "app.project", externalId: "p1" } },
+      { type: "app.folder", externalId: "f2", parent: { type: "app.folder", externalId: "f1" } },
+    ]);
+    expect(await t.query(ancestors, { type: "app.project", externalId: "p1" })).toEqual([]);
+    expect(await t.query(ancestors, { type: "app.document", externalId: "nope" })).toEqual([]);
+  });
+
+  test("ancestors stops at a deleted parent, as the access check does", async () => {
+    const t = harness();
+    await seedTree(t);
+    await t.run(async (ctx) => {
+      const f1 = await ctx.db
+        .query("resources")
+        .withIndex("by_resource_id", (q) => q.eq("id", "n-f1"))
+        .unique();
+      await ctx.db.delete(f1!._id);
+    });
+
+    expect(await t.query(ancestors, { type: "app.document", externalId: "d1" })).toEqual([
+      { type: "app.folder", externalId: "f2" },
+    ]);
+  });
+
+  test("descendants reads the subtree level by level", async () => {
+    const t = harness();
+    await seedTree(t);
+
+    const all = await t.query(descendants, { type: "app.project", externalId: "p1" });
+    expect(all).toEqual({
+      items: [
+        { type: "app.folder", externalId: "f1", parent: { type: "app.project", externalId: "p1" } },
+        { type: "app.folder", externalId: "f2", parent: { type: "app.folder", externalId: "f1" } },
+        {
+          type: "app.document",
+          externalId: "d0",
+          parent: { type: "app.folder", externalId: "f1" },
+        },
+        {
+          type: "app.document",
+          externalId: "d1",
+          parent: { type: "app.folder", externalId: "f2" },
+        },
+      ],
+    });
+  });
+
+  test("descendants honors depth and filters by type without pruning", async () => {
+    const t = harness();
+    await seedTree(t);
+
+    const shallow = await t.query(descendants, {
+      type: "app.project",
+      externalId: "p1",
+      depth: 2,
+    });
+    expect(shallow.items.map((node: { externalId: string }) => node.externalId)).toEqual([
+      "f1",
+      "f2",
+      "d0",
+    ]);
+
+    const documents = await t.query(descendants, {
+      type: "app.project",
+      externalId: "p1",
+      descendantType: "app.document",
+    });
+    expect(documents.items.map((node: { externalId: string }) => node.externalId)).toEqual([
+      "d0",
+      "d1",
+    ]);
+  });
+});
+
+describe("resources.sweep", () => {
+  // One healthy edge (d-ok under p1) and one node per issue kind.
+  async function seedBroken(t: ReturnType<typeof harness>): Promise<void> {
+    await t.run(async (ctx) => {
+      await seed(ctx);
+      await ctx.db.insert("tenants", {
+        id: "T2",
+        name: "Other",
+        isPrimaryTenant: false,
+        status: "active",
+        accessMode: "open",
+        defaultRoleId: null,
+        updatedAt: 0,
+        sourceVersion: 1,
+      });
+      for (const [id, tenantId, resourceTypeId, parentId] of [
+        ["n-p1", "P", "rt-project", undefined],
+        ["n-ok", "P", "rt-document", "n-p1"],
+        ["n-gone-tenant", "T-deleted", "rt-project", undefined],
+        ["n-gone-type", "P", "rt-deleted", undefined],
+        ["n-dangling", "P", "rt-document", "n-missing"],
+        ["n-p2", "T2", "rt-project", undefined],
+        ["n-cross", "P", "rt-document", "n-p2"],
+      ] as const) {
+        await ctx.db.insert("resources", {
+          id,
+          tenantId,
+          resourceTypeId,
+          externalId: id,
+          updatedAt: 0,
+          ...(parentId === undefined ? {} : { parentId }),
+        });
+      }
+    });
+  }
+
+  test("reports each broken node under its most severe issue", async () => {
+    const t = harness();
+    await seedBroken(t);
+
+    const report = await t.mutation(sweep, {});
+    expect(report.scanned).toBe(7);
+    expect(report.cursor).toBeUndefined();
+    expect(report.counts).toEqual({
+      missing_tenant: 1,
+      unknown_type: 1,
+      dangling_parent: 1,
+      cross_tenant_parent: 1,
+    });
+    expect(
+      report.issues.map((issue: { kind: string; nodeId: string }) => [issue.kind, issue.nodeId]),
+    ).toEqual(
+      expect.arrayContaining([
+        ["missing_tenant", "n-gone-tenant"],
+        ["unknown_type", "n-gone-type"],
+        ["dangling_parent", "n-dangling"],
+        ["cross_tenant_parent", "n-cross"],
+      ]),
+    );
+    expect(await countNodes(t)).toBe(7);
+  });
+
+  test("repair deletes unaddressable nodes and clears broken edges", async () => {
+    const t = harness();
+    await seedBroken(t);
+
+    const repaired = await t.mutation(sweep, { repair: true });
+    expect(repaired.issues.every((issue: { repaired: boolean }) => issue.repaired)).toBe(true);
+
+    const rows = await t.run(async (ctx) => ctx.db.query("resources").collect());
+    expect(Object.fromEntries(rows.map((row) => [row.id, row.parentId ?? null]))).toEqual({
+      "n-p1": null,
+      "n-ok": "n-p1",
+      "n-dangling": null,
+      "n-p2": null,
+      "n-cross": null,
+    });
+    expect((await t.mutation(sweep, {})).issues).toEqual([]);
+  });
+
+  test("pages through the table with cursor", async () => {
+    const t = harness();
+    await seedBroken(t);
+
+    const first = await t.mutation(sweep, { limit: 4 });
+    expect(first.scanned).toBe(4);
+    expect(first.cursor).toBeDefined();
+    const second = await t.mutation(sweep, { limit: 4, cursor: first.cursor });
+    expect(second.scanned).toBe(3);
+    expect(second.cursor).toBeUndefined();
+    expect(first.issues.length + second.issues.length).toBe(4);
+  });
+});
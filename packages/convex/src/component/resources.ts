@@ -1,4 +1,6 @@
 import {
+  internalMutationGeneric,
+  makeFunctionReference,
   mutationGeneric,
   queryGeneric,
   type DataModelFromSchemaDefinition,
@@ -7,19 +9,39 @@ import {
   type MutationBuilder,
   type QueryBuilder,
 } from "convex/server";
+import { customCtx, customMutation, customQuery } from "convex-helpers/server/customFunctions";
 import { paginator } from "convex-helpers/server/pagination";
 import { ConvexError, v } from "convex/values";
-import { composeKey, evaluateAccess, resolveTenantRow } from "./access";
+import {
+  MAX_RESOURCE_DEPTH,
+  composeKey,
+  createAccessCache,
+  evaluateAccess,
+  loadGeneration,
+  resolveTenantRow,
+  walkResourceChain,
+  type Generation,
+  type MirrorCtx,
+} from "./access";
 import schema from "./schema";
 
 type DataModel = DataModelFromSchemaDefinition<typeof schema>;
 type QueryCtx = GenericQueryCtx<DataModel>;
 type MutationCtx = GenericMutationCtx<DataModel>;
+type MirrorMutationCtx = MutationCtx & { generation: Generation };
 type ResourceRow = DataModel["resources"]["document"];
 type ResourceTypeRow = DataModel["resource_types"]["document"];
 
-const query = queryGeneric as QueryBuilder<DataModel, "public">;
-const mutation = mutationGeneric as MutationBuilder<DataModel, "public">;
+// The public functions read the mirror generation sync_state points at.
+const atMirrorGeneration = customCtx(async (ctx: QueryCtx) => ({
+  generation: await loadGeneration(ctx),
+}));
+const query = customQuery(queryGeneric as QueryBuilder<DataModel, "public">, atMirrorGeneration);
+const mutation = customMutation(
+  mutationGeneric as MutationBuilder<DataModel, "public">,
+  atMirrorGeneration,
+);
+const internalMutation = internalMutationGeneric as MutationBuilder<DataModel, "internal">;
 
 const PAGE_LIMIT = 100;
 function pageLimit(limit: number | undefined): number {
@@ -33,25 +55,46 @@ export type ResourceNode = {
   parent?: { type: string; externalId: string };
 };
 
-export type ResourceNodesPage = { items: ResourceNode[]; cursor?: string };
+// A bounded subtree read: `truncated` when DESCENDANT_LIMIT cut it short (page
+// the remainder level by level with the parent filter of `list`).
+export type ResourceDescendants = { items: ResourceNode[]; truncated?: boolean };
+
+// Most nodes one descendants read examines.
+const DESCENDANT_LIMIT = 1000;
+
+// `scannedUntil` is set when the scan budget ran out before `limit` matching
+// nodes were found: the page is short, but `cursor` still continues the scan.
+export type ResourceNodesPage = { items: ResourceNode[]; cursor?: string; scannedUntil?: string };
+
+// Upper bound on the rows one list call may examine while filling a page. A
+// filtered list (access-scoped, or a type filter under a parent) scans forward
+// past non-matching rows until the page is full or this is spent. Must be at
+// least PAGE_LIMIT so an unfiltered page always fills in one scan.
+const SCAN_BUDGET = 500;
 
 const parentValidator = v.object({ type: v.string(), externalId: v.string() });
 
 // resource_types are addressed by KEY on the wire but stored/linked by id in the
 // node graph. These two resolvers bridge the two spaces; the id→key resolver is
-// cache-backed so a page of nodes resolves each type once.
+// cache-backed so a page of nodes resolves each type once. The key→row resolver
+// takes an optional cache for batched writes.
 async function resolveResourceTypeByKey(
-  ctx: QueryCtx,
+  ctx: MirrorCtx,
   key: string,
+  cache?: Map<string, ResourceTypeRow | null>,
 ): Promise<ResourceTypeRow | null> {
-  return await ctx.db
+  const cached = cache?.get(key);
+  if (cached !== undefined) return cached;
+  const row = await ctx.db
     .query("resource_types")
-    .withIndex("by_key", (q) => q.eq("key", key))
+    .withIndex("by_key", (q) => q.eq("generation", ctx.generation).eq("key", key))
     .unique();
+  cache?.set(key, row);
+  return row;
 }
 
 async function resourceTypeKey(
-  ctx: QueryCtx,
+  ctx: MirrorCtx,
   resourceTypeId: string,
   cache: Map<string, string | null>,
 ): Promise<string | null> {
@@ -59,7 +102,9 @@ async function resourceTypeKey(
   if (cached !== undefined) return cached;
   const row = await ctx.db
     .query("resource_types")
-    .withIndex("by_resource_type_id", (q) => q.eq("id", resourceTypeId))
+    .withIndex("by_resource_type_id", (q) =>
+      q.eq("generation", ctx.generation).eq("id", resourceTypeId),
+    )
     .unique();
   const key = row?.key ?? null;
   cache.set(resourceTypeId, key);
@@ -71,7 +116,7 @@ async function resourceTypeKey(
 // type key + externalId. Returns null when the node's own type key cannot be
 // resolved (an orphaned resourceTypeId).
 async function toNode(
-  ctx: QueryCtx,
+  ctx: MirrorCtx,
   row: ResourceRow,
   cache: Map<string, string | null>,
 ): Promise<ResourceNode | null> {
@@ -102,19 +147,19 @@ function resourceNodeId(tenantId: string, resourceTypeId: string, externalId: st
 
 // Resolve the access tenant for a write, defaulting to the primary tenant.
 async function resolveWriteTenantId(
-  ctx: MutationCtx,
+  ctx: MirrorMutationCtx,
   tenantId: string | undefined,
 ): Promise<string | null> {
   if (tenantId !== undefined) {
     const tenant = await ctx.db
       .query("tenants")
-      .withIndex("by_tenant_id", (q) => q.eq("id", tenantId))
+      .withIndex("by_tenant_id", (q) => q.eq("generation", ctx.generation).eq("id", tenantId))
       .unique();
     return tenant?.id ?? tenantId;
   }
   const primary = await ctx.db
     .query("tenants")
-    .withIndex("by_primary", (q) => q.eq("isPrimaryTenant", true))
+    .withIndex("by_primary", (q) => q.eq("generation", ctx.generation).eq("isPrimaryTenant", true))
     .first();
   return primary?.id ?? null;
 }
@@ -134,8 +179,11 @@ async function resolveResourceRow(
 }
 
 // resource.list - the access-scoped resource listing. When `permission` is
-// provided, each node is filtered through the same allow-only check used by
-// access.hasPermissions, so the page contains only resources the caller may access.
+// provided, only nodes the caller may access under it (the same allow-only
+// check used by access.hasPermissions) count toward the page. Filtering happens
+// while scanning, not after paginating: the scan moves forward until `limit`
+// nodes match or SCAN_BUDGET rows have been examined, so a page comes back
+// short only at the end of the list or when the budget runs out (`scannedUntil`).
 export const list = query({
   args: {
     tokenIdentifier: v.optional(v.string()),
@@ -171,54 +219,86 @@ export const list = query({
           })();
     if (parentNodeId === null) return { items: [] };
 
-    const page =
+    const scan = (cursor: string | null, numItems: number) =>
       parentNodeId !== undefined
-        ? await paginator(ctx.db, schema)
+        ? paginator(ctx.db, schema)
             .query("resources")
             .withIndex("by_parent", (q) => q.eq("parentId", parentNodeId))
-            .paginate({ cursor: args.cursor ?? null, numItems: limit })
+            .paginate({ cursor, numItems })
         : childTypeId !== undefined
-          ? await paginator(ctx.db, schema)
+          ? paginator(ctx.db, schema)
               .query("resources")
               .withIndex("by_resource", (q) =>
                 q.eq("tenantId", tenantId).eq("resourceTypeId", childTypeId),
               )
-              .paginate({ cursor: args.cursor ?? null, numItems: limit })
-          : await paginator(ctx.db, schema)
+              .paginate({ cursor, numItems })
+          : paginator(ctx.db, schema)
               .query("resources")
               .withIndex("by_resource", (q) => q.eq("tenantId", tenantId))
-              .paginate({ cursor: args.cursor ?? null, numItems: limit });
-
-    let rows = page.page;
-    if (parentNodeId !== undefined && childTypeId !== undefined) {
-      rows = rows.filter((row) => row.resourceTypeId === childTypeId);
-    }
+              .paginate({ cursor, numItems });
 
     const cache = new Map<string, string | null>();
+    // The by_parent index cannot also range over the type: filter it per row.
+    const typeMatches = (row: ResourceRow) =>
+      parentNodeId === undefined || childTypeId === undefined || row.resourceTypeId === childTypeId;
+    let matches = async (row: ResourceRow): Promise<boolean> => typeMatches(row);
+
     if (args.permission !== undefined) {
       const permission = args.permission;
-      const allowed = await Promise.all(
-        rows.map(async (row) => {
+      const identity =
+        args.tokenIdentifier === undefined ? {} : { tokenIdentifier: args.tokenIdentifier };
+      // Every row is checked for the same caller and tenant: share the
+      // membership and role expansion across the scan.
+      const accessCache = createAccessCache();
+      // Fast path: a permission held tenant-wide covers every node, so no
+      // per-row evaluation is needed. Any deny other than permission_denied
+      // (identity, mirror, tenant, membership, unknown permission) holds for
+      // every node too, so only that one leaves resource-scoped grants to find.
+      const tenantWide = await evaluateAccess(
+        ctx,
+        { ...identity, tenantId, permissionKey: permission },
+        accessCache,
+      );
+      if (!tenantWide.allowed) {
+        if (tenantWide.reasonCode !== "permission_denied") return { items: [] };
+        matches = async (row) => {
+          if (!typeMatches(row)) return false;
           const typeKey = await resourceTypeKey(ctx, row.resourceTypeId, cache);
           if (typeKey === null) return false;
-          const decision = await evaluateAccess(ctx, {
-            ...(args.tokenIdentifier === undefined
-              ? {}
-              : { tokenIdentifier: args.tokenIdentifier }),
-            tenantId,
-            permissionKey: permission,
-            resource: { type: typeKey, externalId: row.externalId },
-          });
+          const decision = await evaluateAccess(
+            ctx,
+            {
+              ...identity,
+              tenantId,
+              permissionKey: permission,
+              resource: { type: typeKey, externalId: row.externalId },
+            },
+            accessCache,
+          );
           return decision.allowed;
-        }),
-      );
-      rows = rows.filter((_row, index) => allowed[index]);
+        };
+      }
     }
 
-    const items = (await Promise.all(rows.map((row) => toNode(ctx, row, cache)))).filter(
-      (node): node is ResourceNode => node !== null,
-    );
-    return { items, ...(page.isDone ? {} : { cursor: page.continueCursor }) };
+    // Each scan asks for exactly the rows still needed (capped by what is
+    // left of the budget), so a full page ends on its last item and the
+    // continue cursor never skips a matching row.
+    const items: ResourceNode[] = [];
+    let cursor = args.cursor ?? null;
+    let scanned = 0;
+    for (;;) {
+      const page = await scan(cursor, Math.min(limit - items.length, SCAN_BUDGET - scanned));
+      scanned += page.page.length;
+      const matched = await Promise.all(page.page.map((row) => matches(row)));
+      const nodes = await Promise.all(
+        page.page.filter((_row, index) => matched[index]).map((row) => toNode(ctx, row, cache)),
+      );
+      items.push(...nodes.filter((node): node is ResourceNode => node !== null));
+      if (page.isDone) return { items };
+      cursor = page.continueCursor;
+      if (items.length >= limit) return { items, cursor };
+      if (scanned >= SCAN_BUDGET) return { items, cursor, scannedUntil: cursor };
+    }
   },
 });
 
@@ -251,6 +331,197 @@ export const get = query({
   },
 });
 
+// The node id a child of `childType` stores as its parentId for `parent`,
+// after checking `parent.type` against the child type's declared
+// parentResourceTypeId. A mismatch is a catalog error (IAM_CONFIG), thrown so
+// the calling mutation rolls back.
+async function resolveParentNodeId(
+  ctx: MirrorCtx,
+  tenantId: string,
+  childType: ResourceTypeRow,
+  parent: { type: string; externalId: string },
+  typesByKey?: Map<string, ResourceTypeRow | null>,
+): Promise<string> {
+  if (childType.parentResourceTypeId === null) {
+    throw new ConvexError({
+      code: "IAM_CONFIG",
+      message: `Resource type "${childType.key}" declares no parent in .hercules/iam.jsonc, but a parent was supplied. Add "parent" to the type declaration or drop the parent argument.`,
+    });
+  }
+  const parentType = await resolveResourceTypeByKey(ctx, parent.type, typesByKey);
+  if (!parentType || parentType.id !== childType.parentResourceTypeId) {
+    const expectedKey = await resourceTypeKey(
+      ctx,
+      childType.parentResourceTypeId,
+      new Map<string, string | null>(),
+    );
+    throw new ConvexError({
+      code: "IAM_CONFIG",
+      message: `Resource type "${childType.key}" declares parent "${expectedKey ?? childType.parentResourceTypeId}", but the supplied parent has type "${parent.type}".`,
+    });
+  }
+  return resourceNodeId(tenantId, childType.parentResourceTypeId, parent.externalId);
+}
+
+// resource.ancestors - the breadcrumb path above a node, root first and the
+// direct parent last (the node itself excluded). It is exactly the chain a
+// resource-scoped check inherits through: the walk stops at a dangling or
+// cross-tenant parent, a cycle, or MAX_RESOURCE_DEPTH ancestors. Empty for a
+// root or a missing node.
+export const ancestors = query({
+  args: {
+    tenantId: v.optional(v.string()),
+    type: v.string(),
+    externalId: v.string(),
+  },
+  handler: async (ctx, args): Promise<ResourceNode[]> => {
+    const tenant = await resolveTenantRow(ctx, args.tenantId);
+    if (!tenant) return [];
+    const nodeType = await resolveResourceTypeByKey(ctx, args.type);
+    if (!nodeType) return [];
+    const { links } = await walkResourceChain(ctx, tenant.id, nodeType.id, args.externalId);
+    const cache = new Map<string, string | null>([[nodeType.id, nodeType.key]]);
+    const refs = await Promise.all(
+      links.map(async (link) => {
+        const type = await resourceTypeKey(ctx, link.resourceTypeId, cache);
+        return type === null ? null : { type, externalId: link.externalId };
+      }),
+    );
+    const path: ResourceNode[] = [];
+    for (let index = links.length - 1; index >= 1; index--) {
+      const ref = refs[index];
+      // An ancestor whose type left the catalog cannot be addressed by key.
+      if (!ref) continue;
+      const parent = refs[index + 1];
+      path.push({ ...ref, ...(parent ? { parent } : {}) });
+    }
+    return path;
+  },
+});
+
+// resource.descendants - the subtree below a node, level by level (children
+// first), down to `depth` levels (default and cap: MAX_RESOURCE_DEPTH).
+// `descendantType` filters what is returned, not what is traversed: a folder's
+// documents are found through its sub-folders. Examines at most
+// DESCENDANT_LIMIT nodes. Empty for a missing node.
+export const descendants = query({
+  args: {
+    tenantId: v.optional(v.string()),
+    type: v.string(),
+    externalId: v.string(),
+    depth: v.optional(v.number()),
+    descendantType: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<ResourceDescendants> => {
+    const tenant = await resolveTenantRow(ctx, args.tenantId);
+    if (!tenant) return { items: [] };
+    const nodeType = await resolveResourceTypeByKey(ctx, args.type);
+    if (!nodeType) return { items: [] };
+    // An unknown descendant type matches nothing.
+    const descendantTypeId =
+      args.descendantType === undefined
+        ? undefined
+        : ((await resolveResourceTypeByKey(ctx, args.descendantType))?.id ?? null);
+    if (descendantTypeId === null) return { items: [] };
+    const maxDepth =
+      args.depth === undefined || args.depth <= 0
+        ? MAX_RESOURCE_DEPTH
+        : Math.min(args.depth, MAX_RESOURCE_DEPTH);
+
+    const root = await resolveResourceRow(ctx, tenant.id, nodeType.id, args.externalId);
+    if (!root) return { items: [] };
+
+    const cache = new Map<string, string | null>([[nodeType.id, nodeType.key]]);
+    const visited = new Set<string>([root.id]);
+    let level: { id: string; ref: { type: string; externalId: string } }[] = [
+      { id: root.id, ref: { type: nodeType.key, externalId: args.externalId } },
+    ];
+    const items: ResourceNode[] = [];
+    // Counts every row examined, returned or not, so a subtree made mostly of
+    // filtered-out types is bounded too.
+    let examined = 0;
+    for (let depth = 1; depth <= maxDepth && level.length > 0; depth++) {
+      const next: typeof level = [];
+      for (const { id, ref } of level) {
+        const children = await ctx.db
+          .query("resources")
+          .withIndex("by_parent", (q) => q.eq("parentId", id))
+          .take(DESCENDANT_LIMIT - examined + 1);
+        for (const child of children) {
+          if (examined === DESCENDANT_LIMIT) return { items, truncated: true };
+          examined += 1;
+          if (visited.has(child.id) || child.tenantId !== tenant.id) continue;
+          visited.add(child.id);
+          const type = await resourceTypeKey(ctx, child.resourceTypeId, cache);
+          if (type === null) continue;
+          const childRef = { type, externalId: child.externalId };
+          next.push({ id: child.id, ref: childRef });
+          if (descendantTypeId === undefined || child.resourceTypeId === descendantTypeId) {
+            items.push({ ...childRef, parent: ref });
+          }
+        }
+      }
+      level = next;
+    }
+    return { items };
+  },
+});
+
+const MIRROR_NOT_READY_MESSAGE =
+  "The IAM mirror has no tenant yet; retry after the projection syncs.";
+
+type NodeInput = {
+  type: string;
+  externalId: string;
+  parent?: { type: string; externalId: string };
+};
+
+// Upsert one node into a resolved tenant. Throws IAM_CONFIG for an undeclared
+// type or a parent that does not match the type's declared parent, before
+// anything is written.
+async function upsertNode(
+  ctx: MirrorMutationCtx,
+  tenantId: string,
+  input: NodeInput,
+  typesByKey?: Map<string, ResourceTypeRow | null>,
+): Promise<ResourceNode> {
+  const childType = await resolveResourceTypeByKey(ctx, input.type, typesByKey);
+  if (!childType) {
+    throw new ConvexError({
+      code: "IAM_CONFIG",
+      message: `Unknown resource type "${input.type}". Declare it under resourceTypes in .hercules/iam.jsonc and redeploy before writing nodes of this type.`,
+    });
+  }
+
+  const parentId =
+    input.parent === undefined
+      ? undefined
+      : await resolveParentNodeId(ctx, tenantId, childType, input.parent, typesByKey);
+
+  const id = resourceNodeId(tenantId, childType.id, input.externalId);
+  const row = {
+    id,
+    tenantId,
+    resourceTypeId: childType.id,
+    externalId: input.externalId,
+    updatedAt: Date.now(),
+    ...(parentId === undefined ? {} : { parentId }),
+  };
+  const existing = await resolveResourceRow(ctx, tenantId, childType.id, input.externalId);
+  if (existing) await ctx.db.replace(existing._id, row);
+  else await ctx.db.insert("resources", row);
+  const node = await toNode(
+    ctx,
+    row as ResourceRow,
+    new Map<string, string | null>([[childType.id, childType.key]]),
+  );
+  if (!node) {
+    // Unreachable: the child type was resolved above and seeds the cache.
+    throw new ConvexError({ code: "IAM_CONFIG", message: "Failed to resolve the written node." });
+  }
+  return node;
+}
+
 // resource.write - upsert a resource NODE into the component graph. The app owns
 // resource lifecycle; this is a trusted write (no permission gate). The parent
 // edge is stored as the parent's deterministic node id, computed from the
@@ -275,52 +546,151 @@ export const write = mutation({
       throw new ConvexError({
         code: "ACCESS_DENIED",
         reasonCode: "mirror_not_ready",
-        message: "The IAM mirror has no tenant yet; retry after the projection syncs.",
+        message: MIRROR_NOT_READY_MESSAGE,
       });
     }
-    const childType = await resolveResourceTypeByKey(ctx, args.type);
-    if (!childType) {
-      throw new ConvexError({
-        code: "IAM_CONFIG",
-        message: `Unknown resource type "${args.type}". Declare it under resourceTypes in .hercules/iam.jsonc and redeploy before writing nodes of this type.`,
-      });
+    return await upsertNode(ctx, tenantId, {
+      type: args.type,
+      externalId: args.externalId,
+      ...(args.parent === undefined ? {} : { parent: args.parent }),
+    });
+  },
+});
+
+// Most nodes one writeMany call accepts: a single transaction writes them all.
+const WRITE_MANY_LIMIT = 500;
+
+// One writeMany item's outcome, aligned with the input by index. The error
+// statuses mirror what `write` would have thrown for the item.
+export type ResourceWriteResult =
+  | { status: "ok"; node: ResourceNode }
+  | { status: "IAM_CONFIG" | "mirror_not_ready"; message: string };
+
+// Indices of `nodes` ordered so a node whose parent is also in the batch comes
+// after that parent (so its result can report the parent); input order
+// otherwise. A parent cycle inside the batch just keeps input order around it.
+function parentsFirst(nodes: NodeInput[]): number[] {
+  const indexByRef = new Map<string, number>();
+  nodes.forEach((node, index) => indexByRef.set(composeKey(node.type, node.externalId), index));
+  const order: number[] = [];
+  const seen = new Set<number>();
+  const visit = (index: number) => {
+    if (seen.has(index)) return;
+    seen.add(index);
+    const parent = nodes[index]?.parent;
+    const parentIndex =
+      parent === undefined ? undefined : indexByRef.get(composeKey(parent.type, parent.externalId));
+    if (parentIndex !== undefined) visit(parentIndex);
+    order.push(index);
+  };
+  nodes.forEach((_node, index) => visit(index));
+  return order;
+}
+
+// resource.writeMany - `write` for a batch (imports, backfills). Types and
+// parent types are resolved once per batch, parents are written before their
+// children, and a bad item is reported in its result instead of rolling back
+// the batch. Still all-or-nothing for anything else that throws.
+export const writeMany = mutation({
+  args: {
+    tenantId: v.optional(v.string()),
+    nodes: v.array(
+      v.object({
+        type: v.string(),
+        externalId: v.string(),
+        parent: v.optional(parentValidator),
+      }),
+    ),
+  },
+  handler: async (ctx, args): Promise<ResourceWriteResult[]> => {
+    if (args.nodes.length > WRITE_MANY_LIMIT) {
+      throw new Error(`writeMany accepts at most ${WRITE_MANY_LIMIT} nodes`);
     }
+    const tenantId = await resolveWriteTenantId(ctx, args.tenantId);
+    if (!tenantId) {
+      return args.nodes.map(() => ({
+        status: "mirror_not_ready" as const,
+        message: MIRROR_NOT_READY_MESSAGE,
+      }));
+    }
+    const typesByKey = new Map<string, ResourceTypeRow | null>();
+    const results: ResourceWriteResult[] = [];
+    for (const index of parentsFirst(args.nodes)) {
+      const input = args.nodes[index];
+      if (!input) continue;
+      try {
+        results[index] = { status: "ok", node: await upsertNode(ctx, tenantId, input, typesByKey) };
+      } catch (error) {
+        if (!(error instanceof ConvexError) || error.data?.code !== "IAM_CONFIG") throw error;
+        results[index] = { status: "IAM_CONFIG", message: String(error.data.message) };
+      }
+    }
+    return results;
+  },
+});
+
+// resource.move - re-parent an existing node (`newParent: null` detaches it to
+// a root). The new parent must have the child type's declared parent type
+// (IAM_CONFIG otherwise) and, unlike write, must already exist: re-pointing an
+// existing subtree at a missing node would silently strip its inherited
+// access. Moving a node under itself or one of its descendants is rejected.
+// Returns null when the node does not exist.
+export const move = mutation({
+  args: {
+    tenantId: v.optional(v.string()),
+    type: v.string(),
+    externalId: v.string(),
+    newParent: v.union(parentValidator, v.null()),
+  },
+  handler: async (ctx, args): Promise<ResourceNode | null> => {
+    const tenantId = await resolveWriteTenantId(ctx, args.tenantId);
+    if (!tenantId) return null;
+    const childType = await resolveResourceTypeByKey(ctx, args.type);
+    if (!childType) return null;
+    const existing = await resolveResourceRow(ctx, tenantId, childType.id, args.externalId);
+    if (!existing) return null;
 
     let parentId: string | undefined;
-    if (args.parent !== undefined) {
-      if (childType.parentResourceTypeId === null) {
-        throw new ConvexError({
-          code: "IAM_CONFIG",
-          message: `Resource type "${args.type}" declares no parent in .hercules/iam.jsonc, but a parent was supplied. Add "parent" to the type declaration or drop the parent argument.`,
-        });
-      }
-      const parentType = await resolveResourceTypeByKey(ctx, args.parent.type);
-      if (!parentType || parentType.id !== childType.parentResourceTypeId) {
-        const expectedKey = await resourceTypeKey(
-          ctx,
-          childType.parentResourceTypeId,
-          new Map<string, string | null>(),
-        );
-        throw new ConvexError({
-          code: "IAM_CONFIG",
-          message: `Resource type "${args.type}" declares parent "${expectedKey ?? childType.parentResourceTypeId}", but the supplied parent has type "${args.parent.type}".`,
-        });
+    if (args.newParent !== null) {
+      const newParent = args.newParent;
+      parentId = await resolveParentNodeId(ctx, tenantId, childType, newParent);
+      // Walk up from the new parent: it must exist, and the moved node must
+      // not appear on its ancestor path (that would close a cycle).
+      let cursor: string | undefined = parentId;
+      const visited = new Set<string>();
+      while (cursor !== undefined && !visited.has(cursor)) {
+        if (cursor === existing.id) {
+          throw new ConvexError({
+            code: "INVALID_MOVE",
+            message: `Cannot move "${args.type}" "${args.externalId}" under itself or one of its descendants.`,
+          });
+        }
+        visited.add(cursor);
+        const nodeId: string = cursor;
+        const node = await ctx.db
+          .query("resources")
+          .withIndex("by_resource_id", (q) => q.eq("id", nodeId))
+          .unique();
+        if (!node) {
+          if (nodeId !== parentId) break;
+          throw new ConvexError({
+            code: "INVALID_MOVE",
+            message: `New parent "${newParent.type}" "${newParent.externalId}" does not exist. Write it before moving nodes under it.`,
+          });
+        }
+        cursor = node.parentId;
       }
-      parentId = resourceNodeId(tenantId, childType.parentResourceTypeId, args.parent.externalId);
     }
 
-    const id = resourceNodeId(tenantId, childType.id, args.externalId);
     const row = {
-      id,
+      id: existing.id,
       tenantId,
       resourceTypeId: childType.id,
       externalId: args.externalId,
       updatedAt: Date.now(),
       ...(parentId === undefined ? {} : { parentId }),
     };
-    const existing = await resolveResourceRow(ctx, tenantId, childType.id, args.externalId);
-    if (existing) await ctx.db.replace(existing._id, row);
-    else await ctx.db.insert("resources", row);
+    await ctx.db.replace(existing._id, row);
     const node = await toNode(
       ctx,
       row as ResourceRow,
@@ -328,22 +698,88 @@ export const write = mutation({
     );
     if (!node) {
       // Unreachable: the child type was resolved above and seeds the cache.
-      throw new ConvexError({ code: "IAM_CONFIG", message: "Failed to resolve the written node." });
+      throw new ConvexError({ code: "IAM_CONFIG", message: "Failed to resolve the moved node." });
     }
     return node;
   },
 });
 
-// resource.delete - remove a single resource NODE. Children are left with a
-// dangling parentId; the access check stops the ancestor walk at the missing
-// node, so no cascade is required here.
+// Rows one cascade-delete transaction removes before handing the rest of the
+// subtree to a scheduled continuation, well inside Convex's per-transaction
+// read and write limits.
+const CASCADE_BATCH = 256;
+
+export type ResourceDeleteResult = {
+  deleted: boolean;
+  // Cascade only: descendants removed in this transaction, and whether the
+  // rest of the subtree was handed to a scheduled continuation.
+  descendantsDeleted?: number;
+  continuing?: boolean;
+};
+
+const removeSubtreeReference = makeFunctionReference<"mutation", { parentIds: string[] }>(
+  "resources:removeSubtree",
+);
+
+// Depth-first delete of the descendants of the node ids on `stack`, removing at
+// most `budget` rows. A parent stays on the stack until it has no children
+// left, so the returned stack is exactly the work that remains (empty when the
+// subtree is gone). Children are found by parentId alone, so this works after
+// the parent rows themselves are deleted.
+async function deleteDescendants(
+  ctx: MutationCtx,
+  stack: string[],
+  budget: number,
+): Promise<{ stack: string[]; deleted: number }> {
+  const pending = [...stack];
+  let deleted = 0;
+  while (deleted < budget) {
+    const parentId = pending[pending.length - 1];
+    if (parentId === undefined) break;
+    const children = await ctx.db
+      .query("resources")
+      .withIndex("by_parent", (q) => q.eq("parentId", parentId))
+      .take(budget - deleted);
+    if (children.length === 0) {
+      pending.pop();
+      continue;
+    }
+    for (const child of children) {
+      await ctx.db.delete(child._id);
+      pending.push(child.id);
+      deleted += 1;
+    }
+  }
+  return { stack: pending, deleted };
+}
+
+async function continueSubtreeDelete(
+  ctx: MutationCtx,
+  stack: string[],
+  budget: number,
+): Promise<{ deleted: number; continuing: boolean }> {
+  const result = await deleteDescendants(ctx, stack, budget);
+  const continuing = result.stack.length > 0;
+  if (continuing) {
+    await ctx.scheduler.runAfter(0, removeSubtreeReference, { parentIds: result.stack });
+  }
+  return { deleted: result.deleted, continuing };
+}
+
+// resource.delete - remove a resource NODE. Without `cascade`, children are
+// left with a dangling parentId; the access check stops the ancestor walk at
+// the missing node, so they lose inherited access. With `cascade`, the whole
+// subtree goes: the node itself and the first batch of descendants in this
+// transaction, the remainder in scheduled continuations. The node is deleted
+// first, so the subtree loses inherited access immediately either way.
 export const remove = mutation({
   args: {
     tenantId: v.optional(v.string()),
     type: v.string(),
     externalId: v.string(),
+    cascade: v.optional(v.boolean()),
   },
-  handler: async (ctx, args): Promise<{ deleted: boolean }> => {
+  handler: async (ctx, args): Promise<ResourceDeleteResult> => {
     const tenantId = await resolveWriteTenantId(ctx, args.tenantId);
     if (!tenantId) return { deleted: false };
     const childType = await resolveResourceTypeByKey(ctx, args.type);
@@ -351,6 +787,154 @@ export const remove = mutation({
     const existing = await resolveResourceRow(ctx, tenantId, childType.id, args.externalId);
     if (!existing) return { deleted: false };
     await ctx.db.delete(existing._id);
-    return { deleted: true };
+    if (!args.cascade) return { deleted: true };
+    const { deleted, continuing } = await continueSubtreeDelete(
+      ctx,
+      [existing.id],
+      CASCADE_BATCH - 1,
+    );
+    return { deleted: true, descendantsDeleted: deleted, continuing };
+  },
+});
+
+// Scheduled continuation of a cascade delete. Internal: only `remove` (and
+// itself) schedule it.
+export const removeSubtree = internalMutation({
+  args: { parentIds: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    await continueSubtreeDelete(ctx, args.parentIds, CASCADE_BATCH);
+  },
+});
+
+// Rows one sweep call examines; page through the table with `cursor`.
+const SWEEP_BATCH = 500;
+
+// What is wrong with a node, most severe first. `missing_tenant`: its tenant
+// was deleted (deleteTenant does not cascade to nodes). `unknown_type`: its
+// resource type was deleted from the catalog. `dangling_parent`: its parentId
+// names no node. `cross_tenant_parent`: its parent lives in another tenant.
+// Every one of these silently cuts the node off from inherited access (the
+// check stops the ancestor walk there) or makes it unaddressable by key.
+export type ResourceIssueKind =
+  | "missing_tenant"
+  | "unknown_type"
+  | "dangling_parent"
+  | "cross_tenant_parent";
+
+export type ResourceIssue = {
+  kind: ResourceIssueKind;
+  nodeId: string;
+  tenantId: string;
+  resourceTypeId: string;
+  externalId: string;
+  parentId?: string;
+  // With `repair`: the node was deleted (missing_tenant, unknown_type) or its
+  // parent edge cleared, making it a root (dangling_parent,
+  // cross_tenant_parent).
+  repaired: boolean;
+};
+
+export type ResourceSweepReport = {
+  scanned: number;
+  issues: ResourceIssue[];
+  counts: Record<ResourceIssueKind, number>;
+  // Present while more rows remain; pass it back to sweep the next batch.
+  cursor?: string;
+};
+
+// resource.sweep - integrity check of the node graph, one batch per call. Each
+// node is reported under its most severe issue. With `repair`, nodes whose
+// tenant or type is gone are deleted and broken parent edges are cleared.
+// Clearing is not reversible by a late parent write, so only repair once
+// imports that write children before parents have finished. Deleting a node
+// can leave its children dangling; sweep again until the report is clean.
+export const sweep = mutation({
+  args: {
+    repair: v.optional(v.boolean()),
+    cursor: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<ResourceSweepReport> => {
+    const limit =
+      args.limit === undefined || args.limit <= 0 ? SWEEP_BATCH : Math.min(args.limit, SWEEP_BATCH);
+    const page = await paginator(ctx.db, schema)
+      .query("resources")
+      .withIndex("by_resource")
+      .paginate({ cursor: args.cursor ?? null, numItems: limit });
+
+    const tenantExists = new Map<string, boolean>();
+    const typeExists = new Map<string, boolean>();
+    const report: ResourceSweepReport = {
+      scanned: page.page.length,
+      issues: [],
+      counts: { missing_tenant: 0, unknown_type: 0, dangling_parent: 0, cross_tenant_parent: 0 },
+    };
+
+    for (const row of page.page) {
+      let hasTenant = tenantExists.get(row.tenantId);
+      if (hasTenant === undefined) {
+        const tenant = await ctx.db
+          .query("tenants")
+          .withIndex("by_tenant_id", (q) =>
+            q.eq("generation", ctx.generation).eq("id", row.tenantId),
+          )
+          .unique();
+        hasTenant = tenant !== null;
+        tenantExists.set(row.tenantId, hasTenant);
+      }
+      let hasType = typeExists.get(row.resourceTypeId);
+      if (hasType === undefined) {
+        const type = await ctx.db
+          .query("resource_types")
+          .withIndex("by_resource_type_id", (q) =>
+            q.eq("generation", ctx.generation).eq("id", row.resourceTypeId),
+          )
+          .unique();
+        hasType = type !== null;
+        typeExists.set(row.resourceTypeId, hasType);
+      }
+
+      let kind: ResourceIssueKind | undefined = !hasTenant
+        ? "missing_tenant"
+        : !hasType
+          ? "unknown_type"
+          : undefined;
+      if (kind === undefined && row.parentId !== undefined) {
+        const parentId: string = row.parentId;
+        const parent = await ctx.db
+          .query("resources")
+          .withIndex("by_resource_id", (q) => q.eq("id", parentId))
+          .unique();
+        if (!parent) kind = "dangling_parent";
+        else if (parent.tenantId !== row.tenantId) kind = "cross_tenant_parent";
+      }
+      if (kind === undefined) continue;
+
+      if (args.repair) {
+        if (kind === "missing_tenant" || kind === "unknown_type") {
+          await ctx.db.delete(row._id);
+        } else {
+          await ctx.db.replace(row._id, {
+            id: row.id,
+            tenantId: row.tenantId,
+            resourceTypeId: row.resourceTypeId,
+            externalId: row.externalId,
+            updatedAt: Date.now(),
+          });
+        }
+      }
+      report.counts[kind] += 1;
+      report.issues.push({
+        kind,
+        nodeId: row.id,
+        tenantId: row.tenantId,
+        resourceTypeId: row.resourceTypeId,
+        externalId: row.externalId,
+        ...(row.parentId === undefined ? {} : { parentId: row.parentId }),
+        repaired: args.repair === true,
+      });
+    }
+
+    return page.isDone ? report : { ...report, cursor: page.continueCursor };
   },
 });
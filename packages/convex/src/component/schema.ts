@@ -4,16 +4,32 @@ import { v } from "convex/values";
 // IAM projection mirror - v5 ReBAC storage.
 //
 // Thirteen tables mirror the control-plane projection (each carries the
-// `sourceVersion` it was last written at) plus two component-owned tables:
+// `sourceVersion` it was last written at) plus component-owned tables:
 //   • `resources` - the resource NODE graph the app writes (never projected);
 //     used to walk parent edges during a resource-scoped access check.
 //   • `sync_state` - single-row version/ack state for the signed sync channel.
+//   • `snapshot_staging` / `snapshot_rows` - the shadow copy of a multi-part
+//     snapshot while its parts arrive; never read by access checks.
+//   • `sync_log` - bounded history of applied changes, for admin timelines.
+//   • `sync_rejections` - per-status counts of rejected deliveries.
+//   • `sync_tombstones` - the version that deleted each entity, for the
+//     stale-write guard.
+//   • `effective_grants` / `effective_grants_epoch` - tenant-wide grants
+//     derived from the mirror, for single-lookup checks, and their epoch.
 //
 // The model is allow-only: roles hold permissions (role_permissions), and
 // subjects hold roles tenant-wide ({user,group}_role_assignments) or per-resource
 // ({user,group}_resource_role_assignments) - split by subject type. There is no
 // deny, no wildcard, no override.
 //
+// Generations: every mirror row carries the `generation` of the snapshot that
+// installed it, and every mirror index leads with it. Reads address only the
+// generation sync_state points at, so a multi-part snapshot installs into the
+// next generation behind the live one and takes over when its last batch flips
+// the pointer; the retired generation is then swept in the background. Rows
+// written before generations existed carry none, matching a sync_state that
+// points at none.
+//
 // Id convention: each owning table stores its own control-plane id as `id` (the
 // value projected from the backend PK; distinct from Convex `_id`), looked up by
 // its `by_<entity>_id` index (e.g. by_tenant_id). Columns that REFERENCE another table keep the
@@ -21,6 +37,7 @@ import { v } from "convex/values";
 // (role_permissions, group_memberships) have no own id - their identity is the
 // FK pair.
 
+const signingKeyValidator = v.object({ fingerprint: v.string(), lastVerifiedAt: v.number() });
 const tenantStatusValidator = v.union(v.literal("active"), v.literal("archived"));
 const groupStatusValidator = v.union(v.literal("active"), v.literal("archived"));
 const accessModeValidator = v.union(
@@ -36,6 +53,23 @@ const membershipStatusValidator = v.union(
   v.literal("pending_approval"),
   v.literal("removed"),
 );
+// Projection entity types, plus "snapshot" for whole-mirror replacements.
+const syncLogEntityTypeValidator = v.union(
+  v.literal("tenant"),
+  v.literal("role"),
+  v.literal("permission"),
+  v.literal("role_permission"),
+  v.literal("resource_type"),
+  v.literal("membership"),
+  v.literal("group"),
+  v.literal("group_membership"),
+  v.literal("user_role_assignment"),
+  v.literal("group_role_assignment"),
+  v.literal("user_resource_role_assignment"),
+  v.literal("group_resource_role_assignment"),
+  v.literal("user"),
+  v.literal("snapshot"),
+);
 
 export default defineSchema({
   // Single-row version/ack state for the signed sync channel.
@@ -45,6 +79,24 @@ export default defineSchema({
     lastEventId: v.optional(v.string()),
     lastSyncedAt: v.number(),
     lastError: v.optional(v.string()),
+    // Fingerprints of the signing secrets that verified recent deliveries, most
+    // recent first - for retiring a rotated-out secret once it goes quiet.
+    signingKeys: v.optional(v.array(signingKeyValidator)),
+    // The last few applied event ids, oldest first, for replay detection.
+    recentEventIds: v.optional(v.array(v.string())),
+    // The mirror generation reads address (absent: the rows that carry none).
+    generation: v.optional(v.number()),
+    // Gap recovery: set when a delivery is rejected as version_gap or
+    // reset_required; dropped when the next delivery applies. `attempts` and
+    // `requestedAt` track snapshot requests made to the control plane.
+    resync: v.optional(
+      v.object({
+        reason: v.union(v.literal("version_gap"), v.literal("reset_required")),
+        detectedAt: v.number(),
+        attempts: v.number(),
+        requestedAt: v.optional(v.number()),
+      }),
+    ),
   }),
 
   tenants: defineTable({
@@ -56,9 +108,11 @@ export default defineSchema({
     defaultRoleId: v.union(v.string(), v.null()),
     updatedAt: v.number(),
     sourceVersion: v.number(),
+    generation: v.optional(v.number()),
   })
-    .index("by_tenant_id", ["id"])
-    .index("by_primary", ["isPrimaryTenant"]),
+    .index("by_generation", ["generation"])
+    .index("by_tenant_id", ["generation", "id"])
+    .index("by_primary", ["generation", "isPrimaryTenant"]),
 
   users: defineTable({
     id: v.string(),
@@ -73,9 +127,11 @@ export default defineSchema({
     phoneVerified: v.boolean(),
     updatedAt: v.number(),
     sourceVersion: v.number(),
+    generation: v.optional(v.number()),
   })
-    .index("by_user_id", ["id"])
-    .index("by_email", ["email"]),
+    .index("by_generation", ["generation"])
+    .index("by_user_id", ["generation", "id"])
+    .index("by_email", ["generation", "email"]),
 
   // A user's membership in a tenant.
   tenant_memberships: defineTable({
@@ -86,12 +142,14 @@ export default defineSchema({
     status: membershipStatusValidator,
     updatedAt: v.number(),
     sourceVersion: v.number(),
+    generation: v.optional(v.number()),
   })
-    .index("by_membership_id", ["id"])
-    .index("by_tenant", ["tenantId"])
-    .index("by_tenant_status", ["tenantId", "status"])
-    .index("by_tenant_user", ["tenantId", "userId"])
-    .index("by_user", ["userId"]),
+    .index("by_generation", ["generation"])
+    .index("by_membership_id", ["generation", "id"])
+    .index("by_tenant", ["generation", "tenantId"])
+    .index("by_tenant_status", ["generation", "tenantId", "status"])
+    .index("by_tenant_user", ["generation", "tenantId", "userId"])
+    .index("by_user", ["generation", "userId"]),
 
   groups: defineTable({
     id: v.string(),
@@ -101,9 +159,11 @@ export default defineSchema({
     status: groupStatusValidator,
     updatedAt: v.number(),
     sourceVersion: v.number(),
+    generation: v.optional(v.number()),
   })
-    .index("by_group_id", ["id"])
-    .index("by_tenant", ["tenantId"]),
+    .index("by_generation", ["generation"])
+    .index("by_group_id", ["generation", "id"])
+    .index("by_tenant", ["generation", "tenantId"]),
 
   // Identity is (groupId, membershipId).
   group_memberships: defineTable({
@@ -112,10 +172,12 @@ export default defineSchema({
     tenantId: v.string(),
     updatedAt: v.number(),
     sourceVersion: v.number(),
+    generation: v.optional(v.number()),
   })
-    .index("by_group", ["groupId"])
-    .index("by_membership", ["membershipId"])
-    .index("by_group_membership", ["groupId", "membershipId"]),
+    .index("by_generation", ["generation"])
+    .index("by_group", ["generation", "groupId"])
+    .index("by_membership", ["generation", "membershipId"])
+    .index("by_group_membership", ["generation", "groupId", "membershipId"]),
 
   roles: defineTable({
     id: v.string(),
@@ -133,10 +195,12 @@ export default defineSchema({
     isAppScope: v.boolean(),
     updatedAt: v.number(),
     sourceVersion: v.number(),
+    generation: v.optional(v.number()),
   })
-    .index("by_role_id", ["id"])
-    .index("by_key", ["key"])
-    .index("by_tenant", ["tenantId"]),
+    .index("by_generation", ["generation"])
+    .index("by_role_id", ["generation", "id"])
+    .index("by_key", ["generation", "key"])
+    .index("by_tenant", ["generation", "tenantId"]),
 
   // `key` (`resourceType:action`) is the identity used by checks; the parsed
   // resourceType/action halves live in the control plane and are not mirrored.
@@ -148,9 +212,11 @@ export default defineSchema({
     isAppScope: v.boolean(),
     updatedAt: v.number(),
     sourceVersion: v.number(),
+    generation: v.optional(v.number()),
   })
-    .index("by_permission_id", ["id"])
-    .index("by_key", ["key"]),
+    .index("by_generation", ["generation"])
+    .index("by_permission_id", ["generation", "id"])
+    .index("by_key", ["generation", "key"]),
 
   // Identity is (roleId, permissionId).
   role_permissions: defineTable({
@@ -158,9 +224,11 @@ export default defineSchema({
     permissionId: v.string(),
     updatedAt: v.number(),
     sourceVersion: v.number(),
+    generation: v.optional(v.number()),
   })
-    .index("by_role", ["roleId"])
-    .index("by_role_permission", ["roleId", "permissionId"]),
+    .index("by_generation", ["generation"])
+    .index("by_role", ["generation", "roleId"])
+    .index("by_role_permission", ["generation", "roleId", "permissionId"]),
 
   resource_types: defineTable({
     id: v.string(),
@@ -169,9 +237,11 @@ export default defineSchema({
     parentResourceTypeId: v.union(v.string(), v.null()),
     updatedAt: v.number(),
     sourceVersion: v.number(),
+    generation: v.optional(v.number()),
   })
-    .index("by_resource_type_id", ["id"])
-    .index("by_key", ["key"]),
+    .index("by_generation", ["generation"])
+    .index("by_resource_type_id", ["generation", "id"])
+    .index("by_key", ["generation", "key"]),
 
   // Component-owned resource NODE graph. NOT projected: the app writes these via
   // resource.write and deletes them via resource.delete. `resourceTypeId` points
@@ -199,10 +269,12 @@ export default defineSchema({
     expiresAt: v.optional(v.number()),
     updatedAt: v.number(),
     sourceVersion: v.number(),
+    generation: v.optional(v.number()),
   })
-    .index("by_assignment_id", ["id"])
-    .index("by_membership", ["membershipId"])
-    .index("by_role_id", ["roleId"]),
+    .index("by_generation", ["generation"])
+    .index("by_assignment_id", ["generation", "id"])
+    .index("by_membership", ["generation", "membershipId"])
+    .index("by_role_id", ["generation", "roleId"]),
 
   // A group holds a role tenant-wide.
   group_role_assignments: defineTable({
@@ -213,10 +285,12 @@ export default defineSchema({
     expiresAt: v.optional(v.number()),
     updatedAt: v.number(),
     sourceVersion: v.number(),
+    generation: v.optional(v.number()),
   })
-    .index("by_assignment_id", ["id"])
-    .index("by_group", ["groupId"])
-    .index("by_role_id", ["roleId"]),
+    .index("by_generation", ["generation"])
+    .index("by_assignment_id", ["generation", "id"])
+    .index("by_group", ["generation", "groupId"])
+    .index("by_role_id", ["generation", "roleId"]),
 
   // A tenant membership holds a role on a specific resource.
   user_resource_role_assignments: defineTable({
@@ -230,9 +304,11 @@ export default defineSchema({
     expiresAt: v.optional(v.number()),
     updatedAt: v.number(),
     sourceVersion: v.number(),
+    generation: v.optional(v.number()),
   })
-    .index("by_assignment_id", ["id"])
-    .index("by_membership", ["membershipId"]),
+    .index("by_generation", ["generation"])
+    .index("by_assignment_id", ["generation", "id"])
+    .index("by_membership", ["generation", "membershipId"]),
 
   // A group holds a role on a specific resource.
   group_resource_role_assignments: defineTable({
@@ -246,7 +322,119 @@ export default defineSchema({
     expiresAt: v.optional(v.number()),
     updatedAt: v.number(),
     sourceVersion: v.number(),
+    generation: v.optional(v.number()),
+  })
+    .index("by_generation", ["generation"])
+    .index("by_assignment_id", ["generation", "id"])
+    .index("by_group", ["generation", "groupId"]),
+
+  // Tenant-wide grants materialized from the mirror: one row per permission a
+  // membership holds through its direct or (active-)group role assignments.
+  // Derived, never projected: grants.ts keeps it current as sync applies, and
+  // it is rebuilt in the background after a snapshot. `source` is the first
+  // path in evaluation order (direct before group); `expiresAt` is the earliest
+  // expiry among the assignments behind the grant, after which the row is no
+  // longer used. A row is a lead, not a grant: checks confirm its assignment
+  // against the mirror first. A missing row proves nothing (checks fall back to
+  // the walk), and neither does one whose `epoch` is not the current
+  // effective_grants_epoch (rows written before epochs existed have none, read
+  // as 0).
+  effective_grants: defineTable({
+    membershipId: v.string(),
+    tenantId: v.string(),
+    permissionId: v.string(),
+    source: v.union(v.literal("direct"), v.literal("group")),
+    // The role assignment behind `source`, which a check confirms is still live
+    // before trusting the row (absent on rows written before it was recorded).
+    assignmentId: v.optional(v.string()),
+    expiresAt: v.optional(v.number()),
+    epoch: v.optional(v.number()),
+  })
+    .index("by_membership_permission", ["membershipId", "permissionId"])
+    .index("by_permission", ["permissionId"])
+    .index("by_epoch", ["epoch"]),
+
+  // The current epoch of effective_grants (at most one row; none means
+  // 0). A change reaching too many memberships to refresh in one transaction
+  // bumps it, retiring every row at once until the background rebuild rewrites
+  // them.
+  effective_grants_epoch: defineTable({
+    epoch: v.number(),
+    invalidatedAt: v.number(),
+  }),
+
+  // Header of the multi-part snapshot in flight (at most one row). A begin for
+  // a different snapshotId supersedes it. `commitEventId` is set once the
+  // commit is accepted; from then on the staged rows are being installed into
+  // `generation`, which sync_state points at once the last of them is in.
+  snapshot_staging: defineTable({
+    snapshotId: v.string(),
+    eventId: v.string(),
+    mode: v.union(v.literal("initialize"), v.literal("reset")),
+    sourceVersion: v.number(),
+    expectedIssuer: v.string(),
+    partCount: v.number(),
+    receivedParts: v.array(v.number()),
+    primaryTenants: v.number(),
+    stagedAt: v.number(),
+    commitEventId: v.optional(v.string()),
+    generation: v.optional(v.number()),
+  }),
+
+  // Staged mirror rows of a multi-part snapshot, already mapped to the shape of
+  // their target mirror table (`table`).
+  snapshot_rows: defineTable({
+    snapshotId: v.string(),
+    table: v.string(),
+    row: v.any(),
+  }).index("by_snapshot", ["snapshotId"]),
+
+  // One row per applied change, pruned past the retention window. Snapshots
+  // log a single "snapshot" entry (operation = mode, entityId = snapshot or
+  // event id) since they replace the mirror wholesale; assignment expiries
+  // log "expire" with no eventId.
+  sync_log: defineTable({
+    eventId: v.optional(v.string()),
+    sourceVersion: v.number(),
+    entityType: syncLogEntityTypeValidator,
+    operation: v.union(
+      v.literal("upsert"),
+      v.literal("delete"),
+      v.literal("expire"),
+      v.literal("initialize"),
+      v.literal("reset"),
+    ),
+    entityId: v.string(),
+    appliedAt: v.number(),
   })
-    .index("by_assignment_id", ["id"])
-    .index("by_group", ["groupId"]),
+    .index("by_applied_at", ["appliedAt"])
+    .index("by_entity_type", ["entityType", "appliedAt"])
+    .index("by_entity", ["entityType", "entityId", "appliedAt"])
+    .index("by_entity_id", ["entityId", "appliedAt"]),
+
+  // The sourceVersion of each entity deleted by an event, so a late upsert
+  // older than the delete cannot re-create it. Pruned past a fixed window.
+  sync_tombstones: defineTable({
+    entityType: syncLogEntityTypeValidator,
+    entityId: v.string(),
+    sourceVersion: v.number(),
+    deletedAt: v.number(),
+  })
+    .index("by_entity", ["entityType", "entityId"])
+    .index("by_deleted_at", ["deletedAt"]),
+
+  // Cumulative count of rejected deliveries per SyncResponse status, with the
+  // most recent one, for the sync health report.
+  sync_rejections: defineTable({
+    status: v.string(),
+    count: v.number(),
+    lastRejectedAt: v.number(),
+  }).index("by_status", ["status"]),
+
+  // Assignment expiry jobs scheduled and not yet run (at most one row), for
+  // the sync health report: counted as they are scheduled and as they run,
+  // rather than by scanning _scheduled_functions.
+  pending_expiries: defineTable({
+    count: v.number(),
+  }),
 });
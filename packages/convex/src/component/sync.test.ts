@@ -0,0 +1,940 @@
+import { convexTest } from "convex-test";
+import { makeFunctionReference } from "convex/server";
+import { afterEach, describe, expect, test, vi } from "vitest";
+import schema from "./schema";
+import { componentModules } from "../../test/component-modules";
+import { createFakeControlPlane, TEST_SYNC_SECRET } from "../testing";
+
+// The raw mirror apply is internal; tests drive it directly, skipping the
+// signature check in `applySync`.
+const applyProjection = makeFunctionReference<"mutation">("sync:applyProjection");
+const claimResync = makeFunctionReference<"mutation">("sync:claimResync");
+const syncStatus = makeFunctionReference<"query">("queries:getTargetTenantSyncStatus");
+const syncLogList = makeFunctionReference<"query">("queries:syncLogList");
+const syncHealth = makeFunctionReference<"query">("queries:getSyncHealth");
+const applySync = makeFunctionReference<"action">("sync:applySync");
+const check = makeFunctionReference<"query">("checks:check");
+
+const ISSUER = "https://issuer.example";
+
+function harness() {
+  return convexTest(schema, componentModules);
+}
+
+function emptyRows(): Record<string, unknown[]> {
+  return {
+    tenants: [],
+    roles: [],
+    permissions: [],
+    rolePermissions: [],
+    resourceTypes: [],
+    memberships: [],
+    groups: [],
+    groupMemberships: [],
+    userRoleAssignments: [],
+    groupRoleAssignments: [],
+    userResourceRoleAssignments: [],
+    groupResourceRoleAssignments: [],
+    users: [],
+  };
+}
+
+function tenant(tenantId: string, isPrimaryTenant: boolean) {
+  return {
+    tenantId,
+    name: tenantId,
+    isPrimaryTenant,
+    status: "active",
+    accessMode: "open",
+    defaultRoleId: null,
+    updatedAt: 0,
+  };
+}
+
+function user(userId: string) {
+  return {
+    userId,
+    name: userId,
+    email: `${userId}@example.com`,
+    emailVerified: true,
+    phoneVerified: false,
+    updatedAt: 0,
+  };
+}
+
+function begin(snapshotId: string, partCount: number, mode = "initialize", sourceVersion = 1) {
+  return {
+    type: "access.projection.snapshot.begin",
+    schemaVersion: 5,
+    eventId: `begin-${snapshotId}`,
+    snapshotId,
+    mode,
+    sourceVersion,
+    expectedIssuer: ISSUER,
+    partCount,
+  };
+}
+
+function part(snapshotId: string, partIndex: number, rows: Record<string, unknown[]>) {
+  return {
+    type: "access.projection.snapshot.part",
+    schemaVersion: 5,
+    eventId: `part-${snapshotId}-${partIndex}`,
+    snapshotId,
+    partIndex,
+    ...emptyRows(),
+    ...rows,
+  };
+}
+
+function commit(snapshotId: string) {
+  return {
+    type: "access.projection.snapshot.commit",
+    schemaVersion: 5,
+    eventId: `commit-${snapshotId}`,
+    snapshotId,
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("multi-part snapshots", () => {
+  test("stages parts without touching the mirror and installs them at commit", async () => {
+    vi.useFakeTimers();
+    const t = harness();
+    await t.mutation(applyProjection, {
+      type: "access.projection.snapshot",
+      schemaVersion: 5,
+      eventId: "init",
+      mode: "initialize",
+      sourceVersion: 1,
+      expectedIssuer: ISSUER,
+      ...emptyRows(),
+      tenants: [tenant("OLD", true)],
+    });
+
+    expect(await t.mutation(applyProjection, begin("s1", 2, "reset", 5))).toEqual({
+      ok: true,
+      status: "staged",
+      snapshotId: "s1",
+      partsReceived: 0,
+      partCount: 2,
+    });
+    await t.mutation(applyProjection, part("s1", 1, { users: [user("u1")] }));
+    // Re-delivering a part is an idempotent ack.
+    expect(await t.mutation(applyProjection, part("s1", 1, { users: [user("u1")] }))).toMatchObject(
+      { status: "staged", partsReceived: 1 },
+    );
+    expect(await t.mutation(applyProjection, commit("s1"))).toEqual({
+      ok: false,
+      status: "snapshot_incomplete",
+      snapshotId: "s1",
+    });
+    await t.mutation(applyProjection, part("s1", 0, { tenants: [tenant("P", true)] }));
+
+    const before = await t.run(async (ctx) => ({
+      tenants: (await ctx.db.query("tenants").collect()).map((row) => row.id),
+      version: (await ctx.db.query("sync_state").unique())?.sourceVersion,
+    }));
+    expect(before).toEqual({ tenants: ["OLD"], version: 1 });
+
+    expect(await t.mutation(applyProjection, commit("s1"))).toEqual({
+      ok: true,
+      status: "applied",
+      acknowledgedVersion: 5,
+    });
+    const mirror = () =>
+      t.run(async (ctx) => ({
+        tenants: (await ctx.db.query("tenants").collect()).map(
+          (row) => `${row.id}@${row.generation}`,
+        ),
+        users: (await ctx.db.query("users").collect()).map((row) => `${row.id}@${row.generation}`),
+        state: await ctx.db.query("sync_state").unique(),
+        staged: await ctx.db.query("snapshot_rows").collect(),
+      }));
+    const after = await mirror();
+    // The install went into a new generation, which sync_state now points at;
+    // the retired one waits for the sweep.
+    expect(after.tenants).toEqual(["OLD@undefined", "P@1"]);
+    expect(after.users).toEqual(["u1@1"]);
+    expect(after.state).toMatchObject({
+      sourceVersion: 5,
+      lastEventId: "commit-s1",
+      generation: 1,
+    });
+    expect(after.staged).toEqual([]);
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect((await mirror()).tenants).toEqual(["P@1"]);
+
+    expect(await t.mutation(applyProjection, commit("s1"))).toEqual({
+      ok: true,
+      status: "duplicate",
+      acknowledgedVersion: 5,
+    });
+  });
+
+  test("installs a large snapshot across transactions, serving the old mirror meanwhile", async () => {
+    vi.useFakeTimers();
+    const t = harness();
+    await t.mutation(applyProjection, {
+      type: "access.projection.snapshot",
+      schemaVersion: 5,
+      eventId: "init",
+      mode: "initialize",
+      sourceVersion: 1,
+      expectedIssuer: ISSUER,
+      ...emptyRows(),
+      tenants: [tenant("OLD", true)],
+      users: [user("old")],
+    });
+    const users = Array.from({ length: 1_500 }, (_, index) => user(`u${index}`));
+    await t.mutation(applyProjection, begin("big", 2, "reset", 2));
+    await t.mutation(
+      applyProjection,
+      part("big", 0, { tenants: [tenant("P", true)], users: users.slice(0, 750) }),
+    );
+    await t.mutation(applyProjection, part("big", 1, { users: users.slice(750) }));
+
+    expect(await t.mutation(applyProjection, commit("big"))).toEqual({
+      ok: true,
+      status: "installing",
+      snapshotId: "big",
+      pendingVersion: 2,
+    });
+    // Reads keep answering from the old mirror at its version.
+    const request = { tokenIdentifier: `${ISSUER}|old`, permission: "doc:read", tenantId: "OLD" };
+    expect(await t.query(check, request)).toMatchObject({
+      reasonCode: "permission_missing",
+      sourceVersion: 1,
+    });
+    expect(await t.run(async (ctx) => await ctx.db.query("sync_state").unique())).toMatchObject({
+      sourceVersion: 1,
+    });
+    // Nothing else may write the mirror mid-install; the commit re-acks.
+    expect(await t.mutation(applyProjection, begin("other", 1))).toEqual({
+      ok: false,
+      status: "not_ready",
+      currentVersion: 1,
+    });
+    expect(await t.mutation(applyProjection, commit("big"))).toMatchObject({
+      status: "installing",
+    });
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    const after = await t.run(async (ctx) => ({
+      users: (await ctx.db.query("users").collect()).map((row) => row.generation),
+      state: await ctx.db.query("sync_state").unique(),
+      staging: await ctx.db.query("snapshot_staging").collect(),
+    }));
+    // Only the new generation is left once the sweep has run.
+    expect(after.users).toEqual(Array.from({ length: 1_500 }, () => 1));
+    expect(after.state).toMatchObject({ sourceVersion: 2, expectedIssuer: ISSUER, generation: 1 });
+    expect(after.staging).toEqual([]);
+    expect(await t.query(check, request)).toMatchObject({
+      reasonCode: "tenant_missing",
+      sourceVersion: 2,
+    });
+  });
+
+  test("a new begin supersedes the staging snapshot and unknown ids are rejected", async () => {
+    vi.useFakeTimers();
+    const t = harness();
+    await t.mutation(applyProjection, begin("s1", 1));
+    await t.mutation(applyProjection, part("s1", 0, { users: [user("u1")] }));
+    await t.mutation(applyProjection, begin("s2", 1));
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(await t.mutation(applyProjection, part("s1", 0, {}))).toEqual({
+      ok: false,
+      status: "unknown_snapshot",
+      snapshotId: "s1",
+    });
+    expect(await t.run(async (ctx) => await ctx.db.query("snapshot_rows").collect())).toEqual([]);
+    // Parts out of range, and a set without exactly one primary tenant, are
+    // payload errors.
+    expect(await t.mutation(applyProjection, part("s2", 1, {}))).toEqual({
+      ok: false,
+      status: "invalid_payload",
+    });
+    await t.mutation(applyProjection, part("s2", 0, { tenants: [tenant("S", false)] }));
+    expect(await t.mutation(applyProjection, commit("s2"))).toEqual({
+      ok: false,
+      status: "invalid_payload",
+    });
+  });
+});
+
+describe("gap recovery", () => {
+  function snapshot(mode: string, sourceVersion: number) {
+    return {
+      type: "access.projection.snapshot",
+      schemaVersion: 5,
+      eventId: `${mode}-${sourceVersion}`,
+      mode,
+      sourceVersion,
+      expectedIssuer: ISSUER,
+      ...emptyRows(),
+      tenants: [tenant("P", true)],
+    };
+  }
+
+  test("records a version gap and hands out backed-off resync claims until a snapshot lands", async () => {
+    vi.useFakeTimers();
+    const t = harness();
+    await t.mutation(applyProjection, snapshot("initialize", 1));
+    expect(await t.mutation(claimResync, {})).toBeNull();
+
+    expect(
+      await t.mutation(applyProjection, {
+        type: "access.projection.event",
+        schemaVersion: 5,
+        eventId: "e3",
+        sourceVersion: 3,
+        changes: [],
+        ...emptyRows(),
+      }),
+    ).toMatchObject({ status: "version_gap" });
+    expect(await t.query(syncStatus, { sourceVersion: 3 })).toMatchObject({
+      state: "syncing",
+      currentSourceVersion: 1,
+      needsResync: true,
+    });
+
+    expect(await t.mutation(claimResync, {})).toEqual({
+      reason: "version_gap",
+      currentVersion: 1,
+      attempts: 1,
+    });
+    expect(await t.mutation(claimResync, {})).toBeNull();
+    vi.advanceTimersByTime(60_000);
+    expect(await t.mutation(claimResync, {})).toMatchObject({ attempts: 2 });
+    // The second lease is twice as long.
+    vi.advanceTimersByTime(60_000);
+    expect(await t.mutation(claimResync, {})).toBeNull();
+
+    expect(await t.mutation(applyProjection, snapshot("reset", 3))).toMatchObject({
+      status: "applied",
+    });
+    expect(await t.query(syncStatus, { sourceVersion: 3 })).not.toHaveProperty("needsResync");
+    expect(await t.mutation(claimResync, {})).toBeNull();
+  });
+
+  test("records a rejected initialize as reset_required", async () => {
+    const t = harness();
+    await t.mutation(applyProjection, snapshot("initialize", 1));
+    const second = { ...snapshot("initialize", 2), eventId: "again" };
+    expect(await t.mutation(applyProjection, second)).toMatchObject({
+      status: "reset_required",
+    });
+    expect(await t.mutation(claimResync, {})).toMatchObject({ reason: "reset_required" });
+  });
+});
+
+describe("sync log", () => {
+  const DAY = 24 * 60 * 60_000;
+
+  function event(sourceVersion: number, changes: unknown[], rows: Record<string, unknown[]>) {
+    return {
+      type: "access.projection.event",
+      schemaVersion: 5,
+      eventId: `e${sourceVersion}`,
+      sourceVersion,
+      changes,
+      ...emptyRows(),
+      ...rows,
+    };
+  }
+
+  afterEach(() => {
+    delete process.env.HERCULES_SYNC_LOG_RETENTION_DAYS;
+  });
+
+  test("records each applied change and lists an entity's timeline newest first", async () => {
+    vi.useFakeTimers({ now: 1_000 });
+    const t = harness();
+    await t.mutation(applyProjection, {
+      type: "access.projection.snapshot",
+      schemaVersion: 5,
+      eventId: "init",
+      mode: "initialize",
+      sourceVersion: 1,
+      expectedIssuer: ISSUER,
+      ...emptyRows(),
+      tenants: [tenant("P", true)],
+    });
+    vi.setSystemTime(2_000);
+    await t.mutation(
+      applyProjection,
+      event(
+        2,
+        [
+          { entityType: "user", operation: "upsert", userId: "bob" },
+          { entityType: "role_permission", operation: "upsert", roleId: "r1", permissionId: "p1" },
+        ],
+        {
+          users: [user("bob")],
+          rolePermissions: [{ roleId: "r1", permissionId: "p1", updatedAt: 0 }],
+        },
+      ),
+    );
+    vi.setSystemTime(3_000);
+    await t.mutation(
+      applyProjection,
+      event(3, [{ entityType: "user", operation: "delete", userId: "bob" }], {}),
+    );
+
+    expect(await t.query(syncLogList, { entityType: "user", entityId: "bob" })).toEqual({
+      items: [
+        {
+          eventId: "e3",
+          sourceVersion: 3,
+          entityType: "user",
+          operation: "delete",
+          entityId: "bob",
+          appliedAt: 3_000,
+        },
+        {
+          eventId: "e2",
+          sourceVersion: 2,
+          entityType: "user",
+          operation: "upsert",
+          entityId: "bob",
+          appliedAt: 2_000,
+        },
+      ],
+    });
+    // An id alone stays on an index: the newest entry (bob's delete) does not
+    // thin the page.
+    expect(await t.query(syncLogList, { entityId: "r1/p1", limit: 1 })).toMatchObject({
+      items: [{ eventId: "e2", entityType: "role_permission", entityId: "r1/p1" }],
+    });
+    const all = await t.query(syncLogList, { since: 2_000 });
+    expect(all.items.map((entry: { entityId: string }) => entry.entityId)).toEqual([
+      "bob",
+      "r1/p1",
+      "bob",
+    ]);
+    expect(await t.query(syncLogList, { entityType: "snapshot" })).toMatchObject({
+      items: [{ operation: "initialize", entityId: "init", appliedAt: 1_000 }],
+    });
+  });
+
+  test("prunes entries older than the configured retention", async () => {
+    process.env.HERCULES_SYNC_LOG_RETENTION_DAYS = "1";
+    vi.useFakeTimers({ now: 0 });
+    const t = harness();
+    await t.mutation(applyProjection, {
+      type: "access.projection.snapshot",
+      schemaVersion: 5,
+      eventId: "init",
+      mode: "initialize",
+      sourceVersion: 1,
+      expectedIssuer: ISSUER,
+      ...emptyRows(),
+      tenants: [tenant("P", true)],
+    });
+    vi.setSystemTime(2 * DAY);
+    await t.mutation(
+      applyProjection,
+      event(2, [{ entityType: "user", operation: "upsert", userId: "bob" }], {
+        users: [user("bob")],
+      }),
+    );
+    expect(await t.query(syncLogList, {})).toMatchObject({
+      items: [{ entityType: "user", entityId: "bob" }],
+    });
+
+    // Retention 0 stops logging and drains what is left.
+    process.env.HERCULES_SYNC_LOG_RETENTION_DAYS = "0";
+    vi.advanceTimersByTime(1);
+    await t.mutation(
+      applyProjection,
+      event(3, [{ entityType: "user", operation: "delete", userId: "bob" }], {}),
+    );
+    expect(await t.query(syncLogList, {})).toEqual({ items: [] });
+  });
+});
+
+describe("change hooks", () => {
+  const hooks = {
+    onMembershipChanged: "function://;app:onMembershipChanged",
+    onRoleAssignmentChanged: "function://;app:onRoleAssignmentChanged",
+    onTenantArchived: "function://;app:onTenantArchived",
+  };
+
+  function membership(status: string) {
+    return { membershipId: "m1", tenantId: "P", userId: "bob", status, updatedAt: 0 };
+  }
+
+  test("schedules the app's hooks with before/after records of the changed entity", async () => {
+    // Fake timers keep the scheduled hooks pending so their args can be read.
+    vi.useFakeTimers();
+    const t = harness();
+    await t.mutation(applyProjection, {
+      type: "access.projection.snapshot",
+      schemaVersion: 5,
+      eventId: "init",
+      mode: "initialize",
+      sourceVersion: 1,
+      expectedIssuer: ISSUER,
+      ...emptyRows(),
+      tenants: [tenant("P", true)],
+      memberships: [membership("active")],
+    });
+    await t.mutation(applyProjection, {
+      type: "access.projection.event",
+      schemaVersion: 5,
+      eventId: "e2",
+      sourceVersion: 2,
+      changes: [
+        { entityType: "membership", operation: "upsert", membershipId: "m1" },
+        { entityType: "user_role_assignment", operation: "upsert", userRoleAssignmentId: "a1" },
+        { entityType: "tenant", operation: "upsert", tenantId: "P" },
+        { entityType: "user", operation: "upsert", userId: "bob" },
+      ],
+      ...emptyRows(),
+      memberships: [membership("removed")],
+      userRoleAssignments: [
+        {
+          userRoleAssignmentId: "a1",
+          tenantId: "P",
+          membershipId: "m1",
+          roleId: "r1",
+          updatedAt: 0,
+        },
+      ],
+      tenants: [{ ...tenant("P", true), status: "archived" }],
+      users: [user("bob")],
+      hooks,
+    });
+
+    // The snapshot also scheduled the component's own grants rebuild.
+    const scheduled = await t.run(async (ctx) =>
+      (await ctx.db.system.query("_scheduled_functions").collect())
+        .filter((job) => job.name.startsWith("app:"))
+        .map((job) => ({ name: job.name, args: job.args[0] })),
+    );
+    expect(scheduled).toEqual([
+      {
+        name: "app:onMembershipChanged",
+        args: {
+          eventId: "e2",
+          sourceVersion: 2,
+          before: { id: "m1", tenantId: "P", userId: "bob", status: "active", updatedAt: 0 },
+          after: { id: "m1", tenantId: "P", userId: "bob", status: "removed", updatedAt: 0 },
+        },
+      },
+      {
+        name: "app:onRoleAssignmentChanged",
+        args: {
+          eventId: "e2",
+          sourceVersion: 2,
+          entityType: "user_role_assignment",
+          before: null,
+          after: { id: "a1", tenantId: "P", membershipId: "m1", roleId: "r1", updatedAt: 0 },
+        },
+      },
+      {
+        name: "app:onTenantArchived",
+        args: {
+          eventId: "e2",
+          sourceVersion: 2,
+          tenant: expect.objectContaining({ id: "P", status: "archived" }),
+        },
+      },
+    ]);
+  });
+});
+
+describe("sync health", () => {
+  afterEach(() => {
+    delete process.env.HERCULES_SYNC_SECRET;
+    delete process.env.HERCULES_SYNC_SECRET_NEXT;
+  });
+
+  async function fingerprint(secret: string) {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret));
+    return Buffer.from(digest).toString("hex").slice(0, 16);
+  }
+
+  test("reports mirror age, rejected deliveries and pending expiries", async () => {
+    process.env.HERCULES_SYNC_SECRET = TEST_SYNC_SECRET;
+    vi.useFakeTimers({ now: 10_000 });
+    const t = harness();
+    const controlPlane = createFakeControlPlane({
+      tenants: [{ id: "acme" }],
+      roles: [{ key: "viewer", permissions: ["doc:read"] }],
+      memberships: [{ tenant: "acme", user: "alice" }],
+      assignments: [{ tenant: "acme", user: "alice", role: "viewer", expiresAt: 1_000_000 }],
+    });
+    expect(await t.query(syncHealth, {})).toEqual({
+      ready: false,
+      rejections: [],
+      pendingExpiries: 0,
+      signingKeys: [],
+    });
+
+    await t.action(applySync, controlPlane.sign(controlPlane.snapshot()));
+    controlPlane.gap();
+    vi.setSystemTime(15_000);
+    await t.action(
+      applySync,
+      controlPlane.sign(controlPlane.update({ tenants: [{ id: "acme" }] })),
+    );
+    vi.setSystemTime(20_000);
+    const forged = controlPlane.sign(controlPlane.duplicate());
+    await t.action(applySync, { ...forged, webhookSignature: "v1,AAAA" });
+
+    vi.setSystemTime(25_000);
+    expect(await t.query(syncHealth, {})).toEqual({
+      ready: true,
+      sourceVersion: 1,
+      lastEventId: "initialize-1",
+      lastSyncedAt: 10_000,
+      ageMs: 15_000,
+      needsResync: true,
+      lastError: { status: "invalid_signature", at: 20_000 },
+      rejections: [
+        { status: "invalid_signature", count: 1, lastRejectedAt: 20_000 },
+        { status: "version_gap", count: 1, lastRejectedAt: 15_000 },
+      ],
+      pendingExpiries: 1,
+      // The 15_000 delivery fell within a minute of the last recorded one.
+      signingKeys: [{ fingerprint: await fingerprint(TEST_SYNC_SECRET), lastVerifiedAt: 10_000 }],
+    });
+  });
+
+  test("refreshes a signing key's lastVerifiedAt at most once a minute", async () => {
+    const next = "whsec_bmV4dC1zeW5jLXNlY3JldA==";
+    process.env.HERCULES_SYNC_SECRET = TEST_SYNC_SECRET;
+    process.env.HERCULES_SYNC_SECRET_NEXT = next;
+    vi.useFakeTimers({ now: 1_000 });
+    const t = harness();
+    const fixture = { tenants: [{ id: "acme" }] };
+    const controlPlane = createFakeControlPlane(fixture);
+    const rotated = createFakeControlPlane(fixture, { secret: next });
+    const deliver = async (plane: typeof controlPlane, at: number) => {
+      vi.setSystemTime(at);
+      await t.action(applySync, plane.sign(controlPlane.update({ tenants: [{ id: "acme" }] })));
+      return (await t.query(syncHealth, {})).signingKeys;
+    };
+
+    await t.action(applySync, controlPlane.sign(controlPlane.snapshot()));
+    expect(await deliver(controlPlane, 30_000)).toEqual([
+      { fingerprint: await fingerprint(TEST_SYNC_SECRET), lastVerifiedAt: 1_000 },
+    ]);
+    expect(await deliver(controlPlane, 61_000)).toEqual([
+      { fingerprint: await fingerprint(TEST_SYNC_SECRET), lastVerifiedAt: 61_000 },
+    ]);
+    // A different key always records, even within the minute.
+    expect(await deliver(rotated, 62_000)).toEqual([
+      { fingerprint: await fingerprint(next), lastVerifiedAt: 62_000 },
+      { fingerprint: await fingerprint(TEST_SYNC_SECRET), lastVerifiedAt: 61_000 },
+    ]);
+    expect(await deliver(controlPlane, 63_000)).toEqual([
+      { fingerprint: await fingerprint(TEST_SYNC_SECRET), lastVerifiedAt: 63_000 },
+      { fingerprint: await fingerprint(next), lastVerifiedAt: 62_000 },
+    ]);
+  });
+
+  test("counts pending expiries as they are scheduled and as they run", async () => {
+    vi.useFakeTimers({ now: 10_000 });
+    const t = harness();
+    const controlPlane = createFakeControlPlane({
+      tenants: [{ id: "acme" }],
+      roles: [{ key: "viewer", permissions: ["doc:read"] }],
+      memberships: [
+        { tenant: "acme", user: "alice" },
+        { tenant: "acme", user: "bob" },
+      ],
+      assignments: [
+        { tenant: "acme", user: "alice", role: "viewer", expiresAt: 100_000 },
+        { tenant: "acme", user: "bob", role: "viewer", expiresAt: 200_000 },
+      ],
+    });
+    await t.mutation(applyProjection, controlPlane.snapshot());
+    expect((await t.query(syncHealth, {})).pendingExpiries).toBe(2);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect((await t.query(syncHealth, {})).pendingExpiries).toBe(0);
+  });
+
+  test("verifies against every configured secret and reports which one matched", async () => {
+    const next = "whsec_bmV4dC1zeW5jLXNlY3JldA==";
+    const retired = "whsec_cmV0aXJlZC1zeW5jLXNlY3JldA==";
+    process.env.HERCULES_SYNC_SECRET = TEST_SYNC_SECRET;
+    process.env.HERCULES_SYNC_SECRET_NEXT = next;
+    vi.useFakeTimers({ now: 1_000 });
+    const t = harness();
+    const fixture = { tenants: [{ id: "acme" }] };
+    const controlPlane = createFakeControlPlane(fixture);
+    const rotated = createFakeControlPlane(fixture, { secret: next });
+    const stranger = createFakeControlPlane(fixture, { secret: retired });
+
+    await t.action(applySync, controlPlane.sign(controlPlane.snapshot()));
+    vi.setSystemTime(2_000);
+    expect(
+      await t.action(applySync, rotated.sign(controlPlane.update({ tenants: [{ id: "acme" }] }))),
+    ).toMatchObject({ status: "applied", acknowledgedVersion: 2 });
+    vi.setSystemTime(3_000);
+    expect(await t.action(applySync, stranger.sign(controlPlane.duplicate()))).toEqual({
+      ok: false,
+      status: "invalid_signature",
+    });
+    expect((await t.query(syncHealth, {})).signingKeys).toEqual([
+      { fingerprint: await fingerprint(next), lastVerifiedAt: 2_000 },
+      { fingerprint: await fingerprint(TEST_SYNC_SECRET), lastVerifiedAt: 1_000 },
+    ]);
+
+    // A comma-separated list works the same way.
+    process.env.HERCULES_SYNC_SECRET = `${next}, ${retired}`;
+    delete process.env.HERCULES_SYNC_SECRET_NEXT;
+    expect(await t.action(applySync, stranger.sign(controlPlane.duplicate()))).toMatchObject({
+      status: "duplicate",
+    });
+    expect(await t.action(applySync, controlPlane.sign(controlPlane.duplicate()))).toEqual({
+      ok: false,
+      status: "invalid_signature",
+    });
+  });
+
+  test("checks opt into failing closed on a stale mirror", async () => {
+    vi.useFakeTimers({ now: 0 });
+    const t = harness();
+    await t.mutation(applyProjection, {
+      type: "access.projection.snapshot",
+      schemaVersion: 5,
+      eventId: "init",
+      mode: "initialize",
+      sourceVersion: 1,
+      expectedIssuer: ISSUER,
+      ...emptyRows(),
+      tenants: [tenant("P", true)],
+    });
+    vi.setSystemTime(60_000);
+    const request = { tokenIdentifier: `${ISSUER}|alice`, permission: "doc:read" };
+    expect(await t.query(check, request)).toMatchObject({ reasonCode: "permission_missing" });
+    expect(await t.query(check, { ...request, maxMirrorAgeMs: 30_000 })).toEqual({
+      allowed: false,
+      reasonCode: "mirror_stale",
+      sourceVersion: 1,
+    });
+  });
+});
+
+describe("stale-write guards", () => {
+  test("skips changes older than the row they target and reports them", async () => {
+    const t = harness();
+    await t.mutation(applyProjection, {
+      type: "access.projection.snapshot",
+      schemaVersion: 5,
+      eventId: "init",
+      mode: "initialize",
+      sourceVersion: 1,
+      expectedIssuer: ISSUER,
+      ...emptyRows(),
+      tenants: [tenant("P", true)],
+      users: [user("bob"), user("carol")],
+    });
+    // A newer write to bob has already landed (e.g. delivered out of order).
+    await t.run(async (ctx) => {
+      const bob = await ctx.db
+        .query("users")
+        .withIndex("by_user_id", (q) => q.eq("generation", undefined).eq("id", "bob"))
+        .unique();
+      await ctx.db.patch(bob!._id, { sourceVersion: 5 });
+    });
+
+    expect(
+      await t.mutation(applyProjection, {
+        type: "access.projection.event",
+        schemaVersion: 5,
+        eventId: "e2",
+        sourceVersion: 2,
+        changes: [
+          { entityType: "user", operation: "delete", userId: "bob" },
+          { entityType: "user", operation: "upsert", userId: "carol" },
+        ],
+        ...emptyRows(),
+        users: [{ ...user("carol"), name: "Carol", updatedAt: 2 }],
+      }),
+    ).toEqual({
+      ok: true,
+      status: "applied",
+      acknowledgedVersion: 2,
+      skippedWrites: [
+        {
+          entityType: "user",
+          entityId: "bob",
+          operation: "delete",
+          sourceVersion: 2,
+          storedVersion: 5,
+        },
+      ],
+    });
+
+    const users = await t.run(async (ctx) =>
+      (await ctx.db.query("users").collect()).map((row) => [row.id, row.name, row.sourceVersion]),
+    );
+    expect(users).toEqual([
+      ["bob", "bob", 5],
+      ["carol", "Carol", 2],
+    ]);
+    const log = await t.query(syncLogList, { entityType: "user" });
+    expect(log.items.map((entry: { entityId: string }) => entry.entityId)).toEqual(["carol"]);
+  });
+
+  test("a late upsert older than a delete does not re-create the entity", async () => {
+    const t = harness();
+    await t.mutation(applyProjection, {
+      type: "access.projection.snapshot",
+      schemaVersion: 5,
+      eventId: "init",
+      mode: "initialize",
+      sourceVersion: 1,
+      expectedIssuer: ISSUER,
+      ...emptyRows(),
+      tenants: [tenant("P", true)],
+      users: [user("bob")],
+    });
+    await t.mutation(applyProjection, {
+      type: "access.projection.event",
+      schemaVersion: 5,
+      eventId: "e3",
+      sourceVersion: 2,
+      changes: [{ entityType: "user", operation: "delete", userId: "bob" }],
+      ...emptyRows(),
+    });
+    // Rewind the channel so an upsert written before the delete gets through
+    // the version sequence, as a late out-of-order delivery would.
+    await t.run(async (ctx) => {
+      const state = await ctx.db.query("sync_state").unique();
+      await ctx.db.patch(state!._id, { sourceVersion: 0 });
+    });
+
+    expect(
+      await t.mutation(applyProjection, {
+        type: "access.projection.event",
+        schemaVersion: 5,
+        eventId: "late",
+        sourceVersion: 1,
+        changes: [{ entityType: "user", operation: "upsert", userId: "bob" }],
+        ...emptyRows(),
+        users: [user("bob")],
+      }),
+    ).toMatchObject({
+      status: "applied",
+      skippedWrites: [
+        { entityType: "user", entityId: "bob", operation: "upsert", storedVersion: 2 },
+      ],
+    });
+    expect(await t.run((ctx) => ctx.db.query("users").collect())).toEqual([]);
+  });
+});
+
+describe("replay protection", () => {
+  afterEach(() => {
+    delete process.env.HERCULES_SYNC_SECRET;
+    delete process.env.HERCULES_SYNC_REPLAY_WINDOW_SECONDS;
+  });
+
+  test("rejects deliveries signed before the replay window", async () => {
+    process.env.HERCULES_SYNC_SECRET = TEST_SYNC_SECRET;
+    process.env.HERCULES_SYNC_REPLAY_WINDOW_SECONDS = "60";
+    vi.useFakeTimers({ now: 1_000_000 });
+    const t = harness();
+    const controlPlane = createFakeControlPlane({ tenants: [{ id: "acme" }] });
+    const snapshot = controlPlane.snapshot();
+
+    const captured = controlPlane.sign(snapshot, { timestamp: new Date(1_000_000 - 120_000) });
+    expect(await t.action(applySync, captured)).toEqual({ ok: false, status: "replayed" });
+    expect(await t.action(applySync, controlPlane.sign(snapshot))).toMatchObject({
+      status: "applied",
+    });
+  });
+
+  test("rejects an applied event re-sent after newer ones without flagging a gap", async () => {
+    const t = harness();
+    const event = (sourceVersion: number) => ({
+      type: "access.projection.event",
+      schemaVersion: 5,
+      eventId: `e${sourceVersion}`,
+      sourceVersion,
+      changes: [{ entityType: "user", operation: "upsert", userId: "bob" }],
+      ...emptyRows(),
+      users: [{ ...user("bob"), updatedAt: sourceVersion }],
+    });
+    await t.mutation(applyProjection, {
+      type: "access.projection.snapshot",
+      schemaVersion: 5,
+      eventId: "init",
+      mode: "initialize",
+      sourceVersion: 1,
+      expectedIssuer: ISSUER,
+      ...emptyRows(),
+      tenants: [tenant("P", true)],
+    });
+    await t.mutation(applyProjection, event(2));
+    await t.mutation(applyProjection, event(3));
+
+    expect(await t.mutation(applyProjection, event(2))).toEqual({ ok: false, status: "replayed" });
+    expect(await t.mutation(applyProjection, event(3))).toMatchObject({ status: "duplicate" });
+    expect(await t.query(syncHealth, {})).not.toHaveProperty("needsResync");
+  });
+});
+
+describe("protocol versions", () => {
+  test("upcasts a v4 payload to v5 before applying it", async () => {
+    const t = harness();
+    const v4Tenant = ({ accessMode, ...row }: ReturnType<typeof tenant>) => ({
+      ...row,
+      accountEntryMode: accessMode,
+    });
+    expect(
+      await t.mutation(applyProjection, {
+        type: "access.projection.snapshot",
+        schemaVersion: 4,
+        eventId: "init",
+        mode: "initialize",
+        sourceVersion: 1,
+        expectedIssuer: ISSUER,
+        ...emptyRows(),
+        tenants: [
+          v4Tenant(tenant("P", true)),
+          { ...v4Tenant(tenant("OLD", false)), status: "disabled" },
+        ],
+        groups: [{ groupId: "g1", tenantId: "P", name: "g1", status: "disabled", updatedAt: 0 }],
+      }),
+    ).toEqual({ ok: true, status: "applied", acknowledgedVersion: 1 });
+
+    const mirror = await t.run(async (ctx) => ({
+      tenants: (await ctx.db.query("tenants").collect()).map((row) => [
+        row.id,
+        row.status,
+        row.accessMode,
+      ]),
+      groups: (await ctx.db.query("groups").collect()).map((row) => row.status),
+    }));
+    expect(mirror).toEqual({
+      tenants: [
+        ["P", "active", "open"],
+        ["OLD", "archived", "open"],
+      ],
+      groups: ["archived"],
+    });
+  });
+
+  test("answers versions it cannot upcast with the supported range", async () => {
+    const t = harness();
+    // 4.5 is inside the range, but no upcaster exists for it.
+    for (const schemaVersion of [3, 4.5, 6]) {
+      expect(await t.mutation(applyProjection, { ...commit("s1"), schemaVersion })).toEqual({
+        ok: false,
+        status: "unsupported_schema",
+        supportedSchemaVersions: { min: 4, max: 5 },
+      });
+    }
+  });
+});
@@ -2,8 +2,11 @@ import {
   actionGeneric,
   internalMutationGeneric,
   makeFunctionReference,
+  mutationGeneric,
   type ActionBuilder,
   type DataModelFromSchemaDefinition,
+  type FunctionHandle,
+  type GenericActionCtx,
   type GenericMutationCtx,
   type MutationBuilder,
 } from "convex/server";
@@ -11,40 +14,99 @@ import { v } from "convex/values";
 import { Webhook, WebhookVerificationError } from "standardwebhooks";
 import {
   accessProjectionSyncPayloadSchema,
+  changeEntityId,
+  SUPPORTED_PROJECTION_SCHEMA_VERSIONS,
+  upcastProjectionPayload,
   type AccessProjectionEvent,
   type AccessProjectionSnapshot,
+  type AccessProjectionSnapshotBegin,
+  type AccessProjectionSnapshotCommit,
+  type AccessProjectionSnapshotPart,
   type AccessProjectionSyncPayload,
+  type ProjectionChange,
   type ProjectionGroupResourceRoleAssignment,
   type ProjectionGroupRoleAssignment,
   type ProjectionUserResourceRoleAssignment,
   type ProjectionUserRoleAssignment,
+  type SkippedWrite,
   type SyncResponse,
 } from "../shared/sync";
+import {
+  INLINE_REFRESH_LIMIT,
+  dropPermissionGrants,
+  invalidateEffectiveGrants,
+  membershipsHoldingRole,
+  membershipsInGroup,
+  membershipsInTenant,
+  refreshEffectiveGrants,
+} from "./grants";
+import { atGeneration, loadGeneration, type Generation } from "./access";
 import schema from "./schema";
 
 type DataModel = DataModelFromSchemaDefinition<typeof schema>;
 type MutationCtx = GenericMutationCtx<DataModel>;
+type MirrorMutationCtx = MutationCtx & { generation: Generation };
+type SyncStateRow = DataModel["sync_state"]["document"];
+type SnapshotStagingRow = DataModel["snapshot_staging"]["document"];
+type SyncLogEntry = Omit<DataModel["sync_log"]["document"], "_id" | "_creationTime" | "appliedAt">;
 const internalMutation = internalMutationGeneric as MutationBuilder<DataModel, "internal">;
 // applySync (below) is the SINGLE public, parent-facing entry point for the
 // signed sync channel. The raw mirror apply (applyProjection) is an
 // internalMutation, so nothing the parent app can reach writes the mirror
 // without a verified control-plane signature.
 const action = actionGeneric as ActionBuilder<DataModel, "public">;
+// claimResync (gap recovery) is public too, but only ever writes the recovery
+// bookkeeping in sync_state - never mirror data.
+const mutation = mutationGeneric as MutationBuilder<DataModel, "public">;
 
 // The signing secret is bound to THIS component (Convex isolates component env
 // vars from the app), so verification cannot be bypassed by a caller supplying
-// their own secret.
+// their own secret. Either variable may hold a comma-separated list; a delivery
+// verifies against any listed secret, so the control plane can move to a new
+// secret (set as HERCULES_SYNC_SECRET_NEXT) before the old one is retired.
 const SYNC_SECRET_ENV_VAR = "HERCULES_SYNC_SECRET";
+const SYNC_SECRET_NEXT_ENV_VAR = "HERCULES_SYNC_SECRET_NEXT";
+// Signing keys remembered on sync_state, most recently verified first. A key's
+// lastVerifiedAt is coarse: it is only rewritten once it is this old, so steady
+// deliveries do not each patch sync_state.
+const MAX_SIGNING_KEYS = 4;
+const SIGNING_KEY_REFRESH_MS = 60_000;
+
+// Replay protection. A delivery is accepted only within the replay window of
+// its webhook-timestamp (HERCULES_SYNC_REPLAY_WINDOW_SECONDS; default and upper
+// bound 300, the signature check's own tolerance). Within the window, sync_state
+// keeps the last RECENT_EVENT_IDS applied event ids, so a captured delivery
+// re-sent after a newer one is rejected as `replayed`, not mistaken for a gap.
+const REPLAY_WINDOW_ENV_VAR = "HERCULES_SYNC_REPLAY_WINDOW_SECONDS";
+const MAX_REPLAY_WINDOW_SECONDS = 300;
+const RECENT_EVENT_IDS = 32;
 
 type AssignmentSubject = "user" | "group";
 
+// App callbacks (function handles, minted by the parent's sync route) scheduled
+// when an applied event changes a membership, a role assignment, or archives a
+// tenant. They ride along with each delivery; nothing is stored.
+const syncHooksValidator = v.object({
+  onMembershipChanged: v.optional(v.string()),
+  onRoleAssignmentChanged: v.optional(v.string()),
+  onTenantArchived: v.optional(v.string()),
+});
+type SyncHooks = typeof syncHooksValidator.type;
+type HookHandle = FunctionHandle<"mutation" | "action">;
+
 // Reference to the component-internal mirror apply. Only the verifying action
 // below invokes it; it is never exported in the component's public API.
 const applyProjectionReference = makeFunctionReference<
   "mutation",
-  AccessProjectionSyncPayload,
+  AccessProjectionSyncPayload & { hooks?: SyncHooks },
   SyncResponse
 >("sync:applyProjection");
+const recordRejectionReference = makeFunctionReference<"mutation", { status: string }>(
+  "sync:recordRejection",
+);
+const recordSigningKeyReference = makeFunctionReference<"mutation", { fingerprint: string }>(
+  "sync:recordSigningKey",
+);
 
 // Exact-identity expiry mutations: scheduled at expiresAt so the reactive query
 // is invalidated when a time-bound assignment lapses. The runtime check also
@@ -72,9 +134,44 @@ const expireResourceRoleAssignmentReference = makeFunctionReference<
 >("sync:expireResourceRoleAssignment");
 
 // Convex transactions have document-count limits. Reject an oversized aggregate
-// with a clear payload failure rather than letting the mutation abort opaquely.
+// (or an oversized part of a multi-part snapshot) with a clear payload failure
+// rather than letting the mutation abort opaquely. Larger aggregates ship
+// multi-part, which is staged and installed across transactions.
 const MAX_SNAPSHOT_DOCUMENTS = 16_000;
 
+// Gap recovery backoff: a resync claim holds for RESYNC_BASE_LEASE_MS, doubling
+// with every further claim up to RESYNC_MAX_LEASE_MS, so a control plane that
+// never answers is asked ever less often.
+const RESYNC_BASE_LEASE_MS = 60_000;
+const RESYNC_MAX_LEASE_MS = 30 * 60_000;
+
+// Rows one multi-part install, discard or sweep transaction installs or deletes.
+const SNAPSHOT_BATCH = 1_000;
+
+// Scheduled continuations of a multi-part snapshot: installing a committed one
+// in batches, deleting the staged rows of a superseded one, and sweeping the
+// mirror generations an installed one retired.
+const installSnapshotReference = makeFunctionReference<"mutation", { snapshotId: string }>(
+  "sync:installSnapshot",
+);
+const discardSnapshotRowsReference = makeFunctionReference<"mutation", { snapshotId: string }>(
+  "sync:discardSnapshotRows",
+);
+const sweepMirrorGenerationsReference = makeFunctionReference<"mutation", { generation: number }>(
+  "sync:sweepMirrorGenerations",
+);
+
+// Sync log retention, in days, read from the component's env (default 30; "0"
+// stops logging). Unparseable values fall back to the default rather than
+// failing the sync. Every logged write also prunes up to SYNC_LOG_PRUNE_BATCH
+// entries past the window, so the log stays bounded without a cron.
+const SYNC_LOG_RETENTION_ENV_VAR = "HERCULES_SYNC_LOG_RETENTION_DAYS";
+const DEFAULT_SYNC_LOG_RETENTION_DAYS = 30;
+const SYNC_LOG_PRUNE_BATCH = 100;
+const DAY_MS = 24 * 60 * 60_000;
+// How long a deleted entity's version is kept for the stale-write guard.
+const TOMBSTONE_RETENTION_MS = 30 * DAY_MS;
+
 const MIRROR_TABLES = [
   "tenants",
   "roles",
@@ -92,15 +189,24 @@ const MIRROR_TABLES = [
 ] as const;
 type MirrorTable = (typeof MIRROR_TABLES)[number];
 
-// The args validator is intentionally loose (the producer ships either payload
+// The args validator is intentionally loose (the producer ships any payload
 // kind); real validation is the zod parse below.
 const syncPayloadArgs = {
-  type: v.union(v.literal("access.projection.snapshot"), v.literal("access.projection.event")),
+  type: v.union(
+    v.literal("access.projection.snapshot"),
+    v.literal("access.projection.event"),
+    v.literal("access.projection.snapshot.begin"),
+    v.literal("access.projection.snapshot.part"),
+    v.literal("access.projection.snapshot.commit"),
+  ),
   schemaVersion: v.number(),
   eventId: v.string(),
-  sourceVersion: v.number(),
+  sourceVersion: v.optional(v.number()),
   mode: v.optional(v.union(v.literal("initialize"), v.literal("reset"))),
   expectedIssuer: v.optional(v.string()),
+  snapshotId: v.optional(v.string()),
+  partIndex: v.optional(v.number()),
+  partCount: v.optional(v.number()),
   changes: v.optional(v.array(v.any())),
   tenants: v.optional(v.array(v.any())),
   roles: v.optional(v.array(v.any())),
@@ -117,18 +223,52 @@ const syncPayloadArgs = {
   users: v.optional(v.array(v.any())),
 };
 
-// Verify the standardwebhooks signature, then translate the library outcome:
-// `ok` carries the parsed payload; a WebhookVerificationError is a clean
-// rejection; anything else (e.g. a crypto fault) propagates as a server error.
-function verifyWebhookPayload(secret: string, rawBody: string, headers: Record<string, string>) {
-  try {
-    return { ok: true as const, payload: new Webhook(secret).verify(rawBody, headers) };
-  } catch (error) {
-    if (error instanceof WebhookVerificationError) {
-      return { ok: false as const };
+function syncSecrets(): string[] {
+  return [SYNC_SECRET_ENV_VAR, SYNC_SECRET_NEXT_ENV_VAR].flatMap((name) =>
+    (process.env[name] ?? "")
+      .split(",")
+      .map((secret) => secret.trim())
+      .filter((secret) => secret !== ""),
+  );
+}
+
+// Verify the standardwebhooks signature against each secret in turn, then
+// translate the library outcome: `ok` carries the parsed payload and the secret
+// that matched; a WebhookVerificationError is a clean rejection; anything else
+// (e.g. a crypto fault) propagates as a server error.
+function verifyWebhookPayload(secrets: string[], rawBody: string, headers: Record<string, string>) {
+  for (const secret of secrets) {
+    try {
+      return { ok: true as const, payload: new Webhook(secret).verify(rawBody, headers), secret };
+    } catch (error) {
+      if (!(error instanceof WebhookVerificationError)) throw error;
     }
-    throw error;
   }
+  return { ok: false as const };
+}
+
+function replayWindowMs(): number {
+  const raw = process.env[REPLAY_WINDOW_ENV_VAR];
+  const seconds = raw === undefined || raw.trim() === "" ? NaN : Number(raw);
+  return (
+    (Number.isFinite(seconds) && seconds > 0
+      ? Math.min(seconds, MAX_REPLAY_WINDOW_SECONDS)
+      : MAX_REPLAY_WINDOW_SECONDS) * 1000
+  );
+}
+
+// The signature check already rejected unparseable timestamps.
+function outsideReplayWindow(webhookTimestamp: string): boolean {
+  return Date.now() - Number.parseInt(webhookTimestamp, 10) * 1000 > replayWindowMs();
+}
+
+// Identifies a signing secret without storing it: the first 16 hex digits of
+// the SHA-256 of the secret string as configured.
+async function signingKeyFingerprint(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest).slice(0, 8), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
 }
 
 // applySync - the ONLY public surface that can reach the mirror. The parent
@@ -143,46 +283,147 @@ export const applySync = action({
     webhookId: v.string(),
     webhookTimestamp: v.string(),
     webhookSignature: v.string(),
+    hooks: v.optional(syncHooksValidator),
   },
   handler: async (ctx, args): Promise<SyncResponse> => {
-    const secret = process.env[SYNC_SECRET_ENV_VAR];
-    if (!secret) {
+    const secrets = syncSecrets();
+    if (secrets.length === 0) {
       // The signing secret is not bound to the component. Fail closed: never
       // write unverified data. Surfaces as a 500 at the HTTP route.
       throw new Error(`${SYNC_SECRET_ENV_VAR} is not configured for the Hercules IAM component.`);
     }
-    const verified = verifyWebhookPayload(secret, args.payload, {
+    const verified = verifyWebhookPayload(secrets, args.payload, {
       "webhook-id": args.webhookId,
       "webhook-timestamp": args.webhookTimestamp,
       "webhook-signature": args.webhookSignature,
     });
-    if (!verified.ok) {
-      return { ok: false as const, status: "invalid_signature" as const };
+    const response: SyncResponse = !verified.ok
+      ? { ok: false, status: "invalid_signature" }
+      : outsideReplayWindow(args.webhookTimestamp)
+        ? { ok: false, status: "replayed" }
+        : await applyVerified(ctx, verified.payload, args.hooks);
+    if (verified.ok) {
+      await ctx.runMutation(recordSigningKeyReference, {
+        fingerprint: await signingKeyFingerprint(verified.secret),
+      });
     }
-    const parsed = accessProjectionSyncPayloadSchema.safeParse(verified.payload);
-    if (!parsed.success) {
-      return { ok: false as const, status: "invalid_payload" as const };
+    if (!response.ok) {
+      await ctx.runMutation(recordRejectionReference, { status: response.status });
+    }
+    return response;
+  },
+});
+
+async function applyVerified(
+  ctx: GenericActionCtx<DataModel>,
+  payload: unknown,
+  hooks: SyncHooks | undefined,
+): Promise<SyncResponse> {
+  const upcast = upcastProjectionPayload(payload);
+  if (!upcast.supported) return unsupportedSchema();
+  const parsed = accessProjectionSyncPayloadSchema.safeParse(upcast.payload);
+  if (!parsed.success) {
+    return { ok: false as const, status: "invalid_payload" as const };
+  }
+  return await ctx.runMutation(applyProjectionReference, {
+    ...parsed.data,
+    ...(hooks === undefined ? {} : { hooks }),
+  });
+}
+
+function unsupportedSchema(): SyncResponse {
+  return {
+    ok: false,
+    status: "unsupported_schema",
+    supportedSchemaVersions: SUPPORTED_PROJECTION_SCHEMA_VERSIONS,
+  };
+}
+
+// Counts a rejected delivery for the sync health report. Internal: only
+// applySync records outcomes.
+export const recordRejection = internalMutation({
+  args: { status: v.string() },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("sync_rejections")
+      .withIndex("by_status", (q) => q.eq("status", args.status))
+      .unique();
+    const lastRejectedAt = Date.now();
+    if (existing) {
+      await ctx.db.patch(existing._id, { count: existing.count + 1, lastRejectedAt });
+    } else {
+      await ctx.db.insert("sync_rejections", { status: args.status, count: 1, lastRejectedAt });
+    }
+  },
+});
+
+// Notes which signing key verified a delivery, so an operator can see when a
+// retired secret stops being used. Nothing is recorded until the mirror has a
+// sync_state, and nothing is written while the key is already the latest and
+// was verified within SIGNING_KEY_REFRESH_MS; internal, like recordRejection.
+export const recordSigningKey = internalMutation({
+  args: { fingerprint: v.string() },
+  handler: async (ctx, { fingerprint }) => {
+    const state = await ctx.db.query("sync_state").unique();
+    if (!state) return;
+    const now = Date.now();
+    const latest = state.signingKeys?.[0];
+    if (
+      latest?.fingerprint === fingerprint &&
+      now - latest.lastVerifiedAt < SIGNING_KEY_REFRESH_MS
+    ) {
+      return;
     }
-    return await ctx.runMutation(applyProjectionReference, parsed.data);
+    const signingKeys = [
+      { fingerprint, lastVerifiedAt: now },
+      ...(state.signingKeys ?? []).filter((key) => key.fingerprint !== fingerprint),
+    ].slice(0, MAX_SIGNING_KEYS);
+    await ctx.db.patch(state._id, { signingKeys });
   },
 });
 
 // applyProjection - the raw mirror apply. internalMutation, so it is NOT in the
 // component's public API and is reachable only from the verifying action above.
 export const applyProjection = internalMutation({
-  args: syncPayloadArgs,
-  handler: async (ctx, rawArgs) => {
-    if (rawArgs.schemaVersion !== 5) {
-      return { ok: false as const, status: "unsupported_schema" as const };
-    }
+  args: { ...syncPayloadArgs, hooks: v.optional(syncHooksValidator) },
+  handler: async (ctx, { hooks, ...rawArgs }): Promise<SyncResponse> => {
+    const upcast = upcastProjectionPayload(rawArgs);
+    if (!upcast.supported) return unsupportedSchema();
 
-    const parsed = accessProjectionSyncPayloadSchema.safeParse(rawArgs);
+    const parsed = accessProjectionSyncPayloadSchema.safeParse(upcast.payload);
     if (!parsed.success) {
       return { ok: false as const, status: "invalid_payload" as const };
     }
 
     const payload = parsed.data;
     const state = await ctx.db.query("sync_state").unique();
+    const staging = await ctx.db.query("snapshot_staging").unique();
+
+    // A committed multi-part snapshot is mid-install. The live generation
+    // keeps serving reads, but anything written to it now would be dropped at
+    // the flip, so deliveries wait until the install finishes.
+    if (staging?.commitEventId !== undefined) {
+      if (
+        payload.type === "access.projection.snapshot.commit" &&
+        payload.snapshotId === staging.snapshotId
+      ) {
+        return installingResponse(staging);
+      }
+      return {
+        ok: false as const,
+        status: "not_ready" as const,
+        currentVersion: state?.sourceVersion ?? 0,
+      };
+    }
+
+    switch (payload.type) {
+      case "access.projection.snapshot.begin":
+        return await beginSnapshot(ctx, payload, state, staging);
+      case "access.projection.snapshot.part":
+        return await stageSnapshotPart(ctx, payload, staging);
+      case "access.projection.snapshot.commit":
+        return await commitSnapshot(ctx, payload, state, staging);
+    }
 
     // Idempotency: a re-delivered event/snapshot with the same eventId is a
     // no-op ack (the version must match what we recorded for that eventId).
@@ -196,6 +437,10 @@ export const applyProjection = internalMutation({
         acknowledgedVersion: state.sourceVersion,
       };
     }
+    // An older event re-sent after newer ones have applied.
+    if (state?.recentEventIds?.includes(payload.eventId)) {
+      return { ok: false as const, status: "replayed" as const };
+    }
 
     if (payload.type === "access.projection.event") {
       if (!state) {
@@ -203,49 +448,58 @@ export const applyProjection = internalMutation({
       }
       const expectedVersion = state.sourceVersion + 1;
       if (payload.sourceVersion !== expectedVersion) {
-        return {
-          ok: false as const,
-          status: "version_gap" as const,
+        return await noteResyncNeeded(ctx, state, {
+          ok: false,
+          status: "version_gap",
           currentVersion: state.sourceVersion,
           expectedVersion,
           receivedVersion: payload.sourceVersion,
-        };
+        });
       }
     } else {
-      if (payload.mode === "initialize" && state) {
-        return {
-          ok: false as const,
-          status: "reset_required" as const,
-          currentVersion: state.sourceVersion,
-        };
-      }
-      if (payload.mode === "reset" && !state) {
-        return { ok: false as const, status: "not_ready" as const, currentVersion: 0 };
-      }
-      if (state && state.expectedIssuer !== payload.expectedIssuer) {
-        return { ok: false as const, status: "issuer_mismatch" as const };
-      }
-      if (payload.mode === "reset" && state && payload.sourceVersion < state.sourceVersion) {
-        return {
-          ok: false as const,
-          status: "version_gap" as const,
-          currentVersion: state.sourceVersion,
-          expectedVersion: state.sourceVersion + 1,
-          receivedVersion: payload.sourceVersion,
-        };
-      }
+      const rejected = snapshotPrecondition(state, payload);
+      if (rejected) return await noteResyncNeeded(ctx, state, rejected);
     }
 
     const sourceVersion = payload.sourceVersion;
     const now = Date.now();
+    const mirror = atGeneration(ctx, state?.generation);
+    let skippedWrites: SkippedChange[] = [];
 
     if (payload.type === "access.projection.snapshot") {
       if (snapshotDocumentCount(payload) > MAX_SNAPSHOT_DOCUMENTS) {
         return { ok: false as const, status: "invalid_payload" as const };
       }
-      await replaceProjection(ctx, payload, sourceVersion, now);
+      await replaceProjection(mirror, payload, sourceVersion, now);
+      await recordSyncLog(
+        ctx,
+        [
+          {
+            eventId: payload.eventId,
+            sourceVersion,
+            entityType: "snapshot",
+            operation: payload.mode,
+            entityId: payload.eventId,
+          },
+        ],
+        now,
+      );
     } else {
-      await applyEvent(ctx, payload, sourceVersion, now);
+      skippedWrites = await applyEvent(mirror, payload, sourceVersion, now, hooks ?? {});
+      const skipped = new Set(skippedWrites.map((write) => write.change));
+      await recordSyncLog(
+        ctx,
+        payload.changes
+          .filter((change) => !skipped.has(change))
+          .map((change) => ({
+            eventId: payload.eventId,
+            sourceVersion,
+            entityType: change.entityType,
+            operation: change.operation,
+            entityId: changeEntityId(change),
+          })),
+        now,
+      );
     }
 
     const nextState = {
@@ -256,6 +510,9 @@ export const applyProjection = internalMutation({
           : state!.expectedIssuer,
       lastEventId: payload.eventId,
       lastSyncedAt: Date.now(),
+      recentEventIds: recentEventIds(state?.recentEventIds, payload.eventId),
+      ...(state?.signingKeys === undefined ? {} : { signingKeys: state.signingKeys }),
+      ...(state?.generation === undefined ? {} : { generation: state.generation }),
     };
     if (state) {
       await ctx.db.replace(state._id, nextState);
@@ -267,10 +524,283 @@ export const applyProjection = internalMutation({
       ok: true as const,
       status: "applied" as const,
       acknowledgedVersion: sourceVersion,
+      ...(skippedWrites.length === 0
+        ? {}
+        : { skippedWrites: skippedWrites.map(({ change, ...write }) => write) }),
     };
   },
 });
 
+// Whether a snapshot with this header may replace the mirror in `state`: an
+// initialize needs an empty mirror, a reset an existing one from the same
+// issuer at no newer a version. Returns the rejection, or null to proceed.
+function snapshotPrecondition(
+  state: SyncStateRow | null,
+  header: Pick<AccessProjectionSnapshot, "mode" | "sourceVersion" | "expectedIssuer">,
+): SyncResponse | null {
+  if (header.mode === "initialize" && state) {
+    return { ok: false, status: "reset_required", currentVersion: state.sourceVersion };
+  }
+  if (header.mode === "reset" && !state) {
+    return { ok: false, status: "not_ready", currentVersion: 0 };
+  }
+  if (state && state.expectedIssuer !== header.expectedIssuer) {
+    return { ok: false, status: "issuer_mismatch" };
+  }
+  if (header.mode === "reset" && state && header.sourceVersion < state.sourceVersion) {
+    return {
+      ok: false,
+      status: "version_gap",
+      currentVersion: state.sourceVersion,
+      expectedVersion: state.sourceVersion + 1,
+      receivedVersion: header.sourceVersion,
+    };
+  }
+  return null;
+}
+
+// Gap recovery: a version_gap or reset_required rejection means the mirror is
+// stale until the control plane sends a snapshot. Flag it on sync_state (the
+// first detection stands) so `claimResync` can ask for one. The next applied
+// delivery rewrites sync_state without the flag.
+async function noteResyncNeeded(
+  ctx: MutationCtx,
+  state: SyncStateRow | null,
+  response: SyncResponse,
+): Promise<SyncResponse> {
+  if (
+    state &&
+    !state.resync &&
+    (response.status === "version_gap" || response.status === "reset_required")
+  ) {
+    await ctx.db.patch(state._id, {
+      resync: { reason: response.status, detectedAt: Date.now(), attempts: 0 },
+    });
+  }
+  return response;
+}
+
+// The outcome of a successful resync claim: ask the control plane for a
+// snapshot of `currentVersion`'s successor.
+export type ResyncClaim = {
+  reason: "version_gap" | "reset_required";
+  currentVersion: number;
+  attempts: number;
+};
+
+// Claims the next snapshot request to the control plane. Null when no resync is
+// needed, or while the previous claim's lease runs - so concurrent triggers
+// make one request, and repeated ones back off exponentially.
+export const claimResync = mutation({
+  args: {},
+  handler: async (ctx): Promise<ResyncClaim | null> => {
+    const state = await ctx.db.query("sync_state").unique();
+    const resync = state?.resync;
+    if (!state || !resync) return null;
+    const now = Date.now();
+    if (resync.requestedAt !== undefined) {
+      const lease = Math.min(
+        RESYNC_BASE_LEASE_MS * 2 ** Math.max(resync.attempts - 1, 0),
+        RESYNC_MAX_LEASE_MS,
+      );
+      if (now < resync.requestedAt + lease) return null;
+    }
+    const attempts = resync.attempts + 1;
+    await ctx.db.patch(state._id, { resync: { ...resync, attempts, requestedAt: now } });
+    return { reason: resync.reason, currentVersion: state.sourceVersion, attempts };
+  },
+});
+
+// ── multi-part snapshot (staged, installed across transactions) ───────────────
+// Parts are mapped to mirror rows as they arrive and parked in the shadow
+// `snapshot_rows` table. Commit installs them into the next mirror generation in
+// SNAPSHOT_BATCH-sized scheduled transactions while `sync_state` still points
+// at the live one, and the last of those flips the pointer along with the
+// version. So readers see the old mirror until the flip and the new one after
+// it; never a mix, and never no mirror at all. The retired generation is swept
+// afterwards.
+function stagedResponse(
+  staging: Pick<SnapshotStagingRow, "snapshotId" | "receivedParts" | "partCount">,
+): SyncResponse {
+  return {
+    ok: true,
+    status: "staged",
+    snapshotId: staging.snapshotId,
+    partsReceived: staging.receivedParts.length,
+    partCount: staging.partCount,
+  };
+}
+
+function installingResponse(staging: SnapshotStagingRow): SyncResponse {
+  return {
+    ok: true,
+    status: "installing",
+    snapshotId: staging.snapshotId,
+    pendingVersion: staging.sourceVersion,
+  };
+}
+
+async function beginSnapshot(
+  ctx: MutationCtx,
+  begin: AccessProjectionSnapshotBegin,
+  state: SyncStateRow | null,
+  staging: SnapshotStagingRow | null,
+): Promise<SyncResponse> {
+  if (staging?.snapshotId === begin.snapshotId) {
+    // A re-delivered begin acks the parts staged so far; a different begin
+    // reusing the snapshot id cannot be reconciled with them.
+    if (staging.eventId !== begin.eventId) return { ok: false, status: "invalid_payload" };
+    return stagedResponse(staging);
+  }
+  const rejected = snapshotPrecondition(state, begin);
+  if (rejected) return await noteResyncNeeded(ctx, state, rejected);
+  // One snapshot stages at a time; a new begin abandons the previous one.
+  if (staging) await discardStagedSnapshot(ctx, staging);
+  const header = {
+    snapshotId: begin.snapshotId,
+    eventId: begin.eventId,
+    mode: begin.mode,
+    sourceVersion: begin.sourceVersion,
+    expectedIssuer: begin.expectedIssuer,
+    partCount: begin.partCount,
+    receivedParts: [],
+    primaryTenants: 0,
+    stagedAt: Date.now(),
+  };
+  await ctx.db.insert("snapshot_staging", header);
+  return stagedResponse(header);
+}
+
+async function stageSnapshotPart(
+  ctx: MutationCtx,
+  part: AccessProjectionSnapshotPart,
+  staging: SnapshotStagingRow | null,
+): Promise<SyncResponse> {
+  if (staging?.snapshotId !== part.snapshotId) {
+    return { ok: false, status: "unknown_snapshot", snapshotId: part.snapshotId };
+  }
+  if (part.partIndex >= staging.partCount || snapshotDocumentCount(part) > MAX_SNAPSHOT_DOCUMENTS) {
+    return { ok: false, status: "invalid_payload" };
+  }
+  if (staging.receivedParts.includes(part.partIndex)) return stagedResponse(staging);
+  for (const { table, row } of projectionRows(part, staging.sourceVersion)) {
+    await ctx.db.insert("snapshot_rows", { snapshotId: staging.snapshotId, table, row });
+  }
+  const receivedParts = [...staging.receivedParts, part.partIndex];
+  await ctx.db.patch(staging._id, {
+    receivedParts,
+    primaryTenants:
+      staging.primaryTenants + part.tenants.filter((tenant) => tenant.isPrimaryTenant).length,
+  });
+  return stagedResponse({ ...staging, receivedParts });
+}
+
+async function commitSnapshot(
+  ctx: MutationCtx,
+  commit: AccessProjectionSnapshotCommit,
+  state: SyncStateRow | null,
+  staging: SnapshotStagingRow | null,
+): Promise<SyncResponse> {
+  if (staging?.snapshotId !== commit.snapshotId) {
+    // A commit re-delivered after its install finished acks the installed
+    // version, like any other duplicate delivery.
+    if (state?.lastEventId === commit.eventId) {
+      return { ok: true, status: "duplicate", acknowledgedVersion: state.sourceVersion };
+    }
+    return { ok: false, status: "unknown_snapshot", snapshotId: commit.snapshotId };
+  }
+  if (staging.receivedParts.length < staging.partCount) {
+    return { ok: false, status: "snapshot_incomplete", snapshotId: commit.snapshotId };
+  }
+  if (staging.primaryTenants !== 1) return { ok: false, status: "invalid_payload" };
+  // Events may have advanced the mirror while the parts were staging.
+  const rejected = snapshotPrecondition(state, staging);
+  if (rejected) return await noteResyncNeeded(ctx, state, rejected);
+
+  const committed = {
+    ...staging,
+    commitEventId: commit.eventId,
+    generation: (state?.generation ?? 0) + 1,
+  };
+  await ctx.db.patch(staging._id, {
+    commitEventId: committed.commitEventId,
+    generation: committed.generation,
+  });
+  const installed = await continueSnapshotInstall(ctx, committed);
+  if (!installed) return installingResponse(committed);
+  return { ok: true, status: "applied", acknowledgedVersion: staging.sourceVersion };
+}
+
+// One install transaction: moves up to SNAPSHOT_BATCH staged rows into the
+// staging generation. Returns true once the last of them is in and
+// `sync_state` points at it; otherwise schedules itself.
+async function continueSnapshotInstall(
+  ctx: MutationCtx,
+  staging: SnapshotStagingRow,
+): Promise<boolean> {
+  const now = Date.now();
+  const target = atGeneration(ctx, staging.generation);
+  const staged = await ctx.db
+    .query("snapshot_rows")
+    .withIndex("by_snapshot", (q) => q.eq("snapshotId", staging.snapshotId))
+    .take(SNAPSHOT_BATCH);
+  for (const { _id, table, row } of staged) {
+    await installRow(target, { table: table as MirrorTable, row }, now);
+    await ctx.db.delete(_id);
+  }
+  if (staged.length === SNAPSHOT_BATCH) {
+    await ctx.scheduler.runAfter(0, installSnapshotReference, { snapshotId: staging.snapshotId });
+    return false;
+  }
+
+  // The flip: the new generation and its version take over in one write.
+  const state = await ctx.db.query("sync_state").unique();
+  const nextState = {
+    sourceVersion: staging.sourceVersion,
+    expectedIssuer: staging.expectedIssuer,
+    lastEventId: staging.commitEventId,
+    lastSyncedAt: Date.now(),
+    recentEventIds: recentEventIds(state?.recentEventIds, staging.commitEventId!),
+    ...(state?.signingKeys === undefined ? {} : { signingKeys: state.signingKeys }),
+    generation: staging.generation,
+  };
+  if (state) {
+    await ctx.db.replace(state._id, nextState);
+  } else {
+    await ctx.db.insert("sync_state", nextState);
+  }
+  await invalidateEffectiveGrants(ctx, now);
+  await ctx.scheduler.runAfter(0, sweepMirrorGenerationsReference, {
+    generation: staging.generation!,
+  });
+  await recordSyncLog(
+    ctx,
+    [
+      {
+        eventId: staging.commitEventId,
+        sourceVersion: staging.sourceVersion,
+        entityType: "snapshot",
+        operation: staging.mode,
+        entityId: staging.snapshotId,
+      },
+    ],
+    now,
+  );
+  await ctx.db.delete(staging._id);
+  return true;
+}
+
+function recentEventIds(previous: string[] | undefined, eventId: string): string[] {
+  return [...(previous ?? []), eventId].slice(-RECENT_EVENT_IDS);
+}
+
+async function discardStagedSnapshot(ctx: MutationCtx, staging: SnapshotStagingRow) {
+  await ctx.db.delete(staging._id);
+  await ctx.scheduler.runAfter(0, discardSnapshotRowsReference, {
+    snapshotId: staging.snapshotId,
+  });
+}
+
 // ── wire-row → mirror-row mappers ─────────────────────────────────────────────
 // Owning-entity wire rows carry their control-plane PK under a qualified name
 // (tenantId/roleId/…); the mirror stores it as the self-id column `id`. These
@@ -427,106 +957,450 @@ function mapGroupResourceRoleAssignment(
   };
 }
 
-// ── snapshot install (whole-aggregate, atomic) ───────────────────────────────
-async function replaceProjection(
-  ctx: MutationCtx,
-  snapshot: AccessProjectionSnapshot,
-  sourceVersion: number,
-  now: number,
-): Promise<void> {
-  for (const table of MIRROR_TABLES) {
-    await clearTable(ctx, table);
-  }
+// A mapped mirror row tagged with its target table: what a snapshot installs,
+// and what a multi-part snapshot stages until commit.
+type MirrorRow = { table: MirrorTable; row: Record<string, unknown> };
 
-  for (const row of snapshot.tenants) await ctx.db.insert("tenants", mapTenant(row, sourceVersion));
-  for (const row of snapshot.roles) await ctx.db.insert("roles", mapRole(row, sourceVersion));
-  for (const row of snapshot.permissions)
-    await ctx.db.insert("permissions", mapPermission(row, sourceVersion));
-  for (const row of snapshot.rolePermissions)
-    await ctx.db.insert("role_permissions", { ...row, sourceVersion });
-  for (const row of snapshot.resourceTypes)
-    await ctx.db.insert("resource_types", mapResourceType(row, sourceVersion));
-  for (const row of snapshot.memberships)
-    await ctx.db.insert("tenant_memberships", mapMembership(row, sourceVersion));
-  for (const row of snapshot.groups) await ctx.db.insert("groups", mapGroup(row, sourceVersion));
-  for (const row of snapshot.groupMemberships)
-    await ctx.db.insert("group_memberships", { ...row, sourceVersion });
-  for (const row of snapshot.users) await ctx.db.insert("users", mapUser(row, sourceVersion));
-
-  for (const row of snapshot.userRoleAssignments) {
-    if (row.expiresAt !== undefined && row.expiresAt <= now) continue;
-    await ctx.db.insert("user_role_assignments", mapUserRoleAssignment(row, sourceVersion));
-    await scheduleRoleAssignmentExpiry(
-      ctx,
-      "user",
-      row.userRoleAssignmentId,
-      row.expiresAt,
-      row.updatedAt,
-      sourceVersion,
-    );
-  }
-  for (const row of snapshot.groupRoleAssignments) {
-    if (row.expiresAt !== undefined && row.expiresAt <= now) continue;
-    await ctx.db.insert("group_role_assignments", mapGroupRoleAssignment(row, sourceVersion));
+// The thirteen entity arrays of a snapshot or of one snapshot part.
+type ProjectionRows = Omit<
+  AccessProjectionSnapshotPart,
+  "type" | "schemaVersion" | "eventId" | "snapshotId" | "partIndex"
+>;
+
+function projectionRows(rows: ProjectionRows, sourceVersion: number): MirrorRow[] {
+  const tag = (table: MirrorTable, mapped: Record<string, unknown>[]) =>
+    mapped.map((row) => ({ table, row }));
+  return [
+    ...tag(
+      "tenants",
+      rows.tenants.map((row) => mapTenant(row, sourceVersion)),
+    ),
+    ...tag(
+      "roles",
+      rows.roles.map((row) => mapRole(row, sourceVersion)),
+    ),
+    ...tag(
+      "permissions",
+      rows.permissions.map((row) => mapPermission(row, sourceVersion)),
+    ),
+    ...tag(
+      "role_permissions",
+      rows.rolePermissions.map((row) => ({ ...row, sourceVersion })),
+    ),
+    ...tag(
+      "resource_types",
+      rows.resourceTypes.map((row) => mapResourceType(row, sourceVersion)),
+    ),
+    ...tag(
+      "tenant_memberships",
+      rows.memberships.map((row) => mapMembership(row, sourceVersion)),
+    ),
+    ...tag(
+      "groups",
+      rows.groups.map((row) => mapGroup(row, sourceVersion)),
+    ),
+    ...tag(
+      "group_memberships",
+      rows.groupMemberships.map((row) => ({ ...row, sourceVersion })),
+    ),
+    ...tag(
+      "users",
+      rows.users.map((row) => mapUser(row, sourceVersion)),
+    ),
+    ...tag(
+      "user_role_assignments",
+      rows.userRoleAssignments.map((row) => mapUserRoleAssignment(row, sourceVersion)),
+    ),
+    ...tag(
+      "group_role_assignments",
+      rows.groupRoleAssignments.map((row) => mapGroupRoleAssignment(row, sourceVersion)),
+    ),
+    ...tag(
+      "user_resource_role_assignments",
+      rows.userResourceRoleAssignments.map((row) =>
+        mapUserResourceRoleAssignment(row, sourceVersion),
+      ),
+    ),
+    ...tag(
+      "group_resource_role_assignments",
+      rows.groupResourceRoleAssignments.map((row) =>
+        mapGroupResourceRoleAssignment(row, sourceVersion),
+      ),
+    ),
+  ];
+}
+
+// Assignment tables carry expiries: which expiry mutation owns each, and which
+// subject split its ids live in.
+const ASSIGNMENT_TABLES: Partial<
+  Record<MirrorTable, { kind: "role" | "resource"; subject: AssignmentSubject }>
+> = {
+  user_role_assignments: { kind: "role", subject: "user" },
+  group_role_assignments: { kind: "role", subject: "group" },
+  user_resource_role_assignments: { kind: "resource", subject: "user" },
+  group_resource_role_assignments: { kind: "resource", subject: "group" },
+};
+
+// Insert one mapped row into an emptied (or not yet live) generation.
+// Assignments already expired at install time are dropped; live time-bound
+// ones get their expiry scheduled.
+async function installRow(ctx: MirrorMutationCtx, { table, row }: MirrorRow, now: number) {
+  const assignment = ASSIGNMENT_TABLES[table];
+  const expiresAt = row.expiresAt as number | undefined;
+  if (assignment && expiresAt !== undefined && expiresAt <= now) return;
+  await (ctx.db as any).insert(table, inGeneration(row, ctx.generation));
+  if (!assignment) return;
+  const { id, updatedAt, sourceVersion } = row as {
+    id: string;
+    updatedAt: number;
+    sourceVersion: number;
+  };
+  if (assignment.kind === "role") {
     await scheduleRoleAssignmentExpiry(
       ctx,
-      "group",
-      row.groupRoleAssignmentId,
-      row.expiresAt,
-      row.updatedAt,
+      assignment.subject,
+      id,
+      expiresAt,
+      updatedAt,
       sourceVersion,
     );
-  }
-  for (const row of snapshot.userResourceRoleAssignments) {
-    if (row.expiresAt !== undefined && row.expiresAt <= now) continue;
-    await ctx.db.insert(
-      "user_resource_role_assignments",
-      mapUserResourceRoleAssignment(row, sourceVersion),
-    );
+  } else {
     await scheduleResourceRoleAssignmentExpiry(
       ctx,
-      "user",
-      row.userResourceRoleAssignmentId,
-      row.expiresAt,
-      row.updatedAt,
+      assignment.subject,
+      id,
+      expiresAt,
+      updatedAt,
       sourceVersion,
     );
   }
-  for (const row of snapshot.groupResourceRoleAssignments) {
-    if (row.expiresAt !== undefined && row.expiresAt <= now) continue;
-    await ctx.db.insert(
-      "group_resource_role_assignments",
-      mapGroupResourceRoleAssignment(row, sourceVersion),
-    );
-    await scheduleResourceRoleAssignmentExpiry(
-      ctx,
-      "group",
-      row.groupResourceRoleAssignmentId,
-      row.expiresAt,
-      row.updatedAt,
-      sourceVersion,
-    );
+}
+
+// ── snapshot install (whole-aggregate, atomic) ───────────────────────────────
+async function replaceProjection(
+  ctx: MirrorMutationCtx,
+  snapshot: AccessProjectionSnapshot,
+  sourceVersion: number,
+  now: number,
+): Promise<void> {
+  for (const table of MIRROR_TABLES) {
+    await clearTable(ctx, table);
+  }
+  for (const row of projectionRows(snapshot, sourceVersion)) {
+    await installRow(ctx, row, now);
   }
+  // effective_grants is not bounded by the snapshot cap: retire it by epoch
+  // and leave its rows to the rebuild's sweep.
+  await invalidateEffectiveGrants(ctx, now);
 }
 
 // ── event application ────────────────────────────────────────────────────────
 async function applyEvent(
-  ctx: MutationCtx,
+  ctx: MirrorMutationCtx,
   event: AccessProjectionEvent,
   sourceVersion: number,
   now: number,
-): Promise<void> {
+  hooks: SyncHooks,
+): Promise<SkippedChange[]> {
+  const skipped: SkippedChange[] = [];
+  // null once the holders are too many to refresh here (see grants.ts).
+  let grantHolders: Set<string> | null = new Set<string>();
   for (const change of event.changes) {
+    const storedVersion = await readStoredVersion(ctx, change);
+    if (storedVersion !== null && storedVersion > sourceVersion) {
+      skipped.push({
+        change,
+        entityType: change.entityType,
+        entityId: changeEntityId(change),
+        operation: change.operation,
+        sourceVersion,
+        storedVersion,
+      });
+      continue;
+    }
+    const watched = watchedRow(change, hooks);
+    const before = watched ? await readWatchedRow(ctx, watched) : null;
+    grantHolders = addGrantHolders(grantHolders, await affectedGrantHolders(ctx, change));
     if (change.operation === "delete") {
       await applyDelete(ctx, change);
-      continue;
+    } else {
+      await applyUpsert(ctx, event, change, sourceVersion, now);
+    }
+    await writeTombstone(ctx, change, sourceVersion, now);
+    grantHolders = addGrantHolders(grantHolders, await affectedGrantHolders(ctx, change));
+    if (watched) {
+      const after = await readWatchedRow(ctx, watched);
+      await scheduleHook(ctx, hooks, event, change.entityType, before, after);
     }
-    await applyUpsert(ctx, event, change, sourceVersion, now);
   }
+  await refreshEffectiveGrants(ctx, grantHolders, now);
+  await pruneTombstones(ctx, event.changes.length, now);
+  return skipped;
 }
 
-async function applyUpsert(
+// ── effective grants upkeep ───────────────────────────────────────────────────
+// The memberships whose tenant-wide grants a change can alter. Read both before
+// and after the change applies, so old and new holders are both refreshed.
+// Renames and other changes that cannot move a grant touch nobody. null when
+// the holders are too many to list in this transaction.
+async function affectedGrantHolders(
+  ctx: MirrorMutationCtx,
+  change: ProjectionChange,
+): Promise<string[] | null> {
+  switch (change.entityType) {
+    case "tenant":
+      return change.operation === "delete" ? await membershipsInTenant(ctx, change.tenantId) : [];
+    case "role":
+      return change.operation === "delete" ? await membershipsHoldingRole(ctx, change.roleId) : [];
+    case "role_permission":
+      return await membershipsHoldingRole(ctx, change.roleId);
+    case "membership":
+    case "group_membership":
+      return [change.membershipId];
+    case "group":
+      return await membershipsInGroup(ctx, change.groupId);
+    case "user_role_assignment": {
+      const assignment = await ctx.db
+        .query("user_role_assignments")
+        .withIndex("by_assignment_id", (q) =>
+          q.eq("generation", ctx.generation).eq("id", change.userRoleAssignmentId),
+        )
+        .unique();
+      return assignment ? [assignment.membershipId] : [];
+    }
+    case "group_role_assignment": {
+      const assignment = await ctx.db
+        .query("group_role_assignments")
+        .withIndex("by_assignment_id", (q) =>
+          q.eq("generation", ctx.generation).eq("id", change.groupRoleAssignmentId),
+        )
+        .unique();
+      return assignment ? await membershipsInGroup(ctx, assignment.groupId) : [];
+    }
+    default:
+      return [];
+  }
+}
+
+function addGrantHolders(holders: Set<string> | null, ids: string[] | null): Set<string> | null {
+  if (holders === null || ids === null) return null;
+  for (const id of ids) holders.add(id);
+  return holders.size > INLINE_REFRESH_LIMIT ? null : holders;
+}
+
+// ── per-row stale-write guard ─────────────────────────────────────────────────
+type SkippedChange = SkippedWrite & { change: ProjectionChange };
+
+// Every mirror row records the sourceVersion that last wrote it, and a deleted
+// entity leaves a tombstone with the deleting version. A change older than
+// either is skipped, so a late replay can never roll back a newer write (a
+// revoked assignment reappearing, a deleted membership restored). Snapshots
+// need no guard: they replace the mirror wholesale.
+const CHANGE_ROWS: Record<
+  Exclude<ProjectionChange["entityType"], "role_permission" | "group_membership">,
+  { table: MirrorTable; index: string }
+> = {
+  tenant: { table: "tenants", index: "by_tenant_id" },
+  role: { table: "roles", index: "by_role_id" },
+  permission: { table: "permissions", index: "by_permission_id" },
+  resource_type: { table: "resource_types", index: "by_resource_type_id" },
+  membership: { table: "tenant_memberships", index: "by_membership_id" },
+  group: { table: "groups", index: "by_group_id" },
+  user_role_assignment: { table: "user_role_assignments", index: "by_assignment_id" },
+  group_role_assignment: { table: "group_role_assignments", index: "by_assignment_id" },
+  user_resource_role_assignment: {
+    table: "user_resource_role_assignments",
+    index: "by_assignment_id",
+  },
+  group_resource_role_assignment: {
+    table: "group_resource_role_assignments",
+    index: "by_assignment_id",
+  },
+  user: { table: "users", index: "by_user_id" },
+};
+
+// The stored sourceVersion of the row a change targets, or of its tombstone
+// when the row was deleted; null if neither exists.
+async function readStoredVersion(
+  ctx: MirrorMutationCtx,
+  change: ProjectionChange,
+): Promise<number | null> {
+  const rowVersion = await readRowVersion(ctx, change);
+  if (rowVersion !== null) return rowVersion;
+  return (await readTombstone(ctx, change))?.sourceVersion ?? null;
+}
+
+async function readTombstone(ctx: MutationCtx, change: ProjectionChange) {
+  return await ctx.db
+    .query("sync_tombstones")
+    .withIndex("by_entity", (q) =>
+      q.eq("entityType", change.entityType).eq("entityId", changeEntityId(change)),
+    )
+    .unique();
+}
+
+// A delete records (or advances) the entity's tombstone; an upsert that got
+// past the guard re-creates the row, whose own version takes over.
+async function writeTombstone(
+  ctx: MutationCtx,
+  change: ProjectionChange,
+  sourceVersion: number,
+  now: number,
+): Promise<void> {
+  const tombstone = await readTombstone(ctx, change);
+  if (change.operation !== "delete") {
+    if (tombstone) await ctx.db.delete(tombstone._id);
+    return;
+  }
+  if (tombstone) {
+    await ctx.db.patch(tombstone._id, { sourceVersion, deletedAt: now });
+  } else {
+    await ctx.db.insert("sync_tombstones", {
+      entityType: change.entityType,
+      entityId: changeEntityId(change),
+      sourceVersion,
+      deletedAt: now,
+    });
+  }
+}
+
+async function pruneTombstones(ctx: MutationCtx, written: number, now: number): Promise<void> {
+  const expired = await ctx.db
+    .query("sync_tombstones")
+    .withIndex("by_deleted_at", (q) => q.lt("deletedAt", now - TOMBSTONE_RETENTION_MS))
+    .take(SYNC_LOG_PRUNE_BATCH + written);
+  for (const row of expired) await ctx.db.delete(row._id);
+}
+
+async function readRowVersion(
+  ctx: MirrorMutationCtx,
+  change: ProjectionChange,
+): Promise<number | null> {
+  switch (change.entityType) {
+    case "role_permission": {
+      const row = await ctx.db
+        .query("role_permissions")
+        .withIndex("by_role_permission", (q) =>
+          q
+            .eq("generation", ctx.generation)
+            .eq("roleId", change.roleId)
+            .eq("permissionId", change.permissionId),
+        )
+        .unique();
+      return row?.sourceVersion ?? null;
+    }
+    case "group_membership": {
+      const row = await ctx.db
+        .query("group_memberships")
+        .withIndex("by_group_membership", (q) =>
+          q
+            .eq("generation", ctx.generation)
+            .eq("groupId", change.groupId)
+            .eq("membershipId", change.membershipId),
+        )
+        .unique();
+      return row?.sourceVersion ?? null;
+    }
+    default: {
+      const { table, index } = CHANGE_ROWS[change.entityType];
+      const db = ctx.db as any;
+      const row = await db
+        .query(table)
+        .withIndex(index, (q: any) =>
+          q.eq("generation", ctx.generation).eq("id", changeEntityId(change)),
+        )
+        .unique();
+      return row ? (row.sourceVersion as number) : null;
+    }
+  }
+}
+
+// ── app hooks ─────────────────────────────────────────────────────────────────
+// Only the changed entity itself is reported: rows removed by a cascade (a
+// deleted tenant's memberships, a deleted membership's assignments) are not.
+type WatchedRow = { table: MirrorTable; index: string; id: string };
+type HookRecord = Record<string, unknown>;
+
+function watchedRow(change: ProjectionChange, hooks: SyncHooks): WatchedRow | null {
+  switch (change.entityType) {
+    case "tenant":
+      return hooks.onTenantArchived === undefined
+        ? null
+        : { table: "tenants", index: "by_tenant_id", id: change.tenantId };
+    case "membership":
+      return hooks.onMembershipChanged === undefined
+        ? null
+        : { table: "tenant_memberships", index: "by_membership_id", id: change.membershipId };
+    case "user_role_assignment":
+    case "group_role_assignment":
+    case "user_resource_role_assignment":
+    case "group_resource_role_assignment":
+      return hooks.onRoleAssignmentChanged === undefined
+        ? null
+        : {
+            table: `${change.entityType}s`,
+            index: "by_assignment_id",
+            id: changeEntityId(change),
+          };
+    default:
+      return null;
+  }
+}
+
+// The row as the app sees it in the mirror-table reads: no system fields, no
+// sync version or generation.
+async function readWatchedRow(
+  ctx: MirrorMutationCtx,
+  { table, index, id }: WatchedRow,
+): Promise<HookRecord | null> {
+  const db = ctx.db as any;
+  const row = await db
+    .query(table)
+    .withIndex(index, (q: any) => q.eq("generation", ctx.generation).eq("id", id))
+    .unique();
+  if (!row) return null;
+  const { _id, _creationTime, sourceVersion, generation, ...record } = row;
+  return record;
+}
+
+// Scheduled from inside the apply mutation, so a hook runs only once the
+// change has committed.
+async function scheduleHook(
   ctx: MutationCtx,
+  hooks: SyncHooks,
+  event: AccessProjectionEvent,
+  entityType: ProjectionChange["entityType"],
+  before: HookRecord | null,
+  after: HookRecord | null,
+): Promise<void> {
+  if (before === null && after === null) return;
+  const change = { eventId: event.eventId, sourceVersion: event.sourceVersion };
+  if (entityType === "tenant") {
+    if (after?.status !== "archived" || before?.status === "archived") return;
+    await ctx.scheduler.runAfter(0, hooks.onTenantArchived as HookHandle, {
+      ...change,
+      tenant: after,
+    });
+    return;
+  }
+  if (entityType === "membership") {
+    await ctx.scheduler.runAfter(0, hooks.onMembershipChanged as HookHandle, {
+      ...change,
+      before,
+      after,
+    });
+    return;
+  }
+  await ctx.scheduler.runAfter(0, hooks.onRoleAssignmentChanged as HookHandle, {
+    ...change,
+    entityType,
+    before,
+    after,
+  });
+}
+
+async function applyUpsert(
+  ctx: MirrorMutationCtx,
   event: AccessProjectionEvent,
   change: AccessProjectionEvent["changes"][number],
   sourceVersion: number,
@@ -562,11 +1436,15 @@ async function applyUpsert(
       const existing = await ctx.db
         .query("role_permissions")
         .withIndex("by_role_permission", (q) =>
-          q.eq("roleId", row.roleId).eq("permissionId", row.permissionId),
+          q
+            .eq("generation", ctx.generation)
+            .eq("roleId", row.roleId)
+            .eq("permissionId", row.permissionId),
         )
         .unique();
-      if (existing) await ctx.db.replace(existing._id, { ...row, sourceVersion });
-      else await ctx.db.insert("role_permissions", { ...row, sourceVersion });
+      const written = inGeneration({ ...row, sourceVersion }, ctx.generation);
+      if (existing) await ctx.db.replace(existing._id, written);
+      else await ctx.db.insert("role_permissions", written);
       return;
     }
     case "resource_type": {
@@ -604,11 +1482,15 @@ async function applyUpsert(
       const existing = await ctx.db
         .query("group_memberships")
         .withIndex("by_group_membership", (q) =>
-          q.eq("groupId", row.groupId).eq("membershipId", row.membershipId),
+          q
+            .eq("generation", ctx.generation)
+            .eq("groupId", row.groupId)
+            .eq("membershipId", row.membershipId),
         )
         .unique();
-      if (existing) await ctx.db.replace(existing._id, { ...row, sourceVersion });
-      else await ctx.db.insert("group_memberships", { ...row, sourceVersion });
+      const written = inGeneration({ ...row, sourceVersion }, ctx.generation);
+      if (existing) await ctx.db.replace(existing._id, written);
+      else await ctx.db.insert("group_memberships", written);
       return;
     }
     case "user_role_assignment": {
@@ -696,7 +1578,7 @@ async function applyUpsert(
 }
 
 async function applyDelete(
-  ctx: MutationCtx,
+  ctx: MirrorMutationCtx,
   change: AccessProjectionEvent["changes"][number],
 ): Promise<void> {
   switch (change.entityType) {
@@ -760,7 +1642,7 @@ async function applyDelete(
 // Owning-entity self-id lives in the `id` column (index by_<entity>_id on
 // ["id"]), so the mapped row is queried by its own `id`.
 async function upsertByIndex(
-  ctx: MutationCtx,
+  ctx: MirrorMutationCtx,
   table: MirrorTable,
   index: string,
   row: { id: string } & Record<string, unknown>,
@@ -768,14 +1650,14 @@ async function upsertByIndex(
   const db = ctx.db as any;
   const existing = await db
     .query(table)
-    .withIndex(index, (q: any) => q.eq("id", row.id))
+    .withIndex(index, (q: any) => q.eq("generation", ctx.generation).eq("id", row.id))
     .unique();
-  if (existing) await db.replace(existing._id, row);
-  else await db.insert(table, row);
+  if (existing) await db.replace(existing._id, inGeneration(row, ctx.generation));
+  else await db.insert(table, inGeneration(row, ctx.generation));
 }
 
 async function deleteByIndex(
-  ctx: MutationCtx,
+  ctx: MirrorMutationCtx,
   table: MirrorTable,
   index: string,
   field: string,
@@ -784,7 +1666,7 @@ async function deleteByIndex(
   const db = ctx.db as any;
   const existing = await db
     .query(table)
-    .withIndex(index, (q: any) => q.eq(field, value))
+    .withIndex(index, (q: any) => q.eq("generation", ctx.generation).eq(field, value))
     .unique();
   if (existing) await db.delete(existing._id);
 }
@@ -793,7 +1675,7 @@ async function deleteByIndex(
 // Assignment tables are split by subject, so the target table is chosen 1:1 by
 // the change entityType; the mapped row already carries the self-id as `id`.
 async function upsertAssignment(
-  ctx: MutationCtx,
+  ctx: MirrorMutationCtx,
   table: MirrorTable,
   kind: "role" | "resource",
   subject: AssignmentSubject,
@@ -807,14 +1689,14 @@ async function upsertAssignment(
   const db = ctx.db as any;
   const existing = await db
     .query(table)
-    .withIndex("by_assignment_id", (q: any) => q.eq("id", id))
+    .withIndex("by_assignment_id", (q: any) => q.eq("generation", ctx.generation).eq("id", id))
     .unique();
   if (expiresAt !== undefined && expiresAt <= now) {
     if (existing) await db.delete(existing._id);
     return;
   }
-  if (existing) await db.replace(existing._id, row);
-  else await db.insert(table, row);
+  if (existing) await db.replace(existing._id, inGeneration(row, ctx.generation));
+  else await db.insert(table, inGeneration(row, ctx.generation));
   if (kind === "role") {
     await scheduleRoleAssignmentExpiry(ctx, subject, id, expiresAt, updatedAt, sourceVersion);
   } else {
@@ -838,6 +1720,7 @@ async function scheduleRoleAssignmentExpiry(
   sourceVersion: number,
 ): Promise<void> {
   if (expiresAt === undefined) return;
+  await countPendingExpiries(ctx, 1);
   await ctx.scheduler.runAt(expiresAt, expireRoleAssignmentReference, {
     id,
     subject,
@@ -856,6 +1739,7 @@ async function scheduleResourceRoleAssignmentExpiry(
   sourceVersion: number,
 ): Promise<void> {
   if (expiresAt === undefined) return;
+  await countPendingExpiries(ctx, 1);
   await ctx.scheduler.runAt(expiresAt, expireResourceRoleAssignmentReference, {
     id,
     subject,
@@ -865,26 +1749,39 @@ async function scheduleResourceRoleAssignmentExpiry(
   });
 }
 
+// Keeps the pending_expiries count in step with the jobs: +1 as one is
+// scheduled, -1 as one runs without rescheduling itself. Jobs scheduled before
+// the count existed are not on it, so it never goes below zero.
+async function countPendingExpiries(ctx: MutationCtx, delta: number): Promise<void> {
+  const counter = await ctx.db.query("pending_expiries").unique();
+  const count = Math.max(0, (counter?.count ?? 0) + delta);
+  if (counter) {
+    await ctx.db.patch(counter._id, { count });
+  } else {
+    await ctx.db.insert("pending_expiries", { count });
+  }
+}
+
 // ── cascade deletes ───────────────────────────────────────────────────────────
 // Only cascades backed by an index that EXISTS in the schema are performed here.
 // Child rows with no supporting index (role_permissions by permissionId,
 // resource-role assignments by roleId/resourceTypeId) are deleted by the control
 // plane emitting their own delete changes BEFORE the parent delete.
-async function deleteTenant(ctx: MutationCtx, tenantId: string): Promise<void> {
+async function deleteTenant(ctx: MirrorMutationCtx, tenantId: string): Promise<void> {
   const memberships = await ctx.db
     .query("tenant_memberships")
-    .withIndex("by_tenant", (q) => q.eq("tenantId", tenantId))
+    .withIndex("by_tenant", (q) => q.eq("generation", ctx.generation).eq("tenantId", tenantId))
     .collect();
   for (const membership of memberships) await deleteMembership(ctx, membership.id);
   const groups = await ctx.db
     .query("groups")
-    .withIndex("by_tenant", (q) => q.eq("tenantId", tenantId))
+    .withIndex("by_tenant", (q) => q.eq("generation", ctx.generation).eq("tenantId", tenantId))
     .collect();
   for (const group of groups) await deleteGroup(ctx, group.id);
   await deleteByIndex(ctx, "tenants", "by_tenant_id", "id", tenantId);
 }
 
-async function deleteRole(ctx: MutationCtx, roleId: string): Promise<void> {
+async function deleteRole(ctx: MirrorMutationCtx, roleId: string): Promise<void> {
   await deleteAllByIndex(ctx, "role_permissions", "by_role", (q) => q.eq("roleId", roleId));
   await deleteAllByIndex(ctx, "user_role_assignments", "by_role_id", (q) => q.eq("roleId", roleId));
   await deleteAllByIndex(ctx, "group_role_assignments", "by_role_id", (q) =>
@@ -893,15 +1790,16 @@ async function deleteRole(ctx: MutationCtx, roleId: string): Promise<void> {
   await deleteByIndex(ctx, "roles", "by_role_id", "id", roleId);
 }
 
-async function deletePermission(ctx: MutationCtx, permissionId: string): Promise<void> {
+async function deletePermission(ctx: MirrorMutationCtx, permissionId: string): Promise<void> {
+  await dropPermissionGrants(ctx, permissionId);
   await deleteByIndex(ctx, "permissions", "by_permission_id", "id", permissionId);
 }
 
-async function deleteResourceType(ctx: MutationCtx, resourceTypeId: string): Promise<void> {
+async function deleteResourceType(ctx: MirrorMutationCtx, resourceTypeId: string): Promise<void> {
   await deleteByIndex(ctx, "resource_types", "by_resource_type_id", "id", resourceTypeId);
 }
 
-async function deleteMembership(ctx: MutationCtx, membershipId: string): Promise<void> {
+async function deleteMembership(ctx: MirrorMutationCtx, membershipId: string): Promise<void> {
   await deleteAllByIndex(ctx, "group_memberships", "by_membership", (q) =>
     q.eq("membershipId", membershipId),
   );
@@ -914,7 +1812,7 @@ async function deleteMembership(ctx: MutationCtx, membershipId: string): Promise
   await deleteByIndex(ctx, "tenant_memberships", "by_membership_id", "id", membershipId);
 }
 
-async function deleteGroup(ctx: MutationCtx, groupId: string): Promise<void> {
+async function deleteGroup(ctx: MirrorMutationCtx, groupId: string): Promise<void> {
   await deleteAllByIndex(ctx, "group_memberships", "by_group", (q) => q.eq("groupId", groupId));
   await deleteAllByIndex(ctx, "group_role_assignments", "by_group", (q) =>
     q.eq("groupId", groupId),
@@ -926,50 +1824,63 @@ async function deleteGroup(ctx: MutationCtx, groupId: string): Promise<void> {
 }
 
 async function deleteGroupMembership(
-  ctx: MutationCtx,
+  ctx: MirrorMutationCtx,
   groupId: string,
   membershipId: string,
 ): Promise<void> {
   const existing = await ctx.db
     .query("group_memberships")
     .withIndex("by_group_membership", (q) =>
-      q.eq("groupId", groupId).eq("membershipId", membershipId),
+      q.eq("generation", ctx.generation).eq("groupId", groupId).eq("membershipId", membershipId),
     )
     .unique();
   if (existing) await ctx.db.delete(existing._id);
 }
 
 async function deleteRolePermission(
-  ctx: MutationCtx,
+  ctx: MirrorMutationCtx,
   roleId: string,
   permissionId: string,
 ): Promise<void> {
   const existing = await ctx.db
     .query("role_permissions")
-    .withIndex("by_role_permission", (q) => q.eq("roleId", roleId).eq("permissionId", permissionId))
+    .withIndex("by_role_permission", (q) =>
+      q.eq("generation", ctx.generation).eq("roleId", roleId).eq("permissionId", permissionId),
+    )
     .unique();
   if (existing) await ctx.db.delete(existing._id);
 }
 
 async function deleteAllByIndex(
-  ctx: MutationCtx,
+  ctx: MirrorMutationCtx,
   table: MirrorTable,
   index: string,
   range: (q: any) => any,
 ): Promise<void> {
   const db = ctx.db as any;
-  for (const row of await db.query(table).withIndex(index, range).collect()) {
-    await db.delete(row._id);
-  }
+  const rows = await db
+    .query(table)
+    .withIndex(index, (q: any) => range(q.eq("generation", ctx.generation)))
+    .collect();
+  for (const row of rows) await db.delete(row._id);
 }
 
-async function clearTable(ctx: MutationCtx, table: MirrorTable): Promise<void> {
-  for (const row of await ctx.db.query(table).collect()) {
-    await ctx.db.delete(row._id);
-  }
+async function clearTable(ctx: MirrorMutationCtx, table: MirrorTable): Promise<void> {
+  const db = ctx.db as any;
+  const rows = await db
+    .query(table)
+    .withIndex("by_generation", (q: any) => q.eq("generation", ctx.generation))
+    .collect();
+  for (const row of rows) await db.delete(row._id);
 }
 
-function snapshotDocumentCount(snapshot: AccessProjectionSnapshot): number {
+// A mirror row as written into `generation`. Rows of the generation-less mirror
+// carry no field at all, matching the index ranges that read them.
+function inGeneration<Row extends object>(row: Row, generation: Generation) {
+  return generation === undefined ? row : { ...row, generation };
+}
+
+function snapshotDocumentCount(snapshot: ProjectionRows): number {
   return (
     snapshot.tenants.length +
     snapshot.roles.length +
@@ -987,6 +1898,58 @@ function snapshotDocumentCount(snapshot: AccessProjectionSnapshot): number {
   );
 }
 
+// ── sync log ──────────────────────────────────────────────────────────────────
+function syncLogRetentionMs(): number {
+  const raw = process.env[SYNC_LOG_RETENTION_ENV_VAR];
+  const days = raw === undefined || raw.trim() === "" ? NaN : Number(raw);
+  return (Number.isFinite(days) && days >= 0 ? days : DEFAULT_SYNC_LOG_RETENTION_DAYS) * DAY_MS;
+}
+
+// Append `entries` stamped at `now`, then prune what has aged out. With
+// retention 0 nothing is appended and the existing log drains.
+async function recordSyncLog(ctx: MutationCtx, entries: SyncLogEntry[], now: number) {
+  const retentionMs = syncLogRetentionMs();
+  if (retentionMs > 0) {
+    for (const entry of entries) await ctx.db.insert("sync_log", { ...entry, appliedAt: now });
+  }
+  const expired = await ctx.db
+    .query("sync_log")
+    .withIndex("by_applied_at", (q) => q.lt("appliedAt", now - retentionMs))
+    .take(SYNC_LOG_PRUNE_BATCH + entries.length);
+  for (const row of expired) await ctx.db.delete(row._id);
+}
+
+function expiryLogEntry(
+  entityType: SyncLogEntry["entityType"],
+  args: { id: string; sourceVersion: number },
+): SyncLogEntry {
+  return { sourceVersion: args.sourceVersion, entityType, operation: "expire", entityId: args.id };
+}
+
+// The assignment a scheduled expiry targets: in the live generation, or else in
+// the one a committed snapshot is installing, whose rows schedule their
+// expiries before the flip.
+async function loadExpiringAssignment(
+  ctx: MutationCtx,
+  table: MirrorTable,
+  id: string,
+): Promise<{ mirror: MirrorMutationCtx; row: any; live: boolean }> {
+  const generation = await loadGeneration(ctx);
+  const staging = await ctx.db.query("snapshot_staging").unique();
+  const generations =
+    staging?.commitEventId === undefined ? [generation] : [generation, staging.generation];
+  for (const candidate of generations) {
+    const row = await (ctx.db as any)
+      .query(table)
+      .withIndex("by_assignment_id", (q: any) => q.eq("generation", candidate).eq("id", id))
+      .unique();
+    if (row) {
+      return { mirror: atGeneration(ctx, candidate), row, live: candidate === generation };
+    }
+  }
+  return { mirror: atGeneration(ctx, generation), row: null, live: true };
+}
+
 export const expireRoleAssignment = internalMutation({
   args: {
     id: v.string(),
@@ -997,24 +1960,33 @@ export const expireRoleAssignment = internalMutation({
   },
   handler: async (ctx, args) => {
     const table = args.subject === "user" ? "user_role_assignments" : "group_role_assignments";
-    const db = ctx.db as any;
-    const row = await db
-      .query(table)
-      .withIndex("by_assignment_id", (q: any) => q.eq("id", args.id))
-      .unique();
+    const { mirror, row, live } = await loadExpiringAssignment(ctx, table, args.id);
     if (
       !row ||
       row.expiresAt !== args.expiresAt ||
       row.updatedAt !== args.updatedAt ||
       row.sourceVersion !== args.sourceVersion
     ) {
+      await countPendingExpiries(ctx, -1);
       return;
     }
     if (args.expiresAt > Date.now()) {
       await ctx.scheduler.runAt(args.expiresAt, expireRoleAssignmentReference, args);
       return;
     }
-    await db.delete(row._id);
+    await countPendingExpiries(ctx, -1);
+    await ctx.db.delete(row._id);
+    // An installing generation has no grants yet; its flip rebuilds them.
+    if (live) {
+      await refreshEffectiveGrants(
+        mirror,
+        args.subject === "user"
+          ? [row.membershipId]
+          : await membershipsInGroup(mirror, row.groupId),
+        Date.now(),
+      );
+    }
+    await recordSyncLog(ctx, [expiryLogEntry(`${args.subject}_role_assignment`, args)], Date.now());
   },
 });
 
@@ -1031,23 +2003,74 @@ export const expireResourceRoleAssignment = internalMutation({
       args.subject === "user"
         ? "user_resource_role_assignments"
         : "group_resource_role_assignments";
-    const db = ctx.db as any;
-    const row = await db
-      .query(table)
-      .withIndex("by_assignment_id", (q: any) => q.eq("id", args.id))
-      .unique();
+    const { row } = await loadExpiringAssignment(ctx, table, args.id);
     if (
       !row ||
       row.expiresAt !== args.expiresAt ||
       row.updatedAt !== args.updatedAt ||
       row.sourceVersion !== args.sourceVersion
     ) {
+      await countPendingExpiries(ctx, -1);
       return;
     }
     if (args.expiresAt > Date.now()) {
       await ctx.scheduler.runAt(args.expiresAt, expireResourceRoleAssignmentReference, args);
       return;
     }
-    await db.delete(row._id);
+    await countPendingExpiries(ctx, -1);
+    await ctx.db.delete(row._id);
+    await recordSyncLog(
+      ctx,
+      [expiryLogEntry(`${args.subject}_resource_role_assignment`, args)],
+      Date.now(),
+    );
+  },
+});
+
+// Scheduled continuation of a committed multi-part snapshot install. Internal:
+// only the commit (and itself) schedule it.
+export const installSnapshot = internalMutation({
+  args: { snapshotId: v.string() },
+  handler: async (ctx, args) => {
+    const staging = await ctx.db.query("snapshot_staging").unique();
+    if (staging?.snapshotId !== args.snapshotId || staging.commitEventId === undefined) return;
+    await continueSnapshotInstall(ctx, staging);
+  },
+});
+
+// Deletes the staged rows of a superseded multi-part snapshot in batches.
+export const discardSnapshotRows = internalMutation({
+  args: { snapshotId: v.string() },
+  handler: async (ctx, args) => {
+    const rows = await ctx.db
+      .query("snapshot_rows")
+      .withIndex("by_snapshot", (q) => q.eq("snapshotId", args.snapshotId))
+      .take(SNAPSHOT_BATCH);
+    for (const row of rows) await ctx.db.delete(row._id);
+    if (rows.length === SNAPSHOT_BATCH) {
+      await ctx.scheduler.runAfter(0, discardSnapshotRowsReference, args);
+    }
+  },
+});
+
+// Deletes the rows of mirror generations older than `generation` once it is
+// live, in batches. A later flip supersedes the sweep; its own covers them.
+export const sweepMirrorGenerations = internalMutation({
+  args: { generation: v.number() },
+  handler: async (ctx, args) => {
+    if ((await loadGeneration(ctx)) !== args.generation) return;
+    let budget = SNAPSHOT_BATCH;
+    for (const table of MIRROR_TABLES) {
+      const rows = await (ctx.db as any)
+        .query(table)
+        .withIndex("by_generation", (q: any) => q.lt("generation", args.generation))
+        .take(budget);
+      for (const row of rows) await ctx.db.delete(row._id);
+      budget -= rows.length;
+      if (budget === 0) {
+        await ctx.scheduler.runAfter(0, sweepMirrorGenerationsReference, args);
+        return;
+      }
+    }
   },
 });
@@ -0,0 +1,3 @@
+export * from "./permissions.js";
+export type { PermissionRequirement } from "../shared/permission-requirement.js";
+export type { PermissionCheck, ResourceRef } from "../client/index.js";
@@ -0,0 +1,129 @@
+// @vitest-environment jsdom
+import { render, renderHook, screen } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  Can,
+  HerculesAccessProvider,
+  usePermission,
+  usePermissions,
+  type CheckPermissionsQuery,
+} from "./permissions.js";
+
+const useQueryMock = vi.fn();
+
+vi.mock("convex/react", () => ({
+  useQuery: (...args: unknown[]) => useQueryMock(...args),
+}));
+
+const checkPermissionsRef = { ref: "iam:checkPermissions" } as unknown as CheckPermissionsQuery;
+
+function wrapper({ children }: { children: ReactNode }) {
+  return (
+    <HerculesAccessProvider checkPermissions={checkPermissionsRef}>
+      {children}
+    </HerculesAccessProvider>
+  );
+}
+
+describe("usePermissions", () => {
+  beforeEach(() => {
+    useQueryMock.mockReset();
+  });
+
+  it("subscribes once with the compacted checks", () => {
+    useQueryMock.mockReturnValue([true, false]);
+    const { result } = renderHook(
+      () =>
+        usePermissions([
+          { permission: "app.project:edit", tenant: undefined },
+          { permission: "app.project:delete", resource: { type: "app.project", externalId: "p1" } },
+        ]),
+      { wrapper },
+    );
+    expect(result.current).toEqual([true, false]);
+    expect(useQueryMock).toHaveBeenCalledWith(checkPermissionsRef, {
+      checks: [
+        { permission: "app.project:edit" },
+        { permission: "app.project:delete", resource: { type: "app.project", externalId: "p1" } },
+      ],
+    });
+  });
+
+  it("skips the subscription for an empty check list", () => {
+    const { result } = renderHook(() => usePermissions([]), { wrapper });
+    expect(result.current).toEqual([]);
+    expect(useQueryMock).toHaveBeenCalledWith(checkPermissionsRef, "skip");
+  });
+
+  it("throws outside <HerculesAccessProvider>", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(() => renderHook(() => usePermissions([{ permission: "a" }]))).toThrow(
+      "HerculesAccessProvider",
+    );
+  });
+});
+
+describe("usePermission", () => {
+  beforeEach(() => {
+    useQueryMock.mockReset();
+  });
+
+  it("combines anyOf with OR and allOf with AND", () => {
+    useQueryMock.mockReturnValue([false, true]);
+    const anyOf = renderHook(() => usePermission({ anyOf: ["a", "b"] }), { wrapper });
+    const allOf = renderHook(() => usePermission(["a", "b"], { tenant: "t1" }), { wrapper });
+    expect(anyOf.result.current).toBe(true);
+    expect(allOf.result.current).toBe(false);
+    expect(useQueryMock).toHaveBeenLastCalledWith(checkPermissionsRef, {
+      checks: [
+        { permission: "a", tenant: "t1" },
+        { permission: "b", tenant: "t1" },
+      ],
+    });
+  });
+
+  it("is undefined while loading and false for an empty set", () => {
+    useQueryMock.mockReturnValue(undefined);
+    expect(renderHook(() => usePermission("a"), { wrapper }).result.current).toBeUndefined();
+    expect(renderHook(() => usePermission([]), { wrapper }).result.current).toBe(false);
+  });
+});
+
+describe("<Can>", () => {
+  beforeEach(() => {
+    useQueryMock.mockReset();
+  });
+
+  it("renders children when allowed", () => {
+    useQueryMock.mockReturnValue([true]);
+    render(
+      <Can permission="app.project:edit" fallback="denied">
+        edit
+      </Can>,
+      { wrapper },
+    );
+    expect(screen.getByText("edit")).toBeTruthy();
+  });
+
+  it("renders the fallback when denied and while loading", () => {
+    useQueryMock.mockReturnValue([false]);
+    const denied = render(
+      <Can permission="app.project:edit" fallback="denied">
+        edit
+      </Can>,
+      { wrapper },
+    );
+    expect(denied.container.textContent).toBe("denied");
+    denied.unmount();
+
+    useQueryMock.mockReturnValue(undefined);
+    const loading = render(
+      <Can permission="app.project:edit" fallback="denied" loading="…">
+        edit
+      </Can>,
+      { wrapper },
+    );
+    expect(loading.container.textContent).toBe("…");
+  });
+});
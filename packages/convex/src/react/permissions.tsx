@@ -0,0 +1,114 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import type { FunctionReference } from "convex/server";
+import { createContext, useContext, type ReactNode } from "react";
+import type { PermissionCheck, ResourceRef } from "../client/index.js";
+import { requirementKeys, type PermissionRequirement } from "../shared/permission-requirement.js";
+
+// The app's re-export of `access.checkPermissionsQuery` (e.g.
+// `api.iam.checkPermissions`). The query binds the caller's identity
+// server-side, so the browser only ever asks about itself.
+export type CheckPermissionsQuery = FunctionReference<
+  "query",
+  "public",
+  { checks: PermissionCheck[] },
+  boolean[]
+>;
+
+const CheckPermissionsContext = createContext<CheckPermissionsQuery | null>(null);
+
+export function HerculesAccessProvider({
+  checkPermissions,
+  children,
+}: {
+  checkPermissions: CheckPermissionsQuery;
+  children: ReactNode;
+}) {
+  return (
+    <CheckPermissionsContext.Provider value={checkPermissions}>
+      {children}
+    </CheckPermissionsContext.Provider>
+  );
+}
+
+function useCheckPermissionsQuery(): CheckPermissionsQuery {
+  const query = useContext(CheckPermissionsContext);
+  if (!query) {
+    throw new Error("Permission hooks must be used inside <HerculesAccessProvider>.");
+  }
+  return query;
+}
+
+// Drop undefined fields: they are not valid Convex argument values.
+function toArgsCheck(check: PermissionCheck): PermissionCheck {
+  return {
+    permission: check.permission,
+    ...(check.tenant === undefined ? {} : { tenant: check.tenant }),
+    ...(check.resource === undefined ? {} : { resource: check.resource }),
+  };
+}
+
+/**
+ * Batched, reactive permission checks for the signed-in user. Results align
+ * with `checks` by index and update as the IAM mirror syncs; `undefined` while
+ * loading. UI gating only: keep enforcing in the Convex functions.
+ */
+export function usePermissions(checks: ReadonlyArray<PermissionCheck>): boolean[] | undefined {
+  const query = useCheckPermissionsQuery();
+  const result = useQuery(
+    query,
+    checks.length === 0 ? "skip" : { checks: checks.map(toArgsCheck) },
+  );
+  return checks.length === 0 ? [] : result;
+}
+
+/**
+ * Whether the signed-in user meets `requirement` (a key, an allOf array, or an
+ * `{ anyOf }` / `{ allOf }` set), optionally in `tenant` and on `resource`.
+ * `undefined` while loading; an empty set is `false`, as on the server.
+ */
+export function usePermission(
+  requirement: PermissionRequirement,
+  options: { tenant?: string; resource?: ResourceRef } = {},
+): boolean | undefined {
+  const { mode, keys } = requirementKeys(requirement);
+  const results = usePermissions(
+    keys.map((permission) => ({
+      permission,
+      ...(options.tenant === undefined ? {} : { tenant: options.tenant }),
+      ...(options.resource === undefined ? {} : { resource: options.resource }),
+    })),
+  );
+  if (keys.length === 0) return false;
+  if (results === undefined) return undefined;
+  return mode === "anyOf" ? results.some(Boolean) : results.every(Boolean);
+}
+
+/**
+ * Renders `children` when the signed-in user meets `permission`, `fallback`
+ * otherwise. `loading` (default: `fallback`) renders while the check is
+ * in flight, so gated UI never flashes in before it is authorized.
+ */
+export function Can({
+  permission,
+  tenant,
+  resource,
+  fallback = null,
+  loading,
+  children,
+}: {
+  permission: PermissionRequirement;
+  tenant?: string;
+  resource?: ResourceRef;
+  fallback?: ReactNode;
+  loading?: ReactNode;
+  children: ReactNode;
+}) {
+  const allowed = usePermission(permission, {
+    ...(tenant === undefined ? {} : { tenant }),
+    ...(resource === undefined ? {} : { resource }),
+  });
+  if (allowed === undefined) return <>{loading === undefined ? fallback : loading}</>;
+  return <>{allowed ? children : fallback}</>;
+}
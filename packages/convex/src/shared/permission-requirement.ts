@@ -0,0 +1,31 @@
+// Permission-requirement shapes, shared by the server-side guards
+// (client/index.ts) and the React hooks (react/), which must not pull in the
+// server client.
+
+// A permission requirement is either a single permission key, a bare array
+// (treated as `allOf`), or a set combined with explicit AND/OR semantics:
+//   • `"app.x:read"`            - hold this one permission.
+//   • `["a", "b"]`              - hold EVERY ONE (AND), shorthand for allOf.
+//   • `{ anyOf: ["a", "b"] }`   - hold AT LEAST ONE (OR).
+//   • `{ allOf: ["a", "b"] }`   - hold EVERY ONE (AND).
+// An empty array / `anyOf` / `allOf` is rejected as a misconfiguration (denied).
+// `Key` narrows the accepted keys (an app's generated PermissionKey union).
+export type PermissionRequirement<Key extends string = string> =
+  | Key
+  | Key[]
+  | { anyOf: Key[]; allOf?: never }
+  | { allOf: Key[]; anyOf?: never };
+
+// Splits a PermissionRequirement into its mode and the keys to check. A bare
+// string is a single AND of one key; a bare array is an allOf.
+export function requirementKeys(requirement: PermissionRequirement): {
+  mode: "anyOf" | "allOf";
+  keys: string[];
+} {
+  if (typeof requirement === "string") return { mode: "allOf", keys: [requirement] };
+  if (Array.isArray(requirement)) return { mode: "allOf", keys: requirement };
+  if ("anyOf" in requirement && requirement.anyOf !== undefined) {
+    return { mode: "anyOf", keys: requirement.anyOf };
+  }
+  return { mode: "allOf", keys: requirement.allOf };
+}
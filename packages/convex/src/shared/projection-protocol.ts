@@ -7,7 +7,9 @@
 // block, no wildcards, no effects, and no permission bindings. Every entity is a
 // row in one of thirteen top-level arrays. Two payload kinds:
 //   • snapshot - bootstrap ("initialize") or destructive rebuild ("reset"). ONE
-//     aggregate, applied atomically.
+//     aggregate, applied atomically. An aggregate too large for one delivery
+//     ships multi-part instead: snapshot.begin → snapshot.part × N →
+//     snapshot.commit, keyed by a snapshotId.
 //   • event - normal delivery. A stored, complete, valid delta at an exact
 //     sourceVersion. Each `upsert` change ships exactly one row in its entity
 //     array; each `delete` change ships none.
@@ -359,44 +361,156 @@ export const accessProjectionEventSchema = z
   });
 export type AccessProjectionEvent = z.infer<typeof accessProjectionEventSchema>;
 
+// ── multi-part snapshot ──────────────────────────────────────────────────────
+// `begin` carries the snapshot header and the number of parts to expect. Each
+// `part` carries an arbitrary slice of the entity arrays; parts may arrive in
+// any order and re-delivery of a part is idempotent. `commit` closes the set:
+// the consumer installs the staged aggregate only then, so the single-primary-
+// tenant rule is enforced across all parts at commit rather than per part.
+export const accessProjectionSnapshotBeginSchema = z.strictObject({
+  type: z.literal("access.projection.snapshot.begin"),
+  schemaVersion: z.literal(5),
+  eventId: z.string().min(1),
+  snapshotId: z.string().min(1),
+  mode: z.enum(["initialize", "reset"]),
+  sourceVersion: z.number().int().nonnegative(),
+  expectedIssuer: z.string().min(1),
+  partCount: z.number().int().positive(),
+});
+export type AccessProjectionSnapshotBegin = z.infer<typeof accessProjectionSnapshotBeginSchema>;
+
+export const accessProjectionSnapshotPartSchema = z.strictObject({
+  type: z.literal("access.projection.snapshot.part"),
+  schemaVersion: z.literal(5),
+  eventId: z.string().min(1),
+  snapshotId: z.string().min(1),
+  partIndex: z.number().int().nonnegative(),
+  ...entityArrays,
+});
+export type AccessProjectionSnapshotPart = z.infer<typeof accessProjectionSnapshotPartSchema>;
+
+export const accessProjectionSnapshotCommitSchema = z.strictObject({
+  type: z.literal("access.projection.snapshot.commit"),
+  schemaVersion: z.literal(5),
+  eventId: z.string().min(1),
+  snapshotId: z.string().min(1),
+});
+export type AccessProjectionSnapshotCommit = z.infer<typeof accessProjectionSnapshotCommitSchema>;
+
 export const accessProjectionSyncPayloadSchema = z.union([
   accessProjectionSnapshotSchema,
   accessProjectionEventSchema,
+  accessProjectionSnapshotBeginSchema,
+  accessProjectionSnapshotPartSchema,
+  accessProjectionSnapshotCommitSchema,
 ]);
 export type AccessProjectionSyncPayload = z.infer<typeof accessProjectionSyncPayloadSchema>;
 
+// ── version negotiation ───────────────────────────────────────────────────────
+// The schemas above are v5. A payload from an older producer is upcast one
+// version at a time (PROJECTION_UPCASTERS, keyed by the version each upgrades
+// FROM) and then parsed as v5. A version outside the supported range - older
+// than the oldest adapter, or newer than v5 - is answered with the range, so a
+// newer producer can fall back to a version this consumer speaks.
+export const PROJECTION_SCHEMA_VERSION = 5;
+export type ProjectionSchemaVersionRange = { min: number; max: number };
+export const SUPPORTED_PROJECTION_SCHEMA_VERSIONS: ProjectionSchemaVersionRange = {
+  min: 4,
+  max: PROJECTION_SCHEMA_VERSION,
+};
+
+type RawPayload = Record<string, unknown>;
+
+const PROJECTION_UPCASTERS: Record<number, (payload: RawPayload) => RawPayload> = {
+  // v4 named the archived lifecycle state `disabled` and the tenant access mode
+  // `accountEntryMode`.
+  4: (payload) => ({
+    ...payload,
+    ...mapRawRows(payload, "tenants", ({ accountEntryMode, ...tenant }) => ({
+      ...tenant,
+      ...(accountEntryMode === undefined ? {} : { accessMode: accountEntryMode }),
+      status: tenant.status === "disabled" ? "archived" : tenant.status,
+    })),
+    ...mapRawRows(payload, "groups", (group) => ({
+      ...group,
+      status: group.status === "disabled" ? "archived" : group.status,
+    })),
+    schemaVersion: 5,
+  }),
+};
+
+function mapRawRows(
+  payload: RawPayload,
+  key: string,
+  map: (row: RawPayload) => RawPayload,
+): RawPayload {
+  const rows = payload[key];
+  if (!Array.isArray(rows)) return {};
+  return {
+    [key]: rows.map((row: unknown) =>
+      typeof row === "object" && row !== null ? map(row as RawPayload) : row,
+    ),
+  };
+}
+
+// Brings a raw payload up to PROJECTION_SCHEMA_VERSION. Only the version is
+// judged here; a payload that is not an object or has no numeric
+// schemaVersion passes through untouched for the v5 parse to reject.
+export function upcastProjectionPayload(
+  payload: unknown,
+): { supported: true; payload: unknown } | { supported: false } {
+  if (typeof payload !== "object" || payload === null) return { supported: true, payload };
+  let current = payload as RawPayload;
+  if (typeof current.schemaVersion !== "number") return { supported: true, payload };
+  const { min, max } = SUPPORTED_PROJECTION_SCHEMA_VERSIONS;
+  const version = current.schemaVersion;
+  if (!Number.isInteger(version) || version < min || version > max) return { supported: false };
+  while ((current.schemaVersion as number) < max) {
+    const upcast = PROJECTION_UPCASTERS[current.schemaVersion as number];
+    if (!upcast) return { supported: false };
+    current = upcast(current);
+  }
+  return { supported: true, payload: current };
+}
+
 // ── integrity helpers ─────────────────────────────────────────────────────────
-function changeKey(change: ProjectionChange): string {
+// The control-plane identity of a change's entity; junction rows join their FK
+// pair with "/". Also the `entityId` the component's sync log records.
+export function changeEntityId(change: ProjectionChange): string {
   switch (change.entityType) {
     case "tenant":
-      return `tenant:${change.tenantId}`;
+      return change.tenantId;
     case "role":
-      return `role:${change.roleId}`;
+      return change.roleId;
     case "permission":
-      return `permission:${change.permissionId}`;
+      return change.permissionId;
     case "role_permission":
-      return `role_permission:${change.roleId}/${change.permissionId}`;
+      return `${change.roleId}/${change.permissionId}`;
     case "resource_type":
-      return `resource_type:${change.resourceTypeId}`;
+      return change.resourceTypeId;
     case "membership":
-      return `membership:${change.membershipId}`;
+      return change.membershipId;
     case "group":
-      return `group:${change.groupId}`;
+      return change.groupId;
     case "group_membership":
-      return `group_membership:${change.groupId}/${change.membershipId}`;
+      return `${change.groupId}/${change.membershipId}`;
     case "user_role_assignment":
-      return `user_role_assignment:${change.userRoleAssignmentId}`;
+      return change.userRoleAssignmentId;
     case "group_role_assignment":
-      return `group_role_assignment:${change.groupRoleAssignmentId}`;
+      return change.groupRoleAssignmentId;
     case "user_resource_role_assignment":
-      return `user_resource_role_assignment:${change.userResourceRoleAssignmentId}`;
+      return change.userResourceRoleAssignmentId;
     case "group_resource_role_assignment":
-      return `group_resource_role_assignment:${change.groupResourceRoleAssignmentId}`;
+      return change.groupResourceRoleAssignmentId;
     case "user":
-      return `user:${change.userId}`;
+      return change.userId;
   }
 }
 
+function changeKey(change: ProjectionChange): string {
+  return `${change.entityType}:${changeEntityId(change)}`;
+}
+
 function countEventRows(event: AccessProjectionEvent, change: ProjectionChange): number {
   switch (change.entityType) {
     case "tenant":
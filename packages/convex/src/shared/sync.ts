@@ -8,6 +8,12 @@
 //   • SyncResponse - the mutation's response contract (mapped to HTTP statuses
 //     by client/http.ts and consumed by the producer's reconciler).
 
+import type {
+  ProjectionChangeOperation,
+  ProjectionEntityType,
+  ProjectionSchemaVersionRange,
+} from "./projection-protocol.js";
+
 export const IAM_SYNC_PATH = "/_hercules/iam/sync";
 
 // ── v5 wire schema + types (re-exported from the protocol mirror) ────────────
@@ -15,6 +21,9 @@ export {
   accessProjectionSyncPayloadSchema,
   accessProjectionSnapshotSchema,
   accessProjectionEventSchema,
+  accessProjectionSnapshotBeginSchema,
+  accessProjectionSnapshotPartSchema,
+  accessProjectionSnapshotCommitSchema,
   accessProjectionTenantStatusSchema,
   accessProjectionGroupStatusSchema,
   accessProjectionAccessModeSchema,
@@ -33,12 +42,19 @@ export {
   projectionGroupResourceRoleAssignmentSchema,
   projectionUserSchema,
   projectionChangeSchema,
+  changeEntityId,
+  upcastProjectionPayload,
+  PROJECTION_SCHEMA_VERSION,
+  SUPPORTED_PROJECTION_SCHEMA_VERSIONS,
 } from "./projection-protocol.js";
 
 export type {
   AccessProjectionSyncPayload,
   AccessProjectionSnapshot,
   AccessProjectionEvent,
+  AccessProjectionSnapshotBegin,
+  AccessProjectionSnapshotPart,
+  AccessProjectionSnapshotCommit,
   AccessProjectionTenantStatus,
   AccessProjectionGroupStatus,
   AccessProjectionAccessMode,
@@ -59,6 +75,7 @@ export type {
   ProjectionChange,
   ProjectionChangeOperation,
   ProjectionEntityType,
+  ProjectionSchemaVersionRange,
 } from "./projection-protocol.js";
 
 // ── sync response contract ───────────────────────────────────────────────────
@@ -66,10 +83,28 @@ export type {
 // signature and applying the internal mirror mutation); client/http.ts maps
 // them to HTTP statuses (200 applied/duplicate, 401 bad signature, 409
 // recoverable state conflicts, 400 payload-shape problems). `unsupported_schema`
-// is returned when a payload arrives at a schemaVersion this consumer does not
-// implement.
+// is returned when a payload arrives at a schemaVersion this consumer cannot
+// upcast to v5; it carries the supported range so the producer can fall back.
+//
+// `replayed` rejects an authentic delivery that is either older than the
+// component's replay window or an event already applied before the latest one.
+//
+// An `applied` event lists any `skippedWrites`: changes older than the mirror
+// row they target (the row's stored sourceVersion is newer), which were left
+// unapplied so a late replay cannot roll the row back. Absent when none.
+//
+// Multi-part snapshots add three outcomes. `staged` acks a begin or part (and a
+// re-delivered one). `installing` acks a commit whose aggregate is too large to
+// install in one transaction: the mirror reads as not ready until the install
+// finishes, after which a re-delivered commit answers `duplicate` with the
+// acknowledged version. `unknown_snapshot` (no such snapshot is staging - begin
+// again) and `snapshot_incomplete` (commit before every part arrived) are
+// recoverable conflicts.
 export type SyncResponse =
-  | { ok: true; status: "applied" | "duplicate"; acknowledgedVersion: number }
+  | { ok: true; status: "applied"; acknowledgedVersion: number; skippedWrites?: SkippedWrite[] }
+  | { ok: true; status: "duplicate"; acknowledgedVersion: number }
+  | { ok: true; status: "staged"; snapshotId: string; partsReceived: number; partCount: number }
+  | { ok: true; status: "installing"; snapshotId: string; pendingVersion: number }
   | {
       ok: false;
       status: "version_gap";
@@ -79,10 +114,24 @@ export type SyncResponse =
     }
   | {
       ok: false;
-      status: "invalid_signature" | "invalid_payload" | "unsupported_schema" | "issuer_mismatch";
+      status: "invalid_signature" | "invalid_payload" | "issuer_mismatch" | "replayed";
+    }
+  | {
+      ok: false;
+      status: "unsupported_schema";
+      supportedSchemaVersions: ProjectionSchemaVersionRange;
     }
   | {
       ok: false;
       status: "not_ready" | "reset_required";
       currentVersion: number;
-    };
+    }
+  | { ok: false; status: "unknown_snapshot" | "snapshot_incomplete"; snapshotId: string };
+
+export type SkippedWrite = {
+  entityType: ProjectionEntityType;
+  entityId: string;
+  operation: ProjectionChangeOperation;
+  sourceVersion: number;
+  storedVersion: number;
+};
@@ -0,0 +1,112 @@
+// @vitest-environment edge-runtime
+import { convexTest } from "convex-test";
+import { makeFunctionReference } from "convex/server";
+import { Webhook } from "standardwebhooks";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import schema from "../component/schema";
+import { componentModules } from "../../test/component-modules";
+import { createFakeControlPlane, TEST_SYNC_SECRET, type ControlPlaneFixture } from "./index";
+
+const applySync = makeFunctionReference<"action">("sync:applySync");
+const check = makeFunctionReference<"query">("checks:check");
+const writeMany = makeFunctionReference<"mutation">("resources:writeMany");
+
+const fixture: ControlPlaneFixture = {
+  tenants: [{ id: "acme" }],
+  resourceTypes: [{ key: "app.project" }],
+  roles: [
+    { key: "viewer", permissions: ["app.project:read"] },
+    { key: "editor", permissions: ["app.project:read", "app.project:edit"] },
+  ],
+  memberships: [
+    { tenant: "acme", user: "alice", roles: ["viewer"] },
+    { tenant: "acme", user: "bob" },
+  ],
+  assignments: [
+    {
+      tenant: "acme",
+      user: "bob",
+      role: "editor",
+      resource: { type: "app.project", externalId: "p1" },
+    },
+  ],
+  resources: [{ type: "app.project", externalId: "p1" }],
+};
+
+describe("createFakeControlPlane", () => {
+  beforeEach(() => {
+    process.env.HERCULES_SYNC_SECRET = TEST_SYNC_SECRET;
+  });
+  afterEach(() => {
+    delete process.env.HERCULES_SYNC_SECRET;
+  });
+
+  test("drives signed sync deliveries through to access checks", async () => {
+    const t = convexTest(schema, componentModules);
+    const controlPlane = createFakeControlPlane(fixture);
+    const deliver = (payload: Parameters<typeof controlPlane.sign>[0]) =>
+      t.action(applySync, controlPlane.sign(payload));
+    const can = async (user: string, permission: string, externalId?: string) =>
+      (
+        await t.query(check, {
+          tokenIdentifier: `${controlPlane.issuer}|${user}`,
+          permission,
+          ...(externalId === undefined ? {} : { resource: { type: "app.project", externalId } }),
+        })
+      ).allowed;
+
+    expect(await deliver(controlPlane.snapshot())).toEqual({
+      ok: true,
+      status: "applied",
+      acknowledgedVersion: 1,
+    });
+    for (const args of controlPlane.resourceWrites()) await t.mutation(writeMany, args);
+    expect(await can("alice", "app.project:read")).toBe(true);
+    expect(await can("bob", "app.project:edit")).toBe(false);
+    expect(await can("bob", "app.project:edit", "p1")).toBe(true);
+
+    // Alice is promoted; only her membership's assignments change.
+    const promoted = controlPlane.update({
+      ...fixture,
+      memberships: [
+        { tenant: "acme", user: "alice", roles: ["editor"] },
+        { tenant: "acme", user: "bob" },
+      ],
+    });
+    expect(promoted.changes.map((change) => `${change.entityType}:${change.operation}`)).toEqual([
+      "user_role_assignment:upsert",
+      "user_role_assignment:delete",
+    ]);
+    expect(await deliver(promoted)).toMatchObject({ status: "applied", acknowledgedVersion: 2 });
+    expect(await can("alice", "app.project:edit")).toBe(true);
+    expect(await deliver(controlPlane.duplicate())).toMatchObject({ status: "duplicate" });
+
+    controlPlane.gap();
+    expect(await deliver(controlPlane.update(fixture))).toMatchObject({
+      status: "version_gap",
+      currentVersion: 2,
+      receivedVersion: 4,
+    });
+    expect(await deliver(controlPlane.reset())).toMatchObject({
+      status: "applied",
+      acknowledgedVersion: 5,
+    });
+    expect(await can("alice", "app.project:edit")).toBe(false);
+  });
+
+  test("signs deliveries the component rejects under another secret", async () => {
+    const t = convexTest(schema, componentModules);
+    const impostor = createFakeControlPlane(fixture, {
+      secret: "whsec_aW1wb3N0b3ItY29udHJvbC1wbGFuZQ==",
+    });
+    expect(await t.action(applySync, impostor.sign(impostor.snapshot()))).toEqual({
+      ok: false,
+      status: "invalid_signature",
+    });
+
+    const [path, init] = impostor.fetchArgs(impostor.snapshot());
+    expect(path).toBe("/_hercules/iam/sync");
+    const headers = init.headers as Record<string, string>;
+    expect(() => new Webhook(impostor.secret).verify(init.body as string, headers)).not.toThrow();
+  });
+});
@@ -0,0 +1,529 @@
+// Fake Hercules control plane for offline IAM tests.
+//
+// Builds v5 projection payloads from a declarative fixture, signs them exactly
+// as the real control plane does (standardwebhooks over the JSON body), and
+// keeps the producer-side version counter, so a convex-test suite can drive the
+// real registerAccessRoutes → applySync → applyProjection path and then assert
+// on access checks. Bind `secret` to the component as HERCULES_SYNC_SECRET
+// before delivering.
+//
+// Fixture entities are addressed by key, not by control-plane id: roles by
+// role key (a tenant-scoped role wins over a shared one of the same key),
+// permissions and resource types by key, memberships by (tenant, user). The
+// projected ids are derived deterministically from those keys.
+import { Webhook } from "standardwebhooks";
+import {
+  IAM_SYNC_PATH,
+  accessProjectionEventSchema,
+  accessProjectionSnapshotSchema,
+  type AccessProjectionAccessMode,
+  type AccessProjectionEvent,
+  type AccessProjectionGroupStatus,
+  type AccessProjectionMembershipStatus,
+  type AccessProjectionSnapshot,
+  type AccessProjectionSyncPayload,
+  type AccessProjectionTenantStatus,
+  type ProjectionChange,
+} from "../shared/sync.js";
+
+// base64("hercules-iam-test-secret"), in the `whsec_` form the control plane
+// hands out. Never use it outside tests.
+export const TEST_SYNC_SECRET = "whsec_aGVyY3VsZXMtaWFtLXRlc3Qtc2VjcmV0";
+
+export type ResourceRef = { type: string; externalId: string };
+
+export type FixtureTenant = {
+  id: string;
+  name?: string;
+  // Exactly one tenant is primary; defaults to the first one listed.
+  primary?: boolean;
+  status?: AccessProjectionTenantStatus;
+  accessMode?: AccessProjectionAccessMode;
+  // Role key granted to new members.
+  defaultRole?: string;
+};
+
+export type FixtureUser = { id: string; name?: string; email?: string };
+
+export type FixtureRole = {
+  key: string;
+  name?: string;
+  // Omit for a shared role (usable in every tenant).
+  tenant?: string;
+  appScope?: boolean;
+  permissions?: string[];
+};
+
+export type FixtureResourceType = { key: string; name?: string; parent?: string };
+
+export type FixtureMembership = {
+  tenant: string;
+  // The user's OIDC subject. Users not listed under `users` are created.
+  user: string;
+  status?: AccessProjectionMembershipStatus;
+  // Role keys held tenant-wide.
+  roles?: string[];
+};
+
+export type FixtureGroup = {
+  id: string;
+  tenant: string;
+  name?: string;
+  status?: AccessProjectionGroupStatus;
+  // User ids; each needs a membership in the group's tenant.
+  members?: string[];
+  // Role keys held tenant-wide.
+  roles?: string[];
+};
+
+// A role held by a user or a group, on one resource node or (without
+// `resource`) tenant-wide, optionally until `expiresAt`.
+export type FixtureAssignment = {
+  tenant: string;
+  role: string;
+  resource?: ResourceRef;
+  expiresAt?: number;
+} & ({ user: string; group?: never } | { group: string; user?: never });
+
+// App-written resource nodes. They are not part of the projection; write them
+// with `resourceWrites()`.
+export type FixtureResource = {
+  tenant?: string;
+  type: string;
+  externalId: string;
+  parent?: ResourceRef;
+};
+
+export type ControlPlaneFixture = {
+  issuer?: string;
+  tenants: FixtureTenant[];
+  users?: FixtureUser[];
+  // Permission keys not held by any role; role permissions are added implicitly.
+  permissions?: string[];
+  roles?: FixtureRole[];
+  resourceTypes?: FixtureResourceType[];
+  memberships?: FixtureMembership[];
+  groups?: FixtureGroup[];
+  assignments?: FixtureAssignment[];
+  resources?: FixtureResource[];
+};
+
+// `applySync` args for one signed delivery.
+export type SignedDelivery = {
+  payload: string;
+  webhookId: string;
+  webhookTimestamp: string;
+  webhookSignature: string;
+};
+
+export type FakeControlPlane = {
+  readonly secret: string;
+  readonly issuer: string;
+  // The version of the last payload built (or skipped by `gap`).
+  readonly sourceVersion: number;
+  // Initialize snapshot of the current fixture at the current version.
+  snapshot(): AccessProjectionSnapshot;
+  // Event at the next version carrying the difference to `next`, which becomes
+  // the current fixture.
+  update(next: ControlPlaneFixture): AccessProjectionEvent;
+  // Reset snapshot at the next version, of `next` or the current fixture.
+  reset(next?: ControlPlaneFixture): AccessProjectionSnapshot;
+  // Advance the version as if `count` events were lost in delivery; the next
+  // `update` then arrives with a version gap.
+  gap(count?: number): void;
+  // The last payload built, unchanged (same eventId), for re-delivery.
+  duplicate(): AccessProjectionSyncPayload;
+  sign(
+    payload: AccessProjectionSyncPayload,
+    options?: { webhookId?: string; timestamp?: Date },
+  ): SignedDelivery;
+  // `[path, init]` for convex-test's `t.fetch`, hitting the route installed by
+  // registerAccessRoutes.
+  fetchArgs(payload: AccessProjectionSyncPayload, path?: string): [string, RequestInit];
+  // `resources.writeMany` args, one batch per tenant, for the fixture's nodes.
+  resourceWrites(): Array<{ tenantId: string; nodes: FixtureResource[] }>;
+};
+
+const DEFAULT_ISSUER = "https://auth.hercules.test";
+
+export function createFakeControlPlane(
+  fixture: ControlPlaneFixture,
+  options: { secret?: string } = {},
+): FakeControlPlane {
+  const secret = options.secret ?? TEST_SYNC_SECRET;
+  const webhook = new Webhook(secret);
+  const issuer = fixture.issuer ?? DEFAULT_ISSUER;
+  let current = fixture;
+  let sourceVersion = 1;
+  let last: AccessProjectionSyncPayload | undefined;
+
+  const remember = <Payload extends AccessProjectionSyncPayload>(payload: Payload): Payload => {
+    last = payload;
+    return payload;
+  };
+
+  const sign: FakeControlPlane["sign"] = (payload, signOptions = {}) => {
+    const body = JSON.stringify(payload);
+    const webhookId = signOptions.webhookId ?? `msg_${payload.eventId}`;
+    const timestamp = signOptions.timestamp ?? new Date();
+    return {
+      payload: body,
+      webhookId,
+      webhookTimestamp: String(Math.floor(timestamp.getTime() / 1000)),
+      webhookSignature: webhook.sign(webhookId, timestamp, body),
+    };
+  };
+
+  const buildSnapshot = (mode: "initialize" | "reset") =>
+    accessProjectionSnapshotSchema.parse({
+      type: "access.projection.snapshot",
+      schemaVersion: 5,
+      eventId: `${mode}-${sourceVersion}`,
+      mode,
+      sourceVersion,
+      expectedIssuer: issuer,
+      ...projectFixture(current, Date.now()),
+    });
+
+  return {
+    secret,
+    issuer,
+    get sourceVersion() {
+      return sourceVersion;
+    },
+    snapshot: () => remember(buildSnapshot("initialize")),
+    update(next) {
+      const now = Date.now();
+      const changes = diffProjections(projectFixture(current, now), projectFixture(next, now));
+      current = next;
+      sourceVersion += 1;
+      return remember(
+        accessProjectionEventSchema.parse({
+          type: "access.projection.event",
+          schemaVersion: 5,
+          eventId: `event-${sourceVersion}`,
+          sourceVersion,
+          ...changes,
+        }),
+      );
+    },
+    reset(next) {
+      if (next) current = next;
+      sourceVersion += 1;
+      return remember(buildSnapshot("reset"));
+    },
+    gap(count = 1) {
+      sourceVersion += count;
+    },
+    duplicate() {
+      if (!last) throw new Error("No payload has been built yet.");
+      return last;
+    },
+    sign,
+    fetchArgs(payload, path = IAM_SYNC_PATH) {
+      const delivery = sign(payload);
+      return [
+        path,
+        {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            "webhook-id": delivery.webhookId,
+            "webhook-timestamp": delivery.webhookTimestamp,
+            "webhook-signature": delivery.webhookSignature,
+          },
+          body: delivery.payload,
+        },
+      ];
+    },
+    resourceWrites() {
+      const primary = primaryTenantId(current);
+      const batches = new Map<string, FixtureResource[]>();
+      for (const node of current.resources ?? []) {
+        const tenantId = node.tenant ?? primary;
+        batches.set(tenantId, [...(batches.get(tenantId) ?? []), node]);
+      }
+      return [...batches].map(([tenantId, nodes]) => ({
+        tenantId,
+        nodes: nodes.map(({ type, externalId, parent }) => ({
+          type,
+          externalId,
+          ...(parent === undefined ? {} : { parent }),
+        })),
+      }));
+    },
+  };
+}
+
+// ── fixture → projection rows ─────────────────────────────────────────────────
+type ProjectionRows = Omit<
+  AccessProjectionSnapshot,
+  "type" | "schemaVersion" | "eventId" | "mode" | "sourceVersion" | "expectedIssuer"
+>;
+
+const roleId = (key: string, tenant: string | undefined) => `role:${tenant ?? "shared"}:${key}`;
+const permissionId = (key: string) => `permission:${key}`;
+const resourceTypeId = (key: string) => `resource_type:${key}`;
+const membershipId = (tenant: string, user: string) => `membership:${tenant}:${user}`;
+
+function primaryTenantId(fixture: ControlPlaneFixture): string {
+  const primary = fixture.tenants.find((tenant) => tenant.primary) ?? fixture.tenants[0];
+  if (!primary) throw new Error("A control-plane fixture needs at least one tenant.");
+  return primary.id;
+}
+
+function projectFixture(fixture: ControlPlaneFixture, updatedAt: number): ProjectionRows {
+  const primary = primaryTenantId(fixture);
+  const roles = fixture.roles ?? [];
+  const resolveRole = (key: string, tenant: string): string => {
+    const role =
+      roles.find((candidate) => candidate.key === key && candidate.tenant === tenant) ??
+      roles.find((candidate) => candidate.key === key && candidate.tenant === undefined);
+    if (!role) throw new Error(`Fixture role "${key}" is not declared for tenant "${tenant}".`);
+    return roleId(role.key, role.tenant);
+  };
+
+  const permissionKeys = new Set([
+    ...(fixture.permissions ?? []),
+    ...roles.flatMap((role) => role.permissions ?? []),
+  ]);
+  const userIds = new Set([
+    ...(fixture.users ?? []).map((user) => user.id),
+    ...(fixture.memberships ?? []).map((membership) => membership.user),
+  ]);
+  const usersById = new Map((fixture.users ?? []).map((user) => [user.id, user]));
+
+  const userRoleAssignments: ProjectionRows["userRoleAssignments"] = [];
+  const groupRoleAssignments: ProjectionRows["groupRoleAssignments"] = [];
+  const userResourceRoleAssignments: ProjectionRows["userResourceRoleAssignments"] = [];
+  const groupResourceRoleAssignments: ProjectionRows["groupResourceRoleAssignments"] = [];
+  const assignments: FixtureAssignment[] = [
+    ...(fixture.memberships ?? []).flatMap((membership) =>
+      (membership.roles ?? []).map((role) => ({
+        tenant: membership.tenant,
+        user: membership.user,
+        role,
+      })),
+    ),
+    ...(fixture.groups ?? []).flatMap((group) =>
+      (group.roles ?? []).map((role) => ({ tenant: group.tenant, group: group.id, role })),
+    ),
+    ...(fixture.assignments ?? []),
+  ];
+  for (const assignment of assignments) {
+    const role = resolveRole(assignment.role, assignment.tenant);
+    const expiry = assignment.expiresAt === undefined ? {} : { expiresAt: assignment.expiresAt };
+    const resource = assignment.resource;
+    const resourceKey = resource ? `:${resource.type}:${resource.externalId}` : "";
+    if (assignment.user !== undefined) {
+      const membership = membershipId(assignment.tenant, assignment.user);
+      const id = `${membership}:${role}${resourceKey}`;
+      if (resource) {
+        userResourceRoleAssignments.push({
+          userResourceRoleAssignmentId: id,
+          tenantId: assignment.tenant,
+          membershipId: membership,
+          roleId: role,
+          resourceTypeId: resourceTypeId(resource.type),
+          externalId: resource.externalId,
+          ...expiry,
+          updatedAt,
+        });
+      } else {
+        userRoleAssignments.push({
+          userRoleAssignmentId: id,
+          tenantId: assignment.tenant,
+          membershipId: membership,
+          roleId: role,
+          ...expiry,
+          updatedAt,
+        });
+      }
+    } else {
+      const id = `group:${assignment.group}:${role}${resourceKey}`;
+      if (resource) {
+        groupResourceRoleAssignments.push({
+          groupResourceRoleAssignmentId: id,
+          tenantId: assignment.tenant,
+          groupId: assignment.group,
+          roleId: role,
+          resourceTypeId: resourceTypeId(resource.type),
+          externalId: resource.externalId,
+          ...expiry,
+          updatedAt,
+        });
+      } else {
+        groupRoleAssignments.push({
+          groupRoleAssignmentId: id,
+          tenantId: assignment.tenant,
+          groupId: assignment.group,
+          roleId: role,
+          ...expiry,
+          updatedAt,
+        });
+      }
+    }
+  }
+
+  return {
+    tenants: fixture.tenants.map((tenant) => ({
+      tenantId: tenant.id,
+      name: tenant.name ?? tenant.id,
+      isPrimaryTenant: tenant.id === primary,
+      status: tenant.status ?? "active",
+      accessMode: tenant.accessMode ?? "open",
+      defaultRoleId:
+        tenant.defaultRole === undefined ? null : resolveRole(tenant.defaultRole, tenant.id),
+      updatedAt,
+    })),
+    roles: roles.map((role) => ({
+      roleId: roleId(role.key, role.tenant),
+      key: role.key,
+      name: role.name ?? role.key,
+      description: null,
+      tenantId: role.tenant ?? null,
+      isAppScope: role.appScope ?? false,
+      updatedAt,
+    })),
+    permissions: [...permissionKeys].map((key) => ({
+      permissionId: permissionId(key),
+      key,
+      isAppScope: false,
+      updatedAt,
+    })),
+    rolePermissions: roles.flatMap((role) =>
+      (role.permissions ?? []).map((key) => ({
+        roleId: roleId(role.key, role.tenant),
+        permissionId: permissionId(key),
+        updatedAt,
+      })),
+    ),
+    resourceTypes: (fixture.resourceTypes ?? []).map((type) => ({
+      resourceTypeId: resourceTypeId(type.key),
+      key: type.key,
+      name: type.name ?? type.key,
+      parentResourceTypeId: type.parent === undefined ? null : resourceTypeId(type.parent),
+      updatedAt,
+    })),
+    memberships: (fixture.memberships ?? []).map((membership) => ({
+      membershipId: membershipId(membership.tenant, membership.user),
+      tenantId: membership.tenant,
+      userId: membership.user,
+      status: membership.status ?? "active",
+      updatedAt,
+    })),
+    groups: (fixture.groups ?? []).map((group) => ({
+      groupId: group.id,
+      tenantId: group.tenant,
+      name: group.name ?? group.id,
+      status: group.status ?? "active",
+      updatedAt,
+    })),
+    groupMemberships: (fixture.groups ?? []).flatMap((group) =>
+      (group.members ?? []).map((user) => ({
+        groupId: group.id,
+        membershipId: membershipId(group.tenant, user),
+        tenantId: group.tenant,
+        updatedAt,
+      })),
+    ),
+    userRoleAssignments,
+    groupRoleAssignments,
+    userResourceRoleAssignments,
+    groupResourceRoleAssignments,
+    users: [...userIds].map((id) => {
+      const user = usersById.get(id);
+      return {
+        userId: id,
+        name: user?.name ?? id,
+        email: user?.email ?? `${id}@example.test`,
+        emailVerified: true,
+        phoneVerified: false,
+        updatedAt,
+      };
+    }),
+  };
+}
+
+// ── projection diff → event changes ───────────────────────────────────────────
+// Identity columns per entity array, in parent-first order: upserts are emitted
+// in this order and deletes in reverse, so no change references a row the
+// mirror has not seen yet or has already cascaded away.
+const ENTITIES: ReadonlyArray<{
+  array: keyof ProjectionRows;
+  entityType: ProjectionChange["entityType"];
+  identity: readonly string[];
+}> = [
+  { array: "tenants", entityType: "tenant", identity: ["tenantId"] },
+  { array: "users", entityType: "user", identity: ["userId"] },
+  { array: "permissions", entityType: "permission", identity: ["permissionId"] },
+  { array: "roles", entityType: "role", identity: ["roleId"] },
+  { array: "rolePermissions", entityType: "role_permission", identity: ["roleId", "permissionId"] },
+  { array: "resourceTypes", entityType: "resource_type", identity: ["resourceTypeId"] },
+  { array: "memberships", entityType: "membership", identity: ["membershipId"] },
+  { array: "groups", entityType: "group", identity: ["groupId"] },
+  {
+    array: "groupMemberships",
+    entityType: "group_membership",
+    identity: ["groupId", "membershipId"],
+  },
+  {
+    array: "userRoleAssignments",
+    entityType: "user_role_assignment",
+    identity: ["userRoleAssignmentId"],
+  },
+  {
+    array: "groupRoleAssignments",
+    entityType: "group_role_assignment",
+    identity: ["groupRoleAssignmentId"],
+  },
+  {
+    array: "userResourceRoleAssignments",
+    entityType: "user_resource_role_assignment",
+    identity: ["userResourceRoleAssignmentId"],
+  },
+  {
+    array: "groupResourceRoleAssignments",
+    entityType: "group_resource_role_assignment",
+    identity: ["groupResourceRoleAssignmentId"],
+  },
+];
+
+type Row = Record<string, unknown>;
+
+function diffProjections(
+  before: ProjectionRows,
+  after: ProjectionRows,
+): ProjectionRows & { changes: ProjectionChange[] } {
+  const rows = Object.fromEntries(ENTITIES.map(({ array }) => [array, [] as Row[]]));
+  const upserts: ProjectionChange[] = [];
+  const deletes: ProjectionChange[] = [];
+  // Rows are rebuilt on every diff, so `updatedAt` always differs; compare
+  // everything else.
+  const content = ({ updatedAt: _updatedAt, ...row }: Row) => JSON.stringify(row);
+
+  for (const { array, entityType, identity } of ENTITIES) {
+    const identify = (row: Row) => JSON.stringify(identity.map((column) => row[column]));
+    const change = (row: Row, operation: "upsert" | "delete") =>
+      ({
+        entityType,
+        ...Object.fromEntries(identity.map((column) => [column, row[column]])),
+        operation,
+      }) as ProjectionChange;
+    const previous = new Map((before[array] as Row[]).map((row) => [identify(row), row]));
+    const next = new Set<string>();
+    for (const row of after[array] as Row[]) {
+      const key = identify(row);
+      next.add(key);
+      const old = previous.get(key);
+      if (old && content(old) === content(row)) continue;
+      upserts.push(change(row, "upsert"));
+      rows[array]?.push(row);
+    }
+    for (const [key, row] of previous) {
+      if (!next.has(key)) deletes.unshift(change(row, "delete"));
+    }
+  }
+
+  return { ...(rows as unknown as ProjectionRows), changes: [...upserts, ...deletes] };
+}